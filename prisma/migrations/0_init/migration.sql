@@ -0,0 +1,353 @@
+-- CreateTable
+CREATE TABLE `users` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `walletAddress` VARCHAR(191) NULL,
+    `nonce` VARCHAR(191) NULL,
+    `email` VARCHAR(191) NULL,
+    `passwordHash` VARCHAR(191) NULL,
+    `emailVerified` BOOLEAN NOT NULL DEFAULT false,
+    `username` VARCHAR(191) NULL,
+    `displayName` VARCHAR(191) NULL,
+    `avatarUrl` VARCHAR(191) NULL,
+    `role` ENUM('USER', 'ADMIN', 'MODERATOR') NOT NULL DEFAULT 'USER',
+
+    UNIQUE INDEX `users_walletAddress_key`(`walletAddress`),
+    UNIQUE INDEX `users_email_key`(`email`),
+    INDEX `users_walletAddress_idx`(`walletAddress`),
+    INDEX `users_email_idx`(`email`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `scraped_posts` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `platform` ENUM('TWITTER', 'INSTAGRAM', 'TIKTOK', 'PINTEREST', 'ELLE', 'HARPER', 'ETC', 'FEED') NOT NULL,
+    `platformPostId` VARCHAR(191) NOT NULL,
+    `sourceUrl` VARCHAR(191) NULL,
+    `rawContent` JSON NOT NULL,
+    `author` VARCHAR(191) NOT NULL,
+    `authorHandle` VARCHAR(191) NOT NULL,
+    `text` TEXT NOT NULL,
+    `mediaUrls` JSON NULL,
+    `postedAt` DATETIME(3) NOT NULL,
+    `likes` INTEGER NOT NULL DEFAULT 0,
+    `comments` INTEGER NOT NULL DEFAULT 0,
+    `shares` INTEGER NOT NULL DEFAULT 0,
+    `views` INTEGER NOT NULL DEFAULT 0,
+    `isProcessed` BOOLEAN NOT NULL DEFAULT false,
+    `processedAt` DATETIME(3) NULL,
+
+    UNIQUE INDEX `scraped_posts_platformPostId_key`(`platformPostId`),
+    INDEX `scraped_posts_platform_postedAt_idx`(`platform`, `postedAt`),
+    INDEX `scraped_posts_isProcessed_idx`(`isProcessed`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `normalized_posts` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `scrapedPostId` VARCHAR(191) NOT NULL,
+    `cleanedText` TEXT NOT NULL,
+    `hashtags` JSON NOT NULL,
+    `keywords` JSON NOT NULL,
+    `mentions` JSON NULL,
+    `platform` ENUM('TWITTER', 'INSTAGRAM', 'TIKTOK', 'PINTEREST', 'ELLE', 'HARPER', 'ETC', 'FEED') NOT NULL,
+    `author` VARCHAR(191) NOT NULL,
+    `authorHandle` VARCHAR(191) NOT NULL,
+    `authorUrl` VARCHAR(191) NULL,
+    `mediaUrls` JSON NULL,
+    `postedAt` DATETIME(3) NOT NULL,
+    `likesCount` INTEGER NOT NULL DEFAULT 0,
+    `commentsCount` INTEGER NOT NULL DEFAULT 0,
+    `sharesCount` INTEGER NOT NULL DEFAULT 0,
+    `viewsCount` INTEGER NOT NULL DEFAULT 0,
+    `viralityScore` INTEGER NOT NULL DEFAULT 0,
+    `relevanceScore` INTEGER NOT NULL DEFAULT 0,
+    `qualityScore` INTEGER NOT NULL DEFAULT 0,
+    `clusterId` VARCHAR(191) NULL,
+
+    UNIQUE INDEX `normalized_posts_scrapedPostId_key`(`scrapedPostId`),
+    INDEX `normalized_posts_platform_postedAt_idx`(`platform`, `postedAt`),
+    INDEX `normalized_posts_clusterId_idx`(`clusterId`),
+    INDEX `normalized_posts_viralityScore_idx`(`viralityScore`),
+    INDEX `normalized_posts_relevanceScore_idx`(`relevanceScore`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `trend_clusters` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `clusterKey` VARCHAR(191) NOT NULL,
+    `commonHashtags` JSON NOT NULL,
+    `commonKeywords` JSON NOT NULL,
+    `title` VARCHAR(191) NOT NULL,
+    `aiInsight` TEXT NOT NULL,
+    `trendScore` INTEGER NOT NULL DEFAULT 0,
+    `growthPercentage` DOUBLE NOT NULL DEFAULT 0,
+    `promptVersionId` VARCHAR(191) NULL,
+    `firstSeenAt` DATETIME(3) NOT NULL,
+    `lastSeenAt` DATETIME(3) NOT NULL,
+    `isActive` BOOLEAN NOT NULL DEFAULT true,
+
+    UNIQUE INDEX `trend_clusters_clusterKey_key`(`clusterKey`),
+    INDEX `trend_clusters_isActive_trendScore_idx`(`isActive`, `trendScore`),
+    INDEX `trend_clusters_lastSeenAt_idx`(`lastSeenAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `post_likes` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `userId` INTEGER NOT NULL,
+    `postId` VARCHAR(191) NOT NULL,
+
+    UNIQUE INDEX `post_likes_userId_postId_key`(`userId`, `postId`),
+    INDEX `post_likes_postId_idx`(`postId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `post_comments` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `content` TEXT NOT NULL,
+    `userId` INTEGER NOT NULL,
+    `postId` VARCHAR(191) NOT NULL,
+
+    INDEX `post_comments_postId_idx`(`postId`),
+    INDEX `post_comments_userId_idx`(`userId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `post_saves` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `userId` INTEGER NOT NULL,
+    `postId` VARCHAR(191) NOT NULL,
+
+    UNIQUE INDEX `post_saves_userId_postId_key`(`userId`, `postId`),
+    INDEX `post_saves_postId_idx`(`postId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `blogs` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `platform` VARCHAR(191) NOT NULL,
+    `title` VARCHAR(500) NOT NULL,
+    `description` TEXT NULL,
+    `ai_insight` TEXT NULL,
+    `image` VARCHAR(500) NULL,
+    `link` VARCHAR(500) NOT NULL,
+    `approved` BOOLEAN NOT NULL DEFAULT false,
+    `prompt_version_id` VARCHAR(191) NULL,
+    `normalized_post_id` VARCHAR(191) NULL,
+
+    INDEX `idx_platform`(`platform`),
+    INDEX `idx_approved`(`approved`),
+    INDEX `idx_createdAt`(`createdAt`),
+    INDEX `blogs_normalized_post_id_idx`(`normalized_post_id`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `blog_likes` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `userId` INTEGER NOT NULL,
+    `blogId` INTEGER NOT NULL,
+
+    UNIQUE INDEX `unique_user_blog`(`userId`, `blogId`),
+    INDEX `idx_userId`(`userId`),
+    INDEX `idx_blogId`(`blogId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `blog_comments` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `comment` TEXT NOT NULL,
+    `userId` INTEGER NOT NULL,
+    `blogId` INTEGER NOT NULL,
+
+    INDEX `idx_userId`(`userId`),
+    INDEX `idx_blogId`(`blogId`),
+    INDEX `idx_createdAt`(`createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `scraping_jobs` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `platform` ENUM('TWITTER', 'INSTAGRAM', 'TIKTOK', 'PINTEREST', 'ELLE', 'HARPER', 'ETC', 'FEED') NULL,
+    `status` ENUM('PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED') NOT NULL DEFAULT 'PENDING',
+    `startedAt` DATETIME(3) NULL,
+    `completedAt` DATETIME(3) NULL,
+    `postsScraped` INTEGER NOT NULL DEFAULT 0,
+    `postsProcessed` INTEGER NOT NULL DEFAULT 0,
+    `errorMessage` TEXT NULL,
+    `metadata` JSON NULL,
+
+    INDEX `scraping_jobs_platform_status_idx`(`platform`, `status`),
+    INDEX `scraping_jobs_createdAt_idx`(`createdAt`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `pipeline_locks` (
+    `name` VARCHAR(191) NOT NULL,
+    `owner` VARCHAR(191) NOT NULL,
+    `jobId` VARCHAR(191) NULL,
+    `acquiredAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `expiresAt` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`name`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `backfill_runs` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `sourceId` VARCHAR(191) NOT NULL,
+    `since` DATETIME(3) NOT NULL,
+    `until` DATETIME(3) NOT NULL,
+    `status` ENUM('PENDING', 'RUNNING', 'COMPLETED', 'FAILED', 'CANCELLED') NOT NULL DEFAULT 'PENDING',
+    `urls` JSON NULL,
+    `position` INTEGER NOT NULL DEFAULT 0,
+    `saved` INTEGER NOT NULL DEFAULT 0,
+    `skipped` INTEGER NOT NULL DEFAULT 0,
+    `failed` INTEGER NOT NULL DEFAULT 0,
+    `startedAt` DATETIME(3) NULL,
+    `completedAt` DATETIME(3) NULL,
+    `errorMessage` TEXT NULL,
+
+    INDEX `backfill_runs_sourceId_status_idx`(`sourceId`, `status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `source_cursors` (
+    `sourceId` VARCHAR(191) NOT NULL,
+    `lastPostedAt` DATETIME(3) NULL,
+    `seenUrls` JSON NULL,
+    `lastRunAt` DATETIME(3) NULL,
+    `resetAt` DATETIME(3) NULL,
+    `updatedAt` DATETIME(3) NOT NULL,
+
+    PRIMARY KEY (`sourceId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `llm_usage` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `provider` VARCHAR(191) NOT NULL,
+    `model` VARCHAR(191) NOT NULL,
+    `purpose` ENUM('NORMALIZE', 'INSIGHT', 'SENTIMENT') NOT NULL,
+    `promptTokens` INTEGER NOT NULL DEFAULT 0,
+    `completionTokens` INTEGER NOT NULL DEFAULT 0,
+    `totalTokens` INTEGER NOT NULL DEFAULT 0,
+    `tokensEstimated` BOOLEAN NOT NULL DEFAULT false,
+    `costUsd` DOUBLE NOT NULL DEFAULT 0,
+    `durationMs` INTEGER NULL,
+    `sourceId` VARCHAR(191) NULL,
+    `blogId` INTEGER NULL,
+    `clusterId` VARCHAR(191) NULL,
+    `jobId` VARCHAR(191) NULL,
+
+    INDEX `llm_usage_createdAt_idx`(`createdAt`),
+    INDEX `llm_usage_jobId_idx`(`jobId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `llm_cache` (
+    `key` CHAR(64) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `expiresAt` DATETIME(3) NOT NULL,
+    `purpose` ENUM('NORMALIZE', 'INSIGHT', 'SENTIMENT') NOT NULL,
+    `model` VARCHAR(191) NOT NULL,
+    `promptVersion` VARCHAR(191) NOT NULL,
+    `content` LONGTEXT NOT NULL,
+    `hits` INTEGER NOT NULL DEFAULT 0,
+    `lastHitAt` DATETIME(3) NULL,
+
+    INDEX `llm_cache_expiresAt_idx`(`expiresAt`),
+    PRIMARY KEY (`key`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `prompt_versions` (
+    `id` VARCHAR(191) NOT NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `updatedAt` DATETIME(3) NOT NULL,
+    `name` VARCHAR(191) NOT NULL,
+    `version` INTEGER NOT NULL,
+    `system` TEXT NOT NULL,
+    `template` LONGTEXT NOT NULL,
+    `notes` TEXT NULL,
+    `createdBy` INTEGER NULL,
+    `status` ENUM('ACTIVE', 'VARIANT', 'INACTIVE') NOT NULL DEFAULT 'INACTIVE',
+    `trafficPercent` INTEGER NOT NULL DEFAULT 0,
+
+    UNIQUE INDEX `prompt_versions_name_version_key`(`name`, `version`),
+    INDEX `prompt_versions_name_status_idx`(`name`, `status`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `normalized_posts` ADD CONSTRAINT `normalized_posts_scrapedPostId_fkey` FOREIGN KEY (`scrapedPostId`) REFERENCES `scraped_posts`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `normalized_posts` ADD CONSTRAINT `normalized_posts_clusterId_fkey` FOREIGN KEY (`clusterId`) REFERENCES `trend_clusters`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `post_likes` ADD CONSTRAINT `post_likes_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `post_likes` ADD CONSTRAINT `post_likes_postId_fkey` FOREIGN KEY (`postId`) REFERENCES `normalized_posts`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `post_comments` ADD CONSTRAINT `post_comments_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `post_comments` ADD CONSTRAINT `post_comments_postId_fkey` FOREIGN KEY (`postId`) REFERENCES `normalized_posts`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `post_saves` ADD CONSTRAINT `post_saves_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `post_saves` ADD CONSTRAINT `post_saves_postId_fkey` FOREIGN KEY (`postId`) REFERENCES `normalized_posts`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `blogs` ADD CONSTRAINT `blogs_normalized_post_id_fkey` FOREIGN KEY (`normalized_post_id`) REFERENCES `normalized_posts`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `blog_likes` ADD CONSTRAINT `blog_likes_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `blog_likes` ADD CONSTRAINT `blog_likes_blogId_fkey` FOREIGN KEY (`blogId`) REFERENCES `blogs`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `blog_comments` ADD CONSTRAINT `blog_comments_userId_fkey` FOREIGN KEY (`userId`) REFERENCES `users`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `blog_comments` ADD CONSTRAINT `blog_comments_blogId_fkey` FOREIGN KEY (`blogId`) REFERENCES `blogs`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,84 @@
+-- Databases created before migrations were tracked are baselined with
+-- `npm run prisma:baseline` (0_init marked as applied). Their blog tables
+-- were created by hand and drifted from the schema; every step below only
+-- runs when needed, so it is a no-op on databases created by 0_init.
+
+-- blog_likes / blog_comments created from BLOG_LIKES_API.md use user_id and blog_id
+SET @stmt := IF((SELECT COUNT(*) FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'blog_likes' AND COLUMN_NAME = 'user_id') > 0,
+    'ALTER TABLE `blog_likes` RENAME COLUMN `user_id` TO `userId`', 'SELECT 1');
+PREPARE stmt FROM @stmt;
+EXECUTE stmt;
+DEALLOCATE PREPARE stmt;
+
+SET @stmt := IF((SELECT COUNT(*) FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'blog_likes' AND COLUMN_NAME = 'blog_id') > 0,
+    'ALTER TABLE `blog_likes` RENAME COLUMN `blog_id` TO `blogId`', 'SELECT 1');
+PREPARE stmt FROM @stmt;
+EXECUTE stmt;
+DEALLOCATE PREPARE stmt;
+
+SET @stmt := IF((SELECT COUNT(*) FROM information_schema.STATISTICS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'blog_likes' AND INDEX_NAME = 'idx_user_id') > 0,
+    'ALTER TABLE `blog_likes` RENAME INDEX `idx_user_id` TO `idx_userId`', 'SELECT 1');
+PREPARE stmt FROM @stmt;
+EXECUTE stmt;
+DEALLOCATE PREPARE stmt;
+
+SET @stmt := IF((SELECT COUNT(*) FROM information_schema.STATISTICS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'blog_likes' AND INDEX_NAME = 'idx_blog_id') > 0,
+    'ALTER TABLE `blog_likes` RENAME INDEX `idx_blog_id` TO `idx_blogId`', 'SELECT 1');
+PREPARE stmt FROM @stmt;
+EXECUTE stmt;
+DEALLOCATE PREPARE stmt;
+
+SET @stmt := IF((SELECT COUNT(*) FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'blog_comments' AND COLUMN_NAME = 'user_id') > 0,
+    'ALTER TABLE `blog_comments` RENAME COLUMN `user_id` TO `userId`', 'SELECT 1');
+PREPARE stmt FROM @stmt;
+EXECUTE stmt;
+DEALLOCATE PREPARE stmt;
+
+SET @stmt := IF((SELECT COUNT(*) FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'blog_comments' AND COLUMN_NAME = 'blog_id') > 0,
+    'ALTER TABLE `blog_comments` RENAME COLUMN `blog_id` TO `blogId`', 'SELECT 1');
+PREPARE stmt FROM @stmt;
+EXECUTE stmt;
+DEALLOCATE PREPARE stmt;
+
+-- Columns startup used to add to blogs (VARCHAR(36), no index or foreign key)
+SET @stmt := IF((SELECT COUNT(*) FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'blogs' AND COLUMN_NAME = 'prompt_version_id') = 0,
+    'ALTER TABLE `blogs` ADD COLUMN `prompt_version_id` VARCHAR(191) NULL', 'SELECT 1');
+PREPARE stmt FROM @stmt;
+EXECUTE stmt;
+DEALLOCATE PREPARE stmt;
+
+SET @stmt := IF((SELECT COUNT(*) FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'blogs' AND COLUMN_NAME = 'normalized_post_id') = 0,
+    'ALTER TABLE `blogs` ADD COLUMN `normalized_post_id` VARCHAR(191) NULL', 'SELECT 1');
+PREPARE stmt FROM @stmt;
+EXECUTE stmt;
+DEALLOCATE PREPARE stmt;
+
+SET @stmt := IF((SELECT COUNT(*) FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'blogs' AND COLUMN_NAME = 'prompt_version_id' AND CHARACTER_MAXIMUM_LENGTH <> 191) > 0,
+    'ALTER TABLE `blogs` MODIFY `prompt_version_id` VARCHAR(191) NULL', 'SELECT 1');
+PREPARE stmt FROM @stmt;
+EXECUTE stmt;
+DEALLOCATE PREPARE stmt;
+
+SET @stmt := IF((SELECT COUNT(*) FROM information_schema.COLUMNS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'blogs' AND COLUMN_NAME = 'normalized_post_id' AND CHARACTER_MAXIMUM_LENGTH <> 191) > 0,
+    'ALTER TABLE `blogs` MODIFY `normalized_post_id` VARCHAR(191) NULL', 'SELECT 1');
+PREPARE stmt FROM @stmt;
+EXECUTE stmt;
+DEALLOCATE PREPARE stmt;
+
+-- Links to normalized posts that no longer exist would block the foreign key
+UPDATE `blogs` SET `normalized_post_id` = NULL
+WHERE `normalized_post_id` IS NOT NULL
+    AND `normalized_post_id` NOT IN (SELECT `id` FROM `normalized_posts`);
+
+SET @stmt := IF((SELECT COUNT(*) FROM information_schema.STATISTICS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'blogs' AND INDEX_NAME = 'blogs_normalized_post_id_idx') = 0,
+    'CREATE INDEX `blogs_normalized_post_id_idx` ON `blogs`(`normalized_post_id`)', 'SELECT 1');
+PREPARE stmt FROM @stmt;
+EXECUTE stmt;
+DEALLOCATE PREPARE stmt;
+
+SET @stmt := IF((SELECT COUNT(*) FROM information_schema.TABLE_CONSTRAINTS WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'blogs' AND CONSTRAINT_NAME = 'blogs_normalized_post_id_fkey') = 0,
+    'ALTER TABLE `blogs` ADD CONSTRAINT `blogs_normalized_post_id_fkey` FOREIGN KEY (`normalized_post_id`) REFERENCES `normalized_posts`(`id`) ON DELETE SET NULL ON UPDATE CASCADE',
+    'SELECT 1');
+PREPARE stmt FROM @stmt;
+EXECUTE stmt;
+DEALLOCATE PREPARE stmt;
@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE `blogs` ADD COLUMN `hashtags` TEXT NULL;
+
+-- Backfill hashtags of blogs published from a normalized post
+UPDATE `blogs` b
+    JOIN (
+        SELECT n.`id`, GROUP_CONCAT(t.`tag` SEPARATOR ' ') AS `tags`
+        FROM `normalized_posts` n,
+            JSON_TABLE(n.`hashtags`, '$[*]' COLUMNS (`tag` VARCHAR(191) PATH '$')) t
+        GROUP BY n.`id`
+    ) h ON h.`id` = b.`normalized_post_id`
+SET b.`hashtags` = h.`tags`
+WHERE b.`hashtags` IS NULL;
+
+-- CreateIndex
+CREATE FULLTEXT INDEX `ft_blogs_search` ON `blogs`(`title`, `description`, `ai_insight`, `hashtags`);
+
+-- CreateIndex
+CREATE FULLTEXT INDEX `ft_trend_clusters_title` ON `trend_clusters`(`title`);
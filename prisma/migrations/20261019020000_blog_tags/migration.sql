@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE `tags` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `name` VARCHAR(191) NOT NULL,
+
+    UNIQUE INDEX `tags_name_key`(`name`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `blog_tags` (
+    `blogId` INTEGER NOT NULL,
+    `tagId` INTEGER NOT NULL,
+    `kind` ENUM('HASHTAG', 'KEYWORD') NOT NULL,
+
+    INDEX `blog_tags_tagId_idx`(`tagId`),
+    PRIMARY KEY (`blogId`, `tagId`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `blog_tags` ADD CONSTRAINT `blog_tags_blogId_fkey` FOREIGN KEY (`blogId`) REFERENCES `blogs`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `blog_tags` ADD CONSTRAINT `blog_tags_tagId_fkey` FOREIGN KEY (`tagId`) REFERENCES `tags`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill tags of blogs published from a normalized post (hashtags first,
+-- so a name used both ways is kept as a hashtag)
+CREATE TEMPORARY TABLE `tmp_blog_tags` AS
+    SELECT b.`id` AS `blogId`, LEFT(LOWER(TRIM(TRIM(LEADING '#' FROM TRIM(j.`tag`)))), 191) AS `name`, 'HASHTAG' AS `kind`
+    FROM `blogs` b
+        JOIN `normalized_posts` n ON n.`id` = b.`normalized_post_id`
+        CROSS JOIN JSON_TABLE(n.`hashtags`, '$[*]' COLUMNS (`tag` VARCHAR(500) PATH '$')) j
+    UNION ALL
+    SELECT b.`id`, LEFT(LOWER(TRIM(TRIM(LEADING '#' FROM TRIM(j.`tag`)))), 191), 'KEYWORD'
+    FROM `blogs` b
+        JOIN `normalized_posts` n ON n.`id` = b.`normalized_post_id`
+        CROSS JOIN JSON_TABLE(n.`keywords`, '$[*]' COLUMNS (`tag` VARCHAR(500) PATH '$')) j;
+
+INSERT IGNORE INTO `tags` (`name`)
+    SELECT DISTINCT `name` FROM `tmp_blog_tags` WHERE `name` <> '';
+
+INSERT IGNORE INTO `blog_tags` (`blogId`, `tagId`, `kind`)
+    SELECT x.`blogId`, t.`id`, x.`kind`
+    FROM `tmp_blog_tags` x
+        JOIN `tags` t ON t.`name` = x.`name`
+    ORDER BY x.`kind` = 'KEYWORD';
+
+DROP TEMPORARY TABLE `tmp_blog_tags`;
@@ -3,6 +3,21 @@ import type { StringValue } from 'ms';
 
 dotenv.config();
 
+/**
+ * LLM_PRICES: JSON object of model prefix → USD per million tokens
+ */
+function parsePrices(value: string | undefined): Record<string, { input: number; output: number }> {
+	try {
+		const prices = JSON.parse(value || '{}');
+		if (!prices || typeof prices !== 'object' || Array.isArray(prices)) {
+			throw new Error('expected an object');
+		}
+		return prices;
+	} catch (error: any) {
+		throw new Error(`Invalid LLM_PRICES: ${error.message} (e.g. {"llama-3.1-8b-instruct": {"input": 0.05, "output": 0.08}})`);
+	}
+}
+
 export const config = {
 	// Server
 	nodeEnv: process.env.NODE_ENV || 'development',
@@ -26,6 +41,43 @@ export const config = {
 		model: process.env.OPENAI_MODEL || 'gpt-4-turbo-preview',
 	},
 
+	// LLM provider used for normalization and insights
+	llm: {
+		// 'openai', 'openai-compatible' (self-hosted endpoint) or 'mock' (offline, deterministic)
+		provider: (process.env.LLM_PROVIDER || 'openai') as 'openai' | 'openai-compatible' | 'mock',
+		// OpenAI-compatible endpoint, e.g. http://localhost:8000/v1
+		baseUrl: process.env.LLM_BASE_URL,
+		apiKey: process.env.LLM_API_KEY,
+		model: process.env.LLM_MODEL,
+		// Cheaper model for sentiment labels (defaults to the provider's model)
+		sentimentModel: process.env.LLM_SENTIMENT_MODEL,
+		timeoutMs: parseInt(process.env.LLM_TIMEOUT_MS || '120000', 10),
+		// USD per million tokens by model prefix, merged over the built-in table
+		// e.g. {"llama-3.1-8b-instruct": {"input": 0.05, "output": 0.08}}
+		prices: parsePrices(process.env.LLM_PRICES),
+		// Estimated spend per UTC day after which AI steps pause (0 = no limit)
+		dailyBudgetUsd: parseFloat(process.env.LLM_DAILY_BUDGET_USD || '0'),
+		// Answers cached in MySQL by model + prompt version + input hash
+		cache: {
+			enabled: process.env.LLM_CACHE_ENABLED !== 'false',
+			ttlHours: parseInt(process.env.LLM_CACHE_TTL_HOURS || '720', 10),
+		},
+	},
+
+	// Validation of the model's normalization output
+	normalization: {
+		// AI_Insight length accepted (the prompt asks for about 250 words)
+		insightMinWords: parseInt(process.env.NORMALIZATION_INSIGHT_MIN_WORDS || '150', 10),
+		insightMaxWords: parseInt(process.env.NORMALIZATION_INSIGHT_MAX_WORDS || '400', 10),
+		// Follow-up requests asking the model to fix invalid output
+		repairAttempts: parseInt(process.env.NORMALIZATION_REPAIR_ATTEMPTS || '1', 10),
+		// Articles per model request (1 = one call per article) and requests in flight
+		batchSize: parseInt(process.env.NORMALIZATION_BATCH_SIZE || '3', 10),
+		concurrency: parseInt(process.env.NORMALIZATION_CONCURRENCY || '2', 10),
+		// Completion budget per article in a batch (a 250-word insight is ~400 tokens)
+		maxTokensPerArticle: parseInt(process.env.NORMALIZATION_MAX_TOKENS_PER_ARTICLE || '900', 10),
+	},
+
 	// Social Media APIs
 	twitter: {
 		apiKey: process.env.TWITTER_API_KEY,
@@ -40,6 +92,51 @@ export const config = {
 		intervalMinutes: parseInt(process.env.SCRAPING_INTERVAL_MINUTES || '360', 10),
 		maxPostsPerScrape: parseInt(process.env.MAX_POSTS_PER_SCRAPE || '100', 10),
 		enabled: process.env.SCRAPING_ENABLED === 'true',
+		// Pipeline lock lease; renewed while a run is alive, taken over once expired
+		lockTtlMinutes: parseInt(process.env.SCRAPING_LOCK_TTL_MINUTES || '10', 10),
+		// How long shutdown waits for running jobs to record their cancellation
+		shutdownTimeoutSeconds: parseInt(process.env.SHUTDOWN_TIMEOUT_SECONDS || '30', 10),
+	},
+
+	// robots.txt enforcement for all sources
+	crawlPolicy: {
+		enabled: process.env.CRAWL_POLICY_ENABLED !== 'false',
+		// Product token matched against robots.txt User-agent groups
+		userAgent: process.env.CRAWLER_USER_AGENT_TOKEN || 'GiaBot',
+		robotsCacheMinutes: parseInt(process.env.ROBOTS_CACHE_MINUTES || '1440', 10),
+	},
+
+	// RSS/Atom feeds read by the feed source (comma-separated)
+	feeds: {
+		urls: (process.env.FEED_URLS || '').split(',').map(url => url.trim()).filter(Boolean),
+	},
+
+	// Sitemap discovery for publication sources
+	sitemaps: {
+		// Scheduled runs discover articles from sitemaps instead of the landing page
+		discovery: process.env.SITEMAP_DISCOVERY === 'true',
+		// Window used when a sitemap run has no explicit since date
+		lookbackHours: parseInt(process.env.SITEMAP_LOOKBACK_HOURS || '24', 10),
+		maxSitemaps: parseInt(process.env.SITEMAP_MAX_FILES || '25', 10),
+	},
+
+	// Historical backfills (throttled harder than regular runs)
+	backfill: {
+		requestDelayMs: parseInt(process.env.BACKFILL_REQUEST_DELAY_MS || '5000', 10),
+		maxSitemaps: parseInt(process.env.BACKFILL_MAX_SITEMAPS || '200', 10),
+	},
+
+	// Page fixtures: 'record' saves every fetched page, 'replay' serves them
+	// instead of the network (offline tests)
+	fixtures: {
+		mode: (process.env.SCRAPER_FIXTURES || 'off') as 'off' | 'record' | 'replay',
+		dir: process.env.SCRAPER_FIXTURES_DIR || 'src/tests/fixtures/pages',
+	},
+
+	// Shared Playwright browser
+	browserPool: {
+		maxContexts: parseInt(process.env.BROWSER_POOL_MAX_CONTEXTS || '2', 10),
+		idleTimeoutSeconds: parseInt(process.env.BROWSER_POOL_IDLE_SECONDS || '120', 10),
 	},
 
 	// Rate Limiting
@@ -65,7 +162,8 @@ const requiredEnvVars = [
 	'DATABASE_URL',
 	'JWT_SECRET',
 	'JWT_REFRESH_SECRET',
-	'OPENAI_API_KEY',
+	...(config.llm.provider === 'openai' ? ['OPENAI_API_KEY'] : []),
+	...(config.llm.provider === 'openai-compatible' ? ['LLM_BASE_URL', 'LLM_MODEL'] : []),
 ];
 
 for (const envVar of requiredEnvVars) {
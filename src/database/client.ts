@@ -1,4 +1,6 @@
 import { PrismaClient } from '@prisma/client';
+import * as fs from 'fs';
+import * as path from 'path';
 import { logger } from '../utils/logger';
 
 const prisma = new PrismaClient({
@@ -17,8 +19,23 @@ if (process.env.NODE_ENV === 'development') {
 	});
 }
 
+// Folder prisma migrate reads (one sub-folder per migration)
+const MIGRATIONS_DIR = path.join(__dirname, '../../prisma/migrations');
+
+/**
+ * Thrown at startup when the database schema is not at the latest migration
+ */
+export class MigrationStatusError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'MigrationStatusError';
+	}
+}
+
 /**
- * Initialize database: Test connection and create users table if it doesn't exist
+ * Initialize database: test the connection and check that every migration
+ * in prisma/migrations has been applied and its tables exist (tables are
+ * created by `npm run prisma:deploy`, never at startup)
  */
 export async function initializeDatabase() {
 	try {
@@ -28,167 +45,96 @@ export async function initializeDatabase() {
 		await prisma.$connect();
 		logger.info('✅ MySQL Database connected successfully');
 
-		// Check if users table exists
-		try {
-			await prisma.$queryRaw`SELECT 1 FROM users LIMIT 1`;
-			logger.info('✅ Users table already exists');
-		} catch (error: any) {
-			// Table doesn't exist, create only users table
-			if (error.code === 'P2021' || error.message?.includes('Table') || error.message?.includes('doesn\'t exist')) {
-				logger.warn('⚠️  Users table not found. Creating users table...');
-
-				try {
-					// Create users table with raw SQL
-					await prisma.$executeRawUnsafe(`
-						CREATE TABLE IF NOT EXISTS users (
-							id INT AUTO_INCREMENT PRIMARY KEY,
-							createdAt DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
-							updatedAt DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
-							walletAddress VARCHAR(191) NULL UNIQUE,
-							nonce VARCHAR(191) NULL,
-							email VARCHAR(191) NULL UNIQUE,
-							passwordHash VARCHAR(191) NULL,
-							emailVerified BOOLEAN NOT NULL DEFAULT false,
-							username VARCHAR(191) NULL,
-							displayName VARCHAR(191) NULL,
-							avatarUrl VARCHAR(191) NULL,
-							role ENUM('USER', 'ADMIN', 'MODERATOR') NOT NULL DEFAULT 'USER',
-							INDEX idx_walletAddress (walletAddress),
-							INDEX idx_email (email)
-						) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
-					`);
-					logger.info('✅ Users table created successfully');
-				} catch (createError) {
-					logger.error('❌ Failed to create users table:', createError);
-					throw new Error('Users table creation failed');
-				}
-			} else {
-				throw error;
-			}
-		}
-
-		// Check if blogs table exists
-		try {
-			await prisma.$queryRaw`SELECT 1 FROM blogs LIMIT 1`;
-			logger.info('✅ Blogs table already exists');
-		} catch (error: any) {
-			// Table doesn't exist, create blogs table
-			if (error.code === 'P2021' || error.message?.includes('Table') || error.message?.includes('doesn\'t exist')) {
-				logger.warn('⚠️  Blogs table not found. Creating blogs table...');
-
-				try {
-					// Create blogs table with raw SQL
-					await prisma.$executeRawUnsafe(`
-						CREATE TABLE IF NOT EXISTS blogs (
-							id INT AUTO_INCREMENT PRIMARY KEY,
-							platform VARCHAR(191) NOT NULL,
-							title VARCHAR(500) NOT NULL,
-							description TEXT NULL,
-							ai_insight TEXT NULL,
-							image VARCHAR(500) NULL,
-							link VARCHAR(500) NOT NULL,
-							approved TINYINT(1) NOT NULL DEFAULT 0,
-							createdAt DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
-							updatedAt DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
-							INDEX idx_platform (platform),
-							INDEX idx_approved (approved),
-							INDEX idx_createdAt (createdAt)
-						) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
-					`);
-					logger.info('✅ Blogs table created successfully');
-				} catch (createError) {
-					logger.error('❌ Failed to create blogs table:', createError);
-					throw new Error('Blogs table creation failed');
-				}
-			} else {
-				throw error;
-			}
-		}
-
-		// Check if blog_likes table exists
-		try {
-			await prisma.$queryRaw`SELECT 1 FROM blog_likes LIMIT 1`;
-			logger.info('✅ Blog_likes table already exists');
-		} catch (error: any) {
-			// Table doesn't exist, create blog_likes table
-			if (error.code === 'P2021' || error.message?.includes('Table') || error.message?.includes('doesn\'t exist')) {
-				logger.warn('⚠️  Blog_likes table not found. Creating blog_likes table...');
-
-				try {
-					// Create blog_likes table with raw SQL (using camelCase columns)
-					await prisma.$executeRawUnsafe(`
-						CREATE TABLE IF NOT EXISTS blog_likes (
-							id INT AUTO_INCREMENT PRIMARY KEY,
-							userId INT NOT NULL,
-							blogId INT NOT NULL,
-							createdAt DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
-							UNIQUE KEY unique_user_blog (userId, blogId),
-							INDEX idx_userId (userId),
-							INDEX idx_blogId (blogId),
-							FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE,
-							FOREIGN KEY (blogId) REFERENCES blogs(id) ON DELETE CASCADE
-						) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
-					`);
-					logger.info('✅ Blog_likes table created successfully');
-				} catch (createError) {
-					logger.error('❌ Failed to create blog_likes table:', createError);
-					throw new Error('Blog_likes table creation failed');
-				}
-			} else {
-				throw error;
-			}
-		}
-
-		// Check if blog_comments table exists
-		try {
-			await prisma.$queryRaw`SELECT 1 FROM blog_comments LIMIT 1`;
-			logger.info('✅ Blog_comments table already exists');
-		} catch (error: any) {
-			// Table doesn't exist, create blog_comments table
-			if (error.code === 'P2021' || error.message?.includes('Table') || error.message?.includes('doesn\'t exist')) {
-				logger.warn('⚠️  Blog_comments table not found. Creating blog_comments table...');
-
-				try {
-					// Create blog_comments table with raw SQL (using camelCase to match blog_likes table)
-					await prisma.$executeRawUnsafe(`
-						CREATE TABLE IF NOT EXISTS blog_comments (
-							id INT AUTO_INCREMENT PRIMARY KEY,
-							userId INT NOT NULL,
-							blogId INT NOT NULL,
-							comment TEXT NOT NULL,
-							createdAt DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
-							updatedAt DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3) ON UPDATE CURRENT_TIMESTAMP(3),
-							INDEX idx_userId (userId),
-							INDEX idx_blogId (blogId),
-							INDEX idx_createdAt (createdAt),
-							FOREIGN KEY (userId) REFERENCES users(id) ON DELETE CASCADE,
-							FOREIGN KEY (blogId) REFERENCES blogs(id) ON DELETE CASCADE
-						) ENGINE=InnoDB DEFAULT CHARSET=utf8mb4 COLLATE=utf8mb4_unicode_ci;
-					`);
-					logger.info('✅ Blog_comments table created successfully');
-				} catch (createError) {
-					logger.error('❌ Failed to create blog_comments table:', createError);
-					throw new Error('Blog_comments table creation failed');
-				}
-			} else {
-				throw error;
-			}
-		}
+		await checkMigrations();
 
 		// Verify tables are ready
-		const userCount = await prisma.user.count();
-		const blogsCount = await prisma.$queryRaw<any[]>`SELECT COUNT(*) as count FROM blogs`;
-		const likesCount = await prisma.$queryRaw<any[]>`SELECT COUNT(*) as count FROM blog_likes`;
-		const commentsCount = await prisma.$queryRaw<any[]>`SELECT COUNT(*) as count FROM blog_comments`;
-		logger.info(`✅ Database ready. Users: ${userCount}, Blogs: ${Number(blogsCount[0].count)}, Likes: ${Number(likesCount[0].count)}, Comments: ${Number(commentsCount[0].count)}`);
+		const [userCount, blogsCount, likesCount, commentsCount] = await Promise.all([
+			prisma.user.count(),
+			prisma.blog.count(),
+			prisma.blogLike.count(),
+			prisma.blogComment.count(),
+		]);
+		logger.info(`✅ Database ready. Users: ${userCount}, Blogs: ${blogsCount}, Likes: ${likesCount}, Comments: ${commentsCount}`);
 
 		return true;
 	} catch (error) {
 		logger.error('❌ Failed to initialize database:', error);
+		if (error instanceof MigrationStatusError) {
+			throw error;
+		}
 		throw new Error('Database initialization failed');
 	}
 }
 
+/**
+ * Compare the migrations on disk with _prisma_migrations
+ */
+async function checkMigrations() {
+	const expected = fs.readdirSync(MIGRATIONS_DIR, { withFileTypes: true })
+		.filter(entry => entry.isDirectory() && fs.existsSync(path.join(MIGRATIONS_DIR, entry.name, 'migration.sql')))
+		.map(entry => entry.name)
+		.sort();
+
+	let applied: { migration_name: string; finished_at: Date | null; rolled_back_at: Date | null }[];
+	try {
+		applied = await prisma.$queryRaw`
+			SELECT migration_name, finished_at, rolled_back_at FROM _prisma_migrations
+		`;
+	} catch (error: any) {
+		// 1146: no such table
+		if (error.meta?.code === '1146' || error.message?.includes('doesn\'t exist')) {
+			throw new MigrationStatusError(
+				'Database has no migration history. New database: run `npm run prisma:deploy`. ' +
+				'Database created by an earlier version (tables made at startup): create the tables it lacks, run `npm run prisma:baseline`, ' +
+				'then `npm run prisma:deploy` (see "Migration & Deployment" in BLOG_LIKES_API.md).'
+			);
+		}
+		throw error;
+	}
+
+	const failed = applied.filter(row => !row.finished_at && !row.rolled_back_at).map(row => row.migration_name);
+	if (failed.length > 0) {
+		throw new MigrationStatusError(`Migration(s) failed part-way: ${failed.join(', ')}. Fix the database, then run \`npx prisma migrate resolve\`.`);
+	}
+
+	const done = new Set(applied.filter(row => row.finished_at && !row.rolled_back_at).map(row => row.migration_name));
+	const pending = expected.filter(name => !done.has(name));
+	if (pending.length > 0) {
+		throw new MigrationStatusError(`${pending.length} pending migration(s): ${pending.join(', ')}. Run \`npm run prisma:deploy\`.`);
+	}
+
+	// A baselined database has 0_init marked as applied whether or not it had every table
+	const existing: { name: string }[] = await prisma.$queryRaw`
+		SELECT TABLE_NAME AS name FROM information_schema.TABLES WHERE TABLE_SCHEMA = DATABASE()
+	`;
+	const present = new Set(existing.map(row => row.name.toLowerCase()));
+	const missing = migrationTables(expected).filter(table => !present.has(table.toLowerCase()));
+	if (missing.length > 0) {
+		throw new MigrationStatusError(
+			`Table(s) missing although their migrations are applied: ${missing.join(', ')}. ` +
+			'The database was probably baselined without them: create them from prisma/migrations (see "Migration & Deployment" in BLOG_LIKES_API.md).'
+		);
+	}
+
+	logger.info(`✅ Database schema up to date (${expected.length} migrations applied)`);
+}
+
+/**
+ * Tables created by the given migrations (their CREATE TABLE statements)
+ */
+function migrationTables(migrations: string[]): string[] {
+	const tables = new Set<string>();
+
+	for (const name of migrations) {
+		const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, name, 'migration.sql'), 'utf-8');
+		for (const match of sql.matchAll(/CREATE TABLE (?:IF NOT EXISTS )?`([^`]+)`/gi)) {
+			tables.add(match[1]);
+		}
+	}
+
+	return Array.from(tables);
+}
+
 // DO NOT auto-initialize here - will be called explicitly from server.ts
 // This prevents multiple initialization attempts
 
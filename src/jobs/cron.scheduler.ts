@@ -1,10 +1,9 @@
 import cron from 'node-cron';
 import { config } from '../config';
 import { logger } from '../utils/logger';
-import { ScrapingService } from '../services/scraping.service';
-import { NormalizationService } from '../services/normalization.service';
-import { ClusteringService } from '../services/clustering.service';
-import { AIInsightService } from '../services/ai-insight.service';
+import { PipelineRunner } from './pipeline.runner';
+import { PipelineLockedError } from '../services/pipeline-lock.service';
+import { LlmCacheService } from '../services/llm-cache.service';
 
 /**
  * Cron Job Scheduler
@@ -30,26 +29,14 @@ export class CronScheduler {
 			logger.info('🚀 Starting scheduled scraping pipeline');
 
 			try {
-				// Step 1: Scrape all platforms
-				logger.info('📥 Step 1/4: Scraping posts');
-				await ScrapingService.scrapeAll();
-
-				// Step 2: Normalize new posts
-				logger.info('🧹 Step 2/4: Normalizing posts');
-				await NormalizationService.processAll();
-
-				// Step 3: Cluster posts
-				logger.info('🔗 Step 3/4: Clustering posts');
-				await ClusteringService.clusterAll();
-				await ClusteringService.calculateGrowthRates();
-
-				// Step 4: Generate AI insights
-				logger.info('🤖 Step 4/4: Generating AI insights');
-				await AIInsightService.generateAllInsights();
-
-				logger.info('✅ Scraping pipeline completed successfully');
+				const jobId = await PipelineRunner.enqueueTrendPipeline('cron');
+				logger.info(`📥 Scraping pipeline queued as job ${jobId}`);
 			} catch (error) {
-				logger.error('❌ Scraping pipeline failed:', error);
+				if (error instanceof PipelineLockedError) {
+					logger.warn(`⏭️  Skipping scheduled pipeline: ${error.message}`);
+					return;
+				}
+				logger.error('❌ Failed to queue scraping pipeline:', error);
 			}
 		});
 
@@ -121,6 +108,9 @@ export class CronScheduler {
 
 			logger.info('Marked inactive clusters');
 
+			const purged = await LlmCacheService.purgeExpired();
+			logger.info(`Purged ${purged} expired LLM cache entries`);
+
 			await prisma.$disconnect();
 		} catch (error) {
 			logger.error('Cleanup failed:', error);
@@ -129,21 +119,22 @@ export class CronScheduler {
 
 	/**
 	 * Manually trigger scraping pipeline
+	 * The run is queued in the background; poll the returned job id for status
 	 */
-	static async runManual() {
+	static async runManual(options: { bypassCache?: boolean } = {}) {
 		logger.info('🚀 Manually triggering scraping pipeline');
 
 		try {
-			await ScrapingService.scrapeAll();
-			await NormalizationService.processAll();
-			await ClusteringService.clusterAll();
-			await ClusteringService.calculateGrowthRates();
-			await AIInsightService.generateAllInsights();
-
-			logger.info('✅ Manual pipeline completed');
-			return { success: true };
+			const jobId = await PipelineRunner.enqueueTrendPipeline('admin', options);
+
+			logger.info(`📥 Manual pipeline queued as job ${jobId}`);
+			return { success: true, jobId };
 		} catch (error: any) {
-			logger.error('❌ Manual pipeline failed:', error);
+			// Let the HTTP trigger answer 409 when a run is already in progress
+			if (error instanceof PipelineLockedError) {
+				throw error;
+			}
+			logger.error('❌ Failed to queue manual pipeline:', error);
 			return { success: false, error: error.message };
 		}
 	}
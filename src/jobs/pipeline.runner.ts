@@ -0,0 +1,158 @@
+import { logger } from '../utils/logger';
+import { BlogPipelineOptions, PipelineService, TrendPipelineOptions } from '../services/pipeline.service';
+import { JobCancelledError, JobTrigger, ScrapingJobTracker } from '../services/scraping-job.service';
+import { PipelineLease, PipelineLockService } from '../services/pipeline-lock.service';
+import { settleWithin } from '../utils/timeout';
+import { config } from '../config';
+
+interface QueuedRun {
+	tracker: ScrapingJobTracker;
+	lease: PipelineLease;
+	controller: AbortController;
+	run: (signal: AbortSignal) => Promise<unknown>;
+}
+
+export type CancelResult = 'cancelled' | 'not_found';
+
+/**
+ * Pipeline Runner
+ * Runs scraping pipelines in the background so HTTP triggers can return a
+ * job id immediately. Runs are executed one at a time in FIFO order; each
+ * can be cancelled while queued or in flight.
+ * The pipeline lock is acquired when a run is queued (so a second trigger
+ * gets PipelineLockedError / 409 right away) and released when it ends.
+ */
+export class PipelineRunner {
+	private static queue: QueuedRun[] = [];
+	private static active: QueuedRun | null = null;
+	// Settles once the active run has recorded its outcome and released its lease
+	private static activeDone: Promise<void> = Promise.resolve();
+
+	/**
+	 * Queue a blog pipeline run and return its job id
+	 */
+	static async enqueueBlogPipeline(options: BlogPipelineOptions = {}): Promise<string> {
+		const lease = await PipelineLockService.acquire();
+		const tracker = await this.createJob(lease, () => PipelineService.createBlogJob(options));
+
+		this.enqueue(tracker, lease, signal => PipelineService.runBlogPipeline({ ...options, tracker, lease, signal }));
+		return tracker.jobId;
+	}
+
+	/**
+	 * Queue a trend pipeline run and return its job id
+	 */
+	static async enqueueTrendPipeline(trigger: JobTrigger, options: Pick<TrendPipelineOptions, 'bypassCache'> = {}): Promise<string> {
+		const lease = await PipelineLockService.acquire();
+		const tracker = await this.createJob(lease, () => PipelineService.createTrendJob(trigger));
+
+		this.enqueue(tracker, lease, signal => PipelineService.runTrendPipeline({ ...options, trigger, tracker, lease, signal }));
+		return tracker.jobId;
+	}
+
+	/**
+	 * Cancel a queued or running job owned by this process
+	 * A running job is aborted, which closes its borrowed browser context.
+	 */
+	static async cancel(jobId: string): Promise<CancelResult> {
+		if (this.active?.tracker.jobId === jobId) {
+			logger.warn(`🛑 Cancelling running job ${jobId}`);
+			this.active.controller.abort();
+			return 'cancelled';
+		}
+
+		const index = this.queue.findIndex(queued => queued.tracker.jobId === jobId);
+		if (index !== -1) {
+			const [queued] = this.queue.splice(index, 1);
+			logger.warn(`🛑 Cancelling queued job ${jobId}`);
+			await queued.tracker.cancel();
+			await queued.lease.release();
+			return 'cancelled';
+		}
+
+		return 'not_found';
+	}
+
+	/**
+	 * Whether a job is queued or running in this process
+	 */
+	static isTracked(jobId: string): boolean {
+		return this.active?.tracker.jobId === jobId
+			|| this.queue.some(queued => queued.tracker.jobId === jobId);
+	}
+
+	/**
+	 * Abort the running job and drop queued ones (used on shutdown)
+	 * Waits up to SHUTDOWN_TIMEOUT_SECONDS for the running job to record its
+	 * cancellation and release the pipeline lock.
+	 */
+	static async stop(): Promise<void> {
+		const queued = this.queue;
+		this.queue = [];
+
+		for (const run of queued) {
+			await run.tracker.cancel('Server shutting down');
+			await run.lease.release();
+		}
+
+		const active = this.active;
+		if (!active) {
+			return;
+		}
+
+		active.controller.abort();
+		if (!(await settleWithin(this.activeDone, config.scraping.shutdownTimeoutSeconds * 1000))) {
+			logger.warn(`⚠️  Job ${active.tracker.jobId} did not stop in time; its lock expires after the lease TTL`);
+		}
+	}
+
+	/**
+	 * Create the job under an already acquired lease, releasing it on failure
+	 */
+	private static async createJob(lease: PipelineLease, create: () => Promise<ScrapingJobTracker>): Promise<ScrapingJobTracker> {
+		try {
+			const tracker = await create();
+			await lease.setJob(tracker.jobId);
+			return tracker;
+		} catch (error) {
+			await lease.release();
+			throw error;
+		}
+	}
+
+	private static enqueue(tracker: ScrapingJobTracker, lease: PipelineLease, run: QueuedRun['run']): void {
+		this.queue.push({ tracker, lease, controller: new AbortController(), run });
+		logger.info(`📥 Queued job ${tracker.jobId} (${this.queue.length} waiting)`);
+		this.drain();
+	}
+
+	private static drain(): void {
+		if (this.active) {
+			return;
+		}
+
+		const next = this.queue.shift();
+		if (!next) {
+			return;
+		}
+
+		this.active = next;
+
+		this.activeDone = next.run(next.controller.signal)
+			.then(() => {
+				logger.info(`✅ Job ${next.tracker.jobId} finished`);
+			})
+			.catch(error => {
+				if (error instanceof JobCancelledError) {
+					logger.warn(`🛑 Job ${next.tracker.jobId} stopped after cancellation`);
+				} else {
+					logger.error(`❌ Job ${next.tracker.jobId} failed:`, error);
+				}
+			})
+			.finally(async () => {
+				await next.lease.release();
+				this.active = null;
+				this.drain();
+			});
+	}
+}
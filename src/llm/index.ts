@@ -0,0 +1,57 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { LLMProvider } from './llm.provider';
+import { MockLLMProvider } from './mock.provider';
+import { OpenAICompatibleProvider } from './openai-compatible.provider';
+import { OpenAIProvider } from './openai.provider';
+
+/**
+ * LLM Providers
+ * getLLMProvider() returns the provider selected by LLM_PROVIDER
+ */
+export { ChatCompletionRequest, ChatCompletionResult, ChatMessage, LLMProvider, LLMProviderError, TokenUsage, estimateTokens } from './llm.provider';
+export { OpenAIProvider } from './openai.provider';
+export { OpenAICompatibleProvider } from './openai-compatible.provider';
+export { MockLLMProvider, MockResponder, defaultMockResponder } from './mock.provider';
+
+let provider: LLMProvider | null = null;
+
+export function createLLMProvider(settings = config.llm): LLMProvider {
+	switch (settings.provider) {
+		case 'openai':
+			return new OpenAIProvider({
+				apiKey: config.openai.apiKey,
+				model: settings.model || config.openai.model,
+				timeoutMs: settings.timeoutMs,
+			});
+		case 'openai-compatible':
+			return new OpenAICompatibleProvider({
+				baseUrl: settings.baseUrl!,
+				model: settings.model!,
+				apiKey: settings.apiKey,
+				timeoutMs: settings.timeoutMs,
+			});
+		case 'mock':
+			return new MockLLMProvider();
+		default:
+			throw new Error(`Unknown LLM provider: ${settings.provider}`);
+	}
+}
+
+/**
+ * Shared provider, created on first use
+ */
+export function getLLMProvider(): LLMProvider {
+	if (!provider) {
+		provider = createLLMProvider();
+		logger.info(`🧠 LLM provider: ${provider.name} (${provider.defaultModel})`);
+	}
+	return provider;
+}
+
+/**
+ * Replace the shared provider (tests)
+ */
+export function setLLMProvider(next: LLMProvider | null): void {
+	provider = next;
+}
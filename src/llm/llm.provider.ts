@@ -0,0 +1,73 @@
+/**
+ * LLM provider contract
+ * Services talk to language models through this interface only, so the
+ * backing model (OpenAI, a self-hosted endpoint or the offline mock) is a
+ * configuration choice (LLM_PROVIDER)
+ */
+
+export interface ChatMessage {
+	role: 'system' | 'user' | 'assistant';
+	content: string;
+}
+
+export interface ChatCompletionRequest {
+	messages: ChatMessage[];
+	// Defaults to the provider's configured model
+	model?: string;
+	temperature?: number;
+	maxTokens?: number;
+	// Ask for a single JSON object (response_format json_object)
+	json?: boolean;
+}
+
+export interface TokenUsage {
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	// Provider reported no usage; counts are estimated from text length
+	estimated?: boolean;
+}
+
+export interface ChatCompletionResult {
+	content: string;
+	provider: string;
+	model: string;
+	usage: TokenUsage;
+}
+
+export interface LLMProvider {
+	readonly name: string;
+	readonly defaultModel: string;
+
+	complete(request: ChatCompletionRequest): Promise<ChatCompletionResult>;
+}
+
+/**
+ * Request rejected by the provider or unreachable endpoint
+ */
+export class LLMProviderError extends Error {
+	constructor(readonly provider: string, message: string, readonly status?: number) {
+		super(`${provider}: ${message}`);
+		this.name = 'LLMProviderError';
+	}
+}
+
+/**
+ * Rough token count (about 4 characters per token) for providers that do
+ * not report usage
+ */
+export function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+export function estimateUsage(messages: ChatMessage[], completion: string): TokenUsage {
+	const promptTokens = messages.reduce((sum, message) => sum + estimateTokens(message.content), 0);
+	const completionTokens = estimateTokens(completion);
+
+	return {
+		promptTokens,
+		completionTokens,
+		totalTokens: promptTokens + completionTokens,
+		estimated: true,
+	};
+}
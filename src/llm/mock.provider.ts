@@ -0,0 +1,110 @@
+import crypto from 'crypto';
+import { ChatCompletionRequest, ChatCompletionResult, LLMProvider, estimateUsage } from './llm.provider';
+
+export type MockResponder = (request: ChatCompletionRequest) => string;
+
+/**
+ * Mock Provider
+ * Deterministic, offline provider for tests and local runs without an API
+ * key. The same request always gets the same answer:
+ * - prompts carrying a JSON array of posts (normalization) get one
+ *   normalized record per post
+ * - JSON-mode prompts (cluster insights) get a title/insight object
+ * - anything else (sentiment) gets 'neutral'
+ * Pass a responder to script other answers; every request is kept in calls.
+ */
+export class MockLLMProvider implements LLMProvider {
+	readonly name = 'mock';
+	readonly defaultModel = 'mock-1';
+	readonly calls: ChatCompletionRequest[] = [];
+
+	constructor(private responder: MockResponder = defaultMockResponder) {}
+
+	async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+		this.calls.push(request);
+		const content = this.responder(request);
+
+		return {
+			content,
+			provider: this.name,
+			model: request.model || this.defaultModel,
+			usage: estimateUsage(request.messages, content),
+		};
+	}
+}
+
+export function defaultMockResponder(request: ChatCompletionRequest): string {
+	const prompt = request.messages
+		.filter(message => message.role === 'user')
+		.map(message => message.content)
+		.join('\n');
+	const digest = crypto.createHash('sha1').update(prompt).digest('hex').substring(0, 6);
+
+	const posts = readJsonArray(prompt);
+	if (posts) {
+		return JSON.stringify(posts.map(post => ({
+			Title: post.title || 'Untitled',
+			AI_Insight: mockInsight(post.title || 'this story'),
+			Image: post.image || '',
+			Description: post.description || post.title || '',
+			Link: post.link || '',
+			Platform: post.platform || '',
+			Hashtags: mockHashtags(post),
+			Keywords: [post.platform || 'fashion', ...(Array.isArray(post.tags) ? post.tags.slice(0, 4) : [])],
+		})));
+	}
+
+	if (request.json) {
+		return JSON.stringify({
+			title: `Mock Trend ${digest}`,
+			insight: 'Mock insight: this trend is gaining traction across recent posts.',
+		});
+	}
+
+	return 'neutral';
+}
+
+/**
+ * Last top-level JSON array in a prompt (the scraped posts), or null
+ */
+function readJsonArray(prompt: string): any[] | null {
+	const end = prompt.lastIndexOf(']');
+	let start = prompt.lastIndexOf('\n[', end);
+
+	// Prompt templates may show an example array before the real one
+	while (start !== -1) {
+		try {
+			const parsed = JSON.parse(prompt.substring(start + 1, end + 1));
+			return Array.isArray(parsed) ? parsed : null;
+		} catch {
+			start = prompt.lastIndexOf('\n[', start - 1);
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Fixed article of about 200 words, inside the normalization length limits
+ */
+function mockInsight(subject: string): string {
+	return [
+		`Mock insight: ${subject} captures a direction that has been building quietly across recent collections and street style coverage.`,
+		'The story reads less like a sudden shift and more like a steady refinement, where familiar pieces are reworked through proportion, texture and colour rather than through loud branding or novelty for its own sake.',
+		'Silhouettes stay relaxed but considered, with tailoring softened at the shoulder, trousers cut with more ease and layers chosen for how they move rather than how they photograph in a single frame.',
+		'Materials carry much of the message: brushed wools, washed cottons and supple leathers suggest garments meant to be worn often and kept for years.',
+		'The palette leans on neutrals punctuated by a single confident accent, which keeps outfits grounded while still giving them a clear point of view.',
+		'Why it matters now is simple: shoppers are weighing cost per wear, and designers are answering with clothes that feel special without demanding a complete wardrobe reset each season.',
+		'Styling remains personal, with accessories doing the work of signalling mood, from sculptural jewellery to an unexpected bag or shoe.',
+		'If the signals in the source are thin, the safest reading is that this is an evolution worth watching rather than a finished trend.',
+	].join(' ');
+}
+
+function mockHashtags(post: any): string[] {
+	const tags: string[] = Array.isArray(post.tags) && post.tags.length > 0 ? post.tags : ['fashion'];
+
+	return tags
+		.slice(0, 5)
+		.map(tag => `#${String(tag).replace(/[^a-zA-Z0-9]+/g, '')}`)
+		.filter(tag => tag.length > 1);
+}
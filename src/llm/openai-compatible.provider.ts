@@ -0,0 +1,67 @@
+import axios from 'axios';
+import { ChatCompletionRequest, ChatCompletionResult, LLMProvider, LLMProviderError, estimateUsage } from './llm.provider';
+
+export interface OpenAICompatibleProviderOptions {
+	// Base URL up to the API version, e.g. http://localhost:8000/v1
+	baseUrl: string;
+	model: string;
+	apiKey?: string;
+	timeoutMs?: number;
+}
+
+/**
+ * OpenAI-compatible Provider
+ * Plain HTTP client for self-hosted servers exposing /chat/completions
+ * (vLLM, Ollama, llama.cpp server, LiteLLM...)
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+	readonly name = 'openai-compatible';
+	readonly defaultModel: string;
+	private endpoint: string;
+
+	constructor(private options: OpenAICompatibleProviderOptions) {
+		this.defaultModel = options.model;
+		this.endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+	}
+
+	async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+		const model = request.model || this.defaultModel;
+
+		try {
+			const response = await axios.post(this.endpoint, {
+				model,
+				messages: request.messages,
+				temperature: request.temperature,
+				max_tokens: request.maxTokens,
+				...(request.json ? { response_format: { type: 'json_object' } } : {}),
+			}, {
+				headers: {
+					'Content-Type': 'application/json',
+					...(this.options.apiKey ? { 'Authorization': `Bearer ${this.options.apiKey}` } : {}),
+				},
+				timeout: this.options.timeoutMs,
+			});
+
+			const content: string = response.data?.choices?.[0]?.message?.content || '';
+			const usage = response.data?.usage;
+
+			return {
+				content,
+				provider: this.name,
+				model: response.data?.model || model,
+				// Not every server reports usage
+				usage: usage && typeof usage.total_tokens === 'number'
+					? {
+						promptTokens: usage.prompt_tokens || 0,
+						completionTokens: usage.completion_tokens || 0,
+						totalTokens: usage.total_tokens,
+					}
+					: estimateUsage(request.messages, content),
+			};
+		} catch (error: any) {
+			const status = error.response?.status;
+			const detail = error.response?.data?.error?.message || error.message;
+			throw new LLMProviderError(this.name, detail, status);
+		}
+	}
+}
@@ -0,0 +1,57 @@
+import OpenAI from 'openai';
+import { ChatCompletionRequest, ChatCompletionResult, LLMProvider, LLMProviderError, estimateUsage } from './llm.provider';
+
+export interface OpenAIProviderOptions {
+	apiKey: string;
+	model: string;
+	timeoutMs?: number;
+}
+
+/**
+ * OpenAI Provider
+ * Chat completions through the official SDK (retries 429/5xx itself)
+ */
+export class OpenAIProvider implements LLMProvider {
+	readonly name = 'openai';
+	readonly defaultModel: string;
+	private client: OpenAI;
+
+	constructor(options: OpenAIProviderOptions) {
+		this.defaultModel = options.model;
+		this.client = new OpenAI({
+			apiKey: options.apiKey,
+			timeout: options.timeoutMs,
+		});
+	}
+
+	async complete(request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+		const model = request.model || this.defaultModel;
+
+		try {
+			const completion = await this.client.chat.completions.create({
+				model,
+				messages: request.messages,
+				temperature: request.temperature,
+				max_tokens: request.maxTokens,
+				...(request.json ? { response_format: { type: 'json_object' as const } } : {}),
+			});
+
+			const content = completion.choices[0]?.message?.content || '';
+
+			return {
+				content,
+				provider: this.name,
+				model: completion.model || model,
+				usage: completion.usage
+					? {
+						promptTokens: completion.usage.prompt_tokens,
+						completionTokens: completion.usage.completion_tokens,
+						totalTokens: completion.usage.total_tokens,
+					}
+					: estimateUsage(request.messages, content),
+			};
+		} catch (error: any) {
+			throw new LLMProviderError(this.name, error.message, error.status);
+		}
+	}
+}
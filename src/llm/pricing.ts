@@ -0,0 +1,66 @@
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { TokenUsage } from './llm.provider';
+
+/**
+ * USD per million tokens
+ */
+export interface ModelPrice {
+	input: number;
+	output: number;
+}
+
+// Public list prices; LLM_PRICES overrides or extends them
+const DEFAULT_PRICES: Record<string, ModelPrice> = {
+	'gpt-4o-mini': { input: 0.15, output: 0.6 },
+	'gpt-4o': { input: 2.5, output: 10 },
+	'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+	'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+	'gpt-4.1': { input: 2, output: 8 },
+	'gpt-4-turbo': { input: 10, output: 30 },
+	'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+	'mock': { input: 0, output: 0 },
+};
+
+// Models already warned about (usage recorded at $0)
+const unpriced = new Set<string>();
+
+/**
+ * Price of a model, matched by longest prefix so dated snapshots
+ * (gpt-4o-2024-08-06) use their family's price. Unknown models cost 0.
+ */
+export function priceFor(model: string): ModelPrice | null {
+	const prices = { ...DEFAULT_PRICES, ...config.llm.prices };
+	const match = Object.keys(prices)
+		.filter(prefix => model === prefix || model.startsWith(`${prefix}-`))
+		.sort((a, b) => b.length - a.length)[0];
+
+	return match ? prices[match] : null;
+}
+
+export function estimateCost(model: string, usage: TokenUsage): number {
+	const price = priceFor(model);
+	if (!price) {
+		if (!unpriced.has(model)) {
+			unpriced.add(model);
+			logger.warn(`💸 No price for LLM model ${model}; its usage counts as $0 (add it to LLM_PRICES)`);
+		}
+		return 0;
+	}
+
+	return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Refuse a daily budget that unpriced models would never reach
+ */
+export function assertModelsPriced(models: (string | undefined)[]): void {
+	if (config.llm.dailyBudgetUsd <= 0) {
+		return;
+	}
+
+	const missing = [...new Set(models.filter((model): model is string => !!model && !priceFor(model)))];
+	if (missing.length > 0) {
+		throw new Error(`LLM_DAILY_BUDGET_USD is set but ${missing.join(', ')} has no price; add it to LLM_PRICES`);
+	}
+}
@@ -4,6 +4,8 @@ import { logger } from '../utils/logger';
 
 /**
  * Global error handler
+ * Answers with the error's statusCode, else 500. Services refuse requests
+ * by throwing an HttpError subclass (utils/http-error.ts).
  */
 export const errorHandler = (
 	err: any,
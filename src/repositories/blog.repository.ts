@@ -0,0 +1,254 @@
+import { BlogComment, Prisma, TagKind } from '@prisma/client';
+import prisma from '../database/client';
+
+export interface BlogFilter {
+	// Omit for drafts and published blogs alike
+	approved?: boolean;
+	platform?: string;
+	// Tag name as stored (see BlogMapper.tagName)
+	tag?: string;
+}
+
+export interface BlogCounts {
+	all: number;
+	published: number;
+	draft: number;
+}
+
+export type BlogCommentWithUser = BlogComment & {
+	user: { id: number; username: string | null; email: string | null };
+};
+
+export interface BlogTagInput {
+	name: string;
+	kind: TagKind;
+}
+
+export interface TagCount {
+	name: string;
+	// Blogs carrying the tag
+	count: number;
+}
+
+const COMMENT_USER = { select: { id: true, username: true, email: true } } as const;
+
+const BLOG_TAGS = { tags: { include: { tag: true } } } as const;
+
+export type BlogWithTags = Prisma.BlogGetPayload<{ include: typeof BLOG_TAGS }>;
+
+/**
+ * Blog Repository
+ * Typed data access for blogs, blog_likes and blog_comments
+ */
+export class BlogRepository {
+	static async findById(id: number): Promise<BlogWithTags | null> {
+		return prisma.blog.findUnique({ where: { id }, include: BLOG_TAGS });
+	}
+
+	static async exists(id: number): Promise<boolean> {
+		return (await prisma.blog.count({ where: { id } })) > 0;
+	}
+
+	static async findByLink(link: string): Promise<BlogWithTags | null> {
+		return prisma.blog.findFirst({ where: { link }, include: BLOG_TAGS });
+	}
+
+	/**
+	 * Newest first
+	 */
+	static async list(filter: BlogFilter, page: { skip: number; take: number }): Promise<BlogWithTags[]> {
+		return prisma.blog.findMany({
+			where: this.where(filter),
+			include: BLOG_TAGS,
+			orderBy: { createdAt: 'desc' },
+			skip: page.skip,
+			take: page.take,
+		});
+	}
+
+	static async count(filter: BlogFilter = {}): Promise<number> {
+		return prisma.blog.count({ where: this.where(filter) });
+	}
+
+	/**
+	 * Blogs per approval state (for the admin filter buttons)
+	 */
+	static async counts(): Promise<BlogCounts> {
+		const [all, published] = await Promise.all([
+			prisma.blog.count(),
+			prisma.blog.count({ where: { approved: true } }),
+		]);
+
+		return { all, published, draft: all - published };
+	}
+
+	/**
+	 * Blog with its tags (tags are created when new)
+	 */
+	static async create(data: Prisma.BlogUncheckedCreateInput, tags: BlogTagInput[] = []): Promise<BlogWithTags> {
+		return prisma.blog.create({
+			data: {
+				...data,
+				tags: {
+					create: tags.map(tag => ({
+						kind: tag.kind,
+						tag: { connectOrCreate: { where: { name: tag.name }, create: { name: tag.name } } },
+					})),
+				},
+			},
+			include: BLOG_TAGS,
+		});
+	}
+
+	static async approve(id: number): Promise<BlogWithTags> {
+		return prisma.blog.update({ where: { id }, data: { approved: true }, include: BLOG_TAGS });
+	}
+
+	/**
+	 * Returns the number of blogs approved
+	 */
+	static async approveAll(): Promise<number> {
+		const { count } = await prisma.blog.updateMany({ where: { approved: false }, data: { approved: true } });
+		return count;
+	}
+
+	/**
+	 * Returns false when the blog did not exist
+	 */
+	static async delete(id: number): Promise<boolean> {
+		const { count } = await prisma.blog.deleteMany({ where: { id } });
+		return count > 0;
+	}
+
+	/**
+	 * Like counts by blog id (blogs without likes are missing)
+	 */
+	static async likeCounts(blogIds: number[]): Promise<Map<number, number>> {
+		if (blogIds.length === 0) {
+			return new Map();
+		}
+
+		const rows = await prisma.blogLike.groupBy({
+			by: ['blogId'],
+			where: { blogId: { in: blogIds } },
+			_count: { _all: true },
+		});
+
+		return new Map(rows.map(row => [row.blogId, row._count._all]));
+	}
+
+	/**
+	 * Which of these blogs the user liked
+	 */
+	static async likedBy(userId: number, blogIds: number[]): Promise<Set<number>> {
+		if (blogIds.length === 0) {
+			return new Set();
+		}
+
+		const likes = await prisma.blogLike.findMany({
+			where: { userId, blogId: { in: blogIds } },
+			select: { blogId: true },
+		});
+
+		return new Set(likes.map(like => like.blogId));
+	}
+
+	static async countLikes(blogId: number): Promise<number> {
+		return prisma.blogLike.count({ where: { blogId } });
+	}
+
+	/**
+	 * Returns false when the user already liked the blog
+	 */
+	static async addLike(userId: number, blogId: number): Promise<boolean> {
+		try {
+			await prisma.blogLike.create({ data: { userId, blogId } });
+			return true;
+		} catch (error) {
+			if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+				return false;
+			}
+			throw error;
+		}
+	}
+
+	/**
+	 * Returns false when the user had not liked the blog
+	 */
+	static async removeLike(userId: number, blogId: number): Promise<boolean> {
+		const { count } = await prisma.blogLike.deleteMany({ where: { userId, blogId } });
+		return count > 0;
+	}
+
+	/**
+	 * Newest first, with the commenting user
+	 */
+	static async listComments(blogId: number): Promise<BlogCommentWithUser[]> {
+		return prisma.blogComment.findMany({
+			where: { blogId },
+			include: { user: COMMENT_USER },
+			orderBy: { createdAt: 'desc' },
+		});
+	}
+
+	static async findComment(id: number): Promise<BlogComment | null> {
+		return prisma.blogComment.findUnique({ where: { id } });
+	}
+
+	static async addComment(userId: number, blogId: number, comment: string): Promise<BlogCommentWithUser> {
+		return prisma.blogComment.create({
+			data: { userId, blogId, comment },
+			include: { user: COMMENT_USER },
+		});
+	}
+
+	static async deleteComment(id: number): Promise<void> {
+		await prisma.blogComment.delete({ where: { id } });
+	}
+
+	static async countComments(blogId: number): Promise<number> {
+		return prisma.blogComment.count({ where: { blogId } });
+	}
+
+	static async tagExists(name: string): Promise<boolean> {
+		return (await prisma.tag.count({ where: { name } })) > 0;
+	}
+
+	/**
+	 * Tags by number of blogs matching the filter, most used first
+	 */
+	static async tagCounts(filter: BlogFilter, kind: TagKind | undefined, page: { skip: number; take: number }): Promise<{ tags: TagCount[]; total: number }> {
+		const where: Prisma.BlogTagWhereInput = {
+			blog: this.where(filter),
+			...(kind && { kind }),
+		};
+
+		const [rows, all] = await Promise.all([
+			prisma.blogTag.groupBy({
+				by: ['tagId'],
+				where,
+				_count: { blogId: true },
+				orderBy: [{ _count: { blogId: 'desc' } }, { tagId: 'asc' }],
+				skip: page.skip,
+				take: page.take,
+			}),
+			prisma.blogTag.groupBy({ by: ['tagId'], where }),
+		]);
+
+		const tags = await prisma.tag.findMany({ where: { id: { in: rows.map(row => row.tagId) } } });
+		const names = new Map(tags.map(tag => [tag.id, tag.name]));
+
+		return {
+			tags: rows.map(row => ({ name: names.get(row.tagId) || '', count: row._count.blogId })),
+			total: all.length,
+		};
+	}
+
+	private static where(filter: BlogFilter): Prisma.BlogWhereInput {
+		return {
+			...(filter.approved !== undefined && { approved: filter.approved }),
+			...(filter.platform && { platform: filter.platform }),
+			...(filter.tag && { tags: { some: { tag: { name: filter.tag } } } }),
+		};
+	}
+}
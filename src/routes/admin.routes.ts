@@ -2,29 +2,47 @@ import { Router } from 'express';
 import { asyncHandler } from '../middleware/error.middleware';
 import { authenticate, requireAdmin, AuthRequest } from '../middleware/auth.middleware';
 import { CronScheduler } from '../jobs/cron.scheduler';
-import { ElleSource } from '../sources/elle.source';
-import { HarperSource } from '../sources/harper.source';
-import { NormalizationService } from '../services/normalization.service';
-import { logger } from '../utils/logger';
+import { sourceRegistry } from '../sources/source.registry';
+import { MANUAL_SCRAPE_CONDITIONS } from '../services/pipeline.service';
+import { ScrapingJobService } from '../services/scraping-job.service';
+import { SourceCursorService } from '../services/source-cursor.service';
+import { BackfillService } from '../services/backfill.service';
+import { LlmUsageService } from '../services/llm-usage.service';
+import { PromptRequestError, PromptService } from '../services/prompt.service';
+import { PromptName, PromptTemplate } from '../services/prompt.template';
+import { PipelineRunner } from '../jobs/pipeline.runner';
 import prisma from '../database/client';
 
 const router = Router();
 
+/**
+ * Prompt name from the URL (404 for unknown prompts)
+ */
+function promptName(value: string): PromptName {
+	if (!PromptTemplate.isName(value)) {
+		throw new PromptRequestError(`Unknown prompt: ${value}`, 404);
+	}
+	return value;
+}
+
 // All admin routes require authentication and admin role
 router.use(authenticate);
 router.use(requireAdmin);
 
 /**
  * POST /api/v1/admin/scrape/trigger
- * Manually trigger scraping pipeline
+ * Queue the trend scraping pipeline
+ * Body (optional): { bypassCache: true } to regenerate cluster insights instead of reusing cached ones
+ * Returns 202 with the job id; poll GET /admin/jobs/:id for status
+ * Returns 409 when another pipeline run is already in progress
  */
 router.post(
 	'/scrape/trigger',
-	asyncHandler(async (_req: AuthRequest, res: any) => {
-		const result = await CronScheduler.runManual();
+	asyncHandler(async (req: AuthRequest, res: any) => {
+		const result = await CronScheduler.runManual({ bypassCache: req.body?.bypassCache === true });
 
-		res.json({
-			success: true,
+		res.status(result.success ? 202 : 500).json({
+			success: result.success,
 			data: result,
 		});
 	})
@@ -32,80 +50,226 @@ router.post(
 
 /**
  * POST /api/v1/admin/scrape/fashion
- * Scrape Elle and Harper fashion blogs
+ * Queue a blog scrape of every scheduled source in the registry
+ * Body (optional): { sources: string[] } to limit the run to specific source ids,
+ * { crawlArticles: true } to also fetch each article page for full body text,
+ * { discovery: 'sitemap' } to find articles through sitemaps instead of landing pages,
+ * { fullBackfill: true } to ignore source cursors and process every scraped article,
+ * { bypassCache: true } to normalize again instead of reusing cached LLM answers
+ * Returns 202 with the job id; poll GET /admin/jobs/:id for status
+ * Returns 409 when another pipeline run is already in progress
  */
 router.post(
 	'/scrape/fashion',
+	asyncHandler(async (req: AuthRequest, res: any) => {
+		const sourceIds: string[] | undefined = req.body?.sources;
+		if (sourceIds !== undefined && (!Array.isArray(sourceIds) || !sourceIds.every(id => typeof id === 'string'))) {
+			return res.status(400).json({
+				success: false,
+				error: 'sources must be an array of source ids',
+			});
+		}
+
+		const unknown = (sourceIds || []).filter(id => !sourceRegistry.has(id));
+
+		if (unknown.length > 0) {
+			return res.status(400).json({
+				success: false,
+				error: `Unknown source(s): ${unknown.join(', ')}`,
+			});
+		}
+
+		const discovery = req.body?.discovery;
+		if (discovery !== undefined && discovery !== 'listing' && discovery !== 'sitemap') {
+			return res.status(400).json({
+				success: false,
+				error: 'discovery must be "listing" or "sitemap"',
+			});
+		}
+
+		const jobId = await PipelineRunner.enqueueBlogPipeline({
+			sourceIds,
+			fullBackfill: req.body?.fullBackfill === true,
+			bypassCache: req.body?.bypassCache === true,
+			conditions: {
+				...MANUAL_SCRAPE_CONDITIONS,
+				crawlArticles: req.body?.crawlArticles === true,
+				...(discovery && { discovery }),
+			},
+			trigger: 'admin',
+		});
+
+		res.status(202).json({
+			success: true,
+			data: {
+				message: 'Fashion scraping queued',
+				jobId,
+				status: 'PENDING',
+			},
+		});
+	})
+);
+
+/**
+ * GET /api/v1/admin/sources
+ * List registered scraping sources
+ */
+router.get(
+	'/sources',
+	asyncHandler(async (_req: AuthRequest, res: any) => {
+		res.json({
+			success: true,
+			data: sourceRegistry.list(),
+		});
+	})
+);
+
+/**
+ * GET /api/v1/admin/sources/cursors
+ * High-water marks of incremental scraping (seen URLs are counted, not listed)
+ */
+router.get(
+	'/sources/cursors',
 	asyncHandler(async (_req: AuthRequest, res: any) => {
-		logger.info('🚀 Starting fashion scraping workflow (Elle + Harper)');
-
-		try {
-			let totalScraped = 0;
-			let totalNormalized = 0;
-			let totalSaved = 0;
-
-			// Scrape Elle
-			logger.info('📰 Scraping Elle...');
-			const elleSource = new ElleSource();
-			await elleSource.initialize();
-			const ellePosts = await elleSource.scrape({
-				keywords: ['fashion', 'style', 'runway', 'designer'],
-				maxResults: 10,
-				pageTimeout: 90000
+		const cursors = await SourceCursorService.list();
+
+		res.json({
+			success: true,
+			data: cursors.map(({ seenUrls, ...cursor }) => ({
+				...cursor,
+				seenUrls: Array.isArray(seenUrls) ? seenUrls.length : 0,
+			})),
+		});
+	})
+);
+
+/**
+ * POST /api/v1/admin/sources/:id/cursor/reset
+ * Forget what a source has already scraped; its next run is a full backfill
+ */
+router.post(
+	'/sources/:id/cursor/reset',
+	asyncHandler(async (req: AuthRequest, res: any) => {
+		const id = req.params.id as string;
+
+		if (!sourceRegistry.has(id)) {
+			return res.status(404).json({
+				success: false,
+				error: `Unknown source: ${id}`,
 			});
-			totalScraped += ellePosts.length;
-			await elleSource.cleanup();
-
-			if (ellePosts.length > 0) {
-				logger.info('🤖 Normalizing Elle posts...');
-				const elleNormalized = await NormalizationService.normalizeWithAI(ellePosts, 'ELLE');
-				totalNormalized += elleNormalized.length;
-
-				logger.info('💾 Saving Elle posts to database...');
-				await NormalizationService.saveToBlogsTable(elleNormalized);
-				totalSaved += elleNormalized.length;
-			}
-
-			// Scrape Harper
-			logger.info('📰 Scraping Harper\'s Bazaar...');
-			const harperSource = new HarperSource();
-			await harperSource.initialize();
-			const harperPosts = await harperSource.scrape({
-				keywords: ['fashion', 'style', 'runway', 'designer'],
-				maxResults: 10,
-				pageTimeout: 90000
+		}
+
+		const cursor = await SourceCursorService.reset(id);
+
+		res.json({
+			success: true,
+			data: cursor,
+		});
+	})
+);
+
+/**
+ * POST /api/v1/admin/backfill
+ * Backfill a source's archive into scraped_posts for a date range
+ * Body: { source: string, since: ISO date, until?: ISO date (defaults to now) }
+ * Requesting the same source and range again resumes an unfinished run
+ * Returns 202 with the run; poll GET /admin/backfill/:id for progress
+ * Returns 409 when the source is already being backfilled
+ */
+router.post(
+	'/backfill',
+	asyncHandler(async (req: AuthRequest, res: any) => {
+		const { source, since, until } = req.body || {};
+
+		if (!source || !since) {
+			return res.status(400).json({
+				success: false,
+				error: 'source and since are required',
 			});
-			totalScraped += harperPosts.length;
-			await harperSource.cleanup();
-
-			if (harperPosts.length > 0) {
-				logger.info('🤖 Normalizing Harper posts...');
-				const harperNormalized = await NormalizationService.normalizeWithAI(harperPosts, 'HARPER');
-				totalNormalized += harperNormalized.length;
-
-				logger.info('💾 Saving Harper posts to database...');
-				await NormalizationService.saveToBlogsTable(harperNormalized);
-				totalSaved += harperNormalized.length;
-			}
-
-			logger.info('✅ Fashion scraping completed successfully');
-
-			res.json({
-				success: true,
-				data: {
-					message: 'Fashion scraping completed',
-					scraped: totalScraped,
-					normalized: totalNormalized,
-					saved: totalSaved,
-				},
+		}
+
+		const { run, resumed } = await BackfillService.start({
+			sourceId: source,
+			since: new Date(since),
+			until: until ? new Date(until) : undefined,
+		});
+
+		res.status(202).json({
+			success: true,
+			data: {
+				message: resumed ? 'Backfill resumed' : 'Backfill started',
+				runId: run.id,
+				position: run.position,
+			},
+		});
+	})
+);
+
+/**
+ * GET /api/v1/admin/backfill
+ * Recent backfill runs
+ */
+router.get(
+	'/backfill',
+	asyncHandler(async (_req: AuthRequest, res: any) => {
+		res.json({
+			success: true,
+			data: await BackfillService.list(),
+		});
+	})
+);
+
+/**
+ * GET /api/v1/admin/backfill/:id
+ * Progress of a backfill run (URL list replaced by its length)
+ */
+router.get(
+	'/backfill/:id',
+	asyncHandler(async (req: AuthRequest, res: any) => {
+		const run = await BackfillService.get(req.params.id as string);
+
+		if (!run) {
+			return res.status(404).json({
+				success: false,
+				error: 'Backfill run not found',
 			});
-		} catch (error: any) {
-			logger.error('❌ Fashion scraping failed:', error);
-			res.status(500).json({
+		}
+
+		const { urls, ...progress } = run;
+
+		res.json({
+			success: true,
+			data: {
+				...progress,
+				total: Array.isArray(urls) ? urls.length : null,
+			},
+		});
+	})
+);
+
+/**
+ * POST /api/v1/admin/backfill/:id/cancel
+ * Stop a running backfill; it can be resumed later
+ */
+router.post(
+	'/backfill/:id/cancel',
+	asyncHandler(async (req: AuthRequest, res: any) => {
+		const id = req.params.id as string;
+
+		if (!BackfillService.cancel(id)) {
+			return res.status(409).json({
 				success: false,
-				error: error.message || 'Scraping failed',
+				error: 'Backfill is not running in this server process',
 			});
 		}
+
+		res.status(202).json({
+			success: true,
+			data: {
+				message: 'Backfill cancellation requested',
+				runId: id,
+			},
+		});
 	})
 );
 
@@ -167,6 +331,220 @@ router.get(
 	})
 );
 
+/**
+ * GET /api/v1/admin/jobs/:id
+ * Get status and per-source progress of a single job
+ */
+router.get(
+	'/jobs/:id',
+	asyncHandler(async (req: AuthRequest, res: any) => {
+		const id = req.params.id as string;
+		const job = await ScrapingJobService.get(id);
+
+		if (!job) {
+			return res.status(404).json({
+				success: false,
+				error: 'Job not found',
+			});
+		}
+
+		res.json({
+			success: true,
+			data: job,
+		});
+	})
+);
+
+/**
+ * POST /api/v1/admin/jobs/:id/cancel
+ * Cancel a queued or running job (stops its Playwright browser)
+ */
+router.post(
+	'/jobs/:id/cancel',
+	asyncHandler(async (req: AuthRequest, res: any) => {
+		const id = req.params.id as string;
+		const job = await ScrapingJobService.get(id);
+
+		if (!job) {
+			return res.status(404).json({
+				success: false,
+				error: 'Job not found',
+			});
+		}
+
+		if (job.status !== 'PENDING' && job.status !== 'RUNNING') {
+			return res.status(409).json({
+				success: false,
+				error: `Job already ${job.status.toLowerCase()}`,
+			});
+		}
+
+		const result = await PipelineRunner.cancel(id);
+
+		if (result === 'not_found') {
+			return res.status(409).json({
+				success: false,
+				error: 'Job is not running in this server process',
+			});
+		}
+
+		res.status(202).json({
+			success: true,
+			data: {
+				message: 'Job cancellation requested',
+				jobId: id,
+			},
+		});
+	})
+);
+
+/**
+ * GET /api/v1/admin/llm/usage
+ * LLM spend and tokens per day, source, model and purpose, with today's
+ * budget status
+ * Query: days (1-365, default 30)
+ */
+router.get(
+	'/llm/usage',
+	asyncHandler(async (req: AuthRequest, res: any) => {
+		const days = req.query.days === undefined ? 30 : Number(req.query.days);
+
+		if (!Number.isInteger(days) || days < 1 || days > 365) {
+			return res.status(400).json({
+				success: false,
+				error: 'days must be an integer between 1 and 365',
+			});
+		}
+
+		res.json({
+			success: true,
+			data: await LlmUsageService.summary(days),
+		});
+	})
+);
+
+/**
+ * GET /api/v1/admin/prompts
+ * Active version and A/B variant of every prompt
+ */
+router.get(
+	'/prompts',
+	asyncHandler(async (_req: AuthRequest, res: any) => {
+		res.json({
+			success: true,
+			data: await PromptService.list(),
+		});
+	})
+);
+
+/**
+ * GET /api/v1/admin/prompts/:name
+ * Every version of a prompt, newest first
+ */
+router.get(
+	'/prompts/:name',
+	asyncHandler(async (req: AuthRequest, res: any) => {
+		res.json({
+			success: true,
+			data: await PromptService.history(promptName(req.params.name as string)),
+		});
+	})
+);
+
+/**
+ * POST /api/v1/admin/prompts/:name
+ * Save an edited prompt as a new version
+ * Body: { template: string, system?: string, notes?: string, activate?: boolean }
+ * Returns 400 when the template uses unknown or misses required {{placeholders}}
+ */
+router.post(
+	'/prompts/:name',
+	asyncHandler(async (req: AuthRequest, res: any) => {
+		const name = promptName(req.params.name as string);
+		const { template, system, notes } = req.body || {};
+
+		if (typeof template !== 'string' || (system !== undefined && typeof system !== 'string')) {
+			return res.status(400).json({
+				success: false,
+				error: 'template (and system, when given) must be strings',
+			});
+		}
+
+		const version = await PromptService.createVersion(name, {
+			template,
+			system,
+			notes: typeof notes === 'string' ? notes : undefined,
+			activate: req.body.activate === true,
+		}, req.user?.userId);
+
+		res.status(201).json({
+			success: true,
+			data: version,
+		});
+	})
+);
+
+/**
+ * POST /api/v1/admin/prompts/:name/versions/:version/activate
+ * Make a version the one every request uses (ends any A/B split)
+ */
+router.post(
+	'/prompts/:name/versions/:version/activate',
+	asyncHandler(async (req: AuthRequest, res: any) => {
+		res.json({
+			success: true,
+			data: await PromptService.activate(promptName(req.params.name as string), Number(req.params.version)),
+		});
+	})
+);
+
+/**
+ * POST /api/v1/admin/prompts/:name/versions/:version/variant
+ * Route a share of requests to a version to compare it with the active one
+ * Body: { trafficPercent: 1-99 }
+ */
+router.post(
+	'/prompts/:name/versions/:version/variant',
+	asyncHandler(async (req: AuthRequest, res: any) => {
+		res.json({
+			success: true,
+			data: await PromptService.setVariant(
+				promptName(req.params.name as string),
+				Number(req.params.version),
+				Number(req.body?.trafficPercent),
+			),
+		});
+	})
+);
+
+/**
+ * DELETE /api/v1/admin/prompts/:name/variant
+ * End the A/B split; every request uses the active version again
+ */
+router.delete(
+	'/prompts/:name/variant',
+	asyncHandler(async (req: AuthRequest, res: any) => {
+		res.json({
+			success: true,
+			data: { cleared: await PromptService.clearVariant(promptName(req.params.name as string)) },
+		});
+	})
+);
+
+/**
+ * GET /api/v1/admin/prompts/:name/compare
+ * Blogs, approvals, likes and comments (and clusters) per prompt version
+ */
+router.get(
+	'/prompts/:name/compare',
+	asyncHandler(async (req: AuthRequest, res: any) => {
+		res.json({
+			success: true,
+			data: await PromptService.compare(promptName(req.params.name as string)),
+		});
+	})
+);
+
 /**
  * DELETE /api/v1/admin/clusters/:id
  * Delete a cluster
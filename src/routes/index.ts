@@ -5,6 +5,8 @@ import postsRoutes from './posts.routes';
 import adminRoutes from './admin.routes';
 import blogsRoutes from './blogs.routes';
 import usersRoutes from './users.routes';
+import searchRoutes from './search.routes';
+import tagsRoutes from './tags.routes';
 
 const router = Router();
 
@@ -15,6 +17,8 @@ router.use('/posts', postsRoutes);
 router.use('/admin', adminRoutes);
 router.use('/blogs', blogsRoutes);
 router.use('/users', usersRoutes);
+router.use('/search', searchRoutes);
+router.use('/tags', tagsRoutes);
 
 // Health check
 router.get('/health', (_req, res) => {
@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import { asyncHandler } from '../middleware/error.middleware';
+import { optionalAuth, AuthRequest } from '../middleware/auth.middleware';
+import { SEARCH_SCOPES, SearchRequestError, SearchScope, SearchService } from '../services/search.service';
+import { SearchQuery } from '../services/search.query';
+
+const router = Router();
+
+/**
+ * Text query parameter; repeating it is a bad request
+ */
+function textParam(req: AuthRequest, name: string): string | undefined {
+	const value = SearchQuery.param(req.query[name]);
+	if (value === null) {
+		throw new SearchRequestError(`${name} must be given once`);
+	}
+	return value || undefined;
+}
+
+/**
+ * GET /api/v1/search
+ * Full-text search over blogs and trends, best matches first
+ * Query params: q (required), type (all/blogs/trends), platform,
+ * from, to (dates; a date-only to includes that day), page, limit (max 50)
+ * Admins also find unapproved blogs
+ * Titles and snippets are HTML with matching words wrapped in <mark>
+ */
+router.get(
+	'/',
+	optionalAuth,
+	asyncHandler(async (req: AuthRequest, res: any) => {
+		const type = (req.query.type as string) || 'all';
+		if (!SEARCH_SCOPES.includes(type as SearchScope)) {
+			throw new SearchRequestError(`type must be one of: ${SEARCH_SCOPES.join(', ')}`);
+		}
+
+		const from = textParam(req, 'from');
+		const to = textParam(req, 'to');
+
+		const data = await SearchService.search({
+			q: textParam(req, 'q') || '',
+			scope: type as SearchScope,
+			platform: textParam(req, 'platform'),
+			from: from ? SearchQuery.dateBound(from, 'from') : undefined,
+			to: to ? SearchQuery.dateBound(to, 'to') : undefined,
+			page: parseInt(req.query.page as string) || undefined,
+			limit: parseInt(req.query.limit as string) || undefined,
+			includeDrafts: req.user?.role === 'ADMIN',
+		});
+
+		res.json({
+			success: true,
+			data,
+		});
+	})
+);
+
+export default router;
@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import { TagKind } from '@prisma/client';
+import { asyncHandler } from '../middleware/error.middleware';
+import { optionalAuth, AuthRequest } from '../middleware/auth.middleware';
+import { BlogRequestError, BlogService } from '../services/blog.service';
+
+const router = Router();
+
+/**
+ * GET /api/v1/tags
+ * Hashtags and keywords of published blogs with blog counts, most used first
+ * Query params: kind (hashtag/keyword), page, limit
+ */
+router.get(
+	'/',
+	asyncHandler(async (req: any, res: any) => {
+		const kind = req.query.kind ? String(req.query.kind).toUpperCase() : undefined;
+		if (kind && !(Object.values(TagKind) as string[]).includes(kind)) {
+			throw new BlogRequestError('kind must be hashtag or keyword');
+		}
+
+		const data = await BlogService.tags({
+			kind: kind as TagKind | undefined,
+			page: parseInt(req.query.page as string) || undefined,
+			limit: parseInt(req.query.limit as string) || undefined,
+		});
+
+		res.json({
+			success: true,
+			data,
+		});
+	})
+);
+
+/**
+ * GET /api/v1/tags/:tag/blogs
+ * Blogs carrying a tag; same query params and response as GET /blogs
+ */
+router.get(
+	'/:tag/blogs',
+	optionalAuth,
+	asyncHandler(async (req: AuthRequest, res: any) => {
+		const data = await BlogService.listByTag(req.params.tag as string, {
+			page: parseInt(req.query.page as string) || undefined,
+			limit: parseInt(req.query.limit as string) || undefined,
+			platform: req.query.platform as string,
+			filter: req.query.filter as string,
+		}, { userId: req.user?.userId, role: req.user?.role });
+
+		res.json({
+			success: true,
+			data,
+		});
+	})
+);
+
+export default router;
@@ -0,0 +1,57 @@
+import prisma from '../database/client';
+import { BackfillService } from '../services/backfill.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Backfill a source's archive into scraped_posts
+ *
+ * Usage: npm run backfill -- --source elle --since 2025-01-01 [--until 2025-02-01]
+ *
+ * Ctrl+C stops after the current article; run the same command again to resume.
+ */
+function readArgs(): Record<string, string> {
+	const args: Record<string, string> = {};
+	const argv = process.argv.slice(2);
+
+	for (let i = 0; i < argv.length; i++) {
+		if (argv[i].startsWith('--')) {
+			args[argv[i].substring(2)] = argv[i + 1];
+			i++;
+		}
+	}
+
+	return args;
+}
+
+async function backfill() {
+	const args = readArgs();
+
+	if (!args.source || !args.since) {
+		logger.error('Usage: npm run backfill -- --source <id> --since <date> [--until <date>]');
+		process.exitCode = 1;
+		return;
+	}
+
+	const controller = new AbortController();
+	process.once('SIGINT', () => {
+		logger.warn('Stopping after the current article...');
+		controller.abort();
+	});
+
+	try {
+		const run = await BackfillService.run({
+			sourceId: args.source,
+			since: new Date(args.since),
+			until: args.until ? new Date(args.until) : undefined,
+		}, controller.signal);
+
+		logger.info(`Backfill ${run.id}: ${run.saved} saved, ${run.skipped} skipped, ${run.failed} failed`);
+	} catch (error: any) {
+		logger.error('Backfill stopped:', error.message);
+		process.exitCode = 1;
+	} finally {
+		await prisma.$disconnect();
+	}
+}
+
+backfill();
@@ -0,0 +1,32 @@
+import prisma, { initializeDatabase } from '../database/client';
+import { ContentService } from '../services/content.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Link blogs published before the unified pipeline to scraped and
+ * normalized posts, so they are clustered with new articles
+ *
+ * Usage: npm run migrate:blogs
+ *
+ * Blogs already linked are left alone; run it again after a failure.
+ */
+async function migrateBlogs() {
+	try {
+		// Stops here when migrations are pending (blogs.normalized_post_id)
+		await initializeDatabase();
+
+		const result = await ContentService.migrateLegacyBlogs();
+		logger.info(`Blog migration finished: ${result.migrated} migrated, ${result.failed} failed`);
+
+		if (result.failed > 0) {
+			process.exitCode = 1;
+		}
+	} catch (error: any) {
+		logger.error('Blog migration stopped:', error.message);
+		process.exitCode = 1;
+	} finally {
+		await prisma.$disconnect();
+	}
+}
+
+migrateBlogs();
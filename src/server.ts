@@ -6,8 +6,13 @@ import { logger } from './utils/logger';
 import { errorHandler, notFoundHandler } from './middleware/error.middleware';
 import routes from './routes';
 import { CronScheduler } from './jobs/cron.scheduler';
+import { PipelineRunner } from './jobs/pipeline.runner';
+import { browserPool } from './services/browser-pool.service';
+import { BackfillService } from './services/backfill.service';
 import { scrapingService } from './services/scraping.service';
 import { initializeDatabase } from './database/client';
+import { getLLMProvider } from './llm';
+import { assertModelsPriced } from './llm/pricing';
 
 const app: Application = express();
 
@@ -97,7 +102,10 @@ const PORT = config.port;
 // Initialize database before starting server
 async function startServer() {
 	try {
-		// Initialize database (test connection + create tables if needed)
+		// A daily LLM budget needs a price for every configured model
+		assertModelsPriced([getLLMProvider().defaultModel, config.llm.sentimentModel]);
+
+		// Initialize database (test connection + check migrations are applied)
 		await initializeDatabase();
 
 		// Start Express server
@@ -143,6 +151,8 @@ process.on('SIGINT', async () => {
 	logger.info('Shutting down gracefully...');
 	await scrapingService.stop();
 	CronScheduler.stop();
+	await Promise.all([PipelineRunner.stop(), BackfillService.stop()]);
+	await browserPool.shutdown();
 	process.exit(0);
 });
 
@@ -150,6 +160,8 @@ process.on('SIGTERM', async () => {
 	logger.info('Shutting down gracefully...');
 	await scrapingService.stop();
 	CronScheduler.stop();
+	await Promise.all([PipelineRunner.stop(), BackfillService.stop()]);
+	await browserPool.shutdown();
 	process.exit(0);
 });
 
@@ -1,21 +1,32 @@
-import OpenAI from 'openai';
 import prisma from '../database/client';
 import { config } from '../config';
+import { LlmBudgetExceededError, LlmUsageService } from './llm-usage.service';
+import { LlmCacheService } from './llm-cache.service';
+import { PromptService } from './prompt.service';
+import { PromptTemplate } from './prompt.template';
 import { logger } from '../utils/logger';
 
+export interface InsightOptions {
+	jobId?: string;
+	// Ignore cached answers and ask the model again
+	bypassCache?: boolean;
+}
+
 /**
- * AI Insight Generator using OpenAI
+ * AI Insight Generator using the configured LLM provider
  * Generates trend titles and insights
  */
 export class AIInsightService {
-	private static openai = new OpenAI({
-		apiKey: config.openai.apiKey,
-	});
-
 	/**
 	 * Generate insights for all clusters without AI insights
+	 * Stops (clusters stay pending) once the daily LLM budget is spent
 	 */
-	static async generateAllInsights() {
+	static async generateAllInsights(options: InsightOptions = {}) {
+		if (await LlmUsageService.isPaused()) {
+			logger.warn('⏸️  Daily LLM budget reached, cluster insights paused');
+			return [];
+		}
+
 		const clusters = await prisma.trendCluster.findMany({
 			where: {
 				OR: [
@@ -36,9 +47,13 @@ export class AIInsightService {
 		const results = [];
 		for (const cluster of clusters) {
 			try {
-				const insight = await this.generateInsight(cluster);
+				const insight = await this.generateInsight(cluster, options);
 				results.push(insight);
 			} catch (error) {
+				if (error instanceof LlmBudgetExceededError) {
+					logger.warn(`⏸️  ${error.message}`);
+					break;
+				}
 				logger.error(`Failed to generate insight for cluster ${cluster.id}:`, error);
 			}
 		}
@@ -48,8 +63,10 @@ export class AIInsightService {
 
 	/**
 	 * Generate AI insight for a single cluster
+	 * The insight prompt version is picked by cluster id (A/B variants) and
+	 * recorded on the cluster
 	 */
-	static async generateInsight(cluster: any) {
+	static async generateInsight(cluster: any, options: InsightOptions = {}) {
 		try {
 			// Prepare context from posts
 			const postsSummary = cluster.posts
@@ -65,44 +82,36 @@ export class AIInsightService {
 				? cluster.commonKeywords.join(', ')
 				: '';
 
-			// Generate with OpenAI
-			const completion = await this.openai.chat.completions.create({
-				model: config.openai.model,
+			const prompt = await PromptService.select('insight', cluster.id);
+
+			// Generate with the LLM provider (cached by prompt)
+			const completion = await LlmCacheService.complete({
 				messages: [
 					{
 						role: 'system',
-						content: `You are a fashion trend analyst. Generate concise, engaging trend insights for a fashion blog. 
-            Your insights should be 1-2 sentences, highlighting what makes this trend notable and why it's gaining traction.
-            Be specific, mention key elements, and sound authoritative but approachable.`,
+						content: prompt.system,
 					},
 					{
 						role: 'user',
-						content: `Generate a trend insight for this fashion trend cluster:
-            
-Common Hashtags: ${hashtags}
-Common Keywords: ${keywords}
-Trend Score: ${cluster.trendScore}/100
-Growth: ${cluster.growthPercentage}%
-
-Sample Posts:
-${postsSummary}
-
-Provide:
-1. A catchy trend title (max 6 words)
-2. A brief insight (1-2 sentences explaining the trend)
-
-Format as JSON:
-{
-  "title": "trend title here",
-  "insight": "trend insight here"
-}`,
+						content: PromptTemplate.render(prompt.template, {
+							hashtags,
+							keywords,
+							trendScore: cluster.trendScore,
+							growth: cluster.growthPercentage,
+							posts: postsSummary,
+						}),
 					},
 				],
 				temperature: 0.7,
-				max_tokens: 200,
+				maxTokens: 200,
+				json: true,
+			}, { purpose: 'INSIGHT', clusterId: cluster.id, jobId: options.jobId }, {
+				promptVersion: prompt.label,
+				bypass: options.bypassCache,
+				accept: content => this.isInsightJson(content),
 			});
 
-			const response = completion.choices[0].message.content;
+			const response = completion.content;
 			const parsed = JSON.parse(response || '{}');
 
 			// Update cluster with AI-generated content
@@ -111,12 +120,18 @@ Format as JSON:
 				data: {
 					title: parsed.title || cluster.title,
 					aiInsight: parsed.insight || 'Unable to generate insight',
+					promptVersionId: prompt.id,
 				},
 			});
 
 			logger.info(`Generated insight for cluster ${cluster.id}`);
 			return updated;
 		} catch (error: any) {
+			// Over budget: leave the cluster pending for the next run
+			if (error instanceof LlmBudgetExceededError) {
+				throw error;
+			}
+
 			logger.error(`AI insight generation failed for cluster ${cluster.id}:`, error.message);
 
 			// Fallback to basic insight
@@ -131,6 +146,14 @@ Format as JSON:
 		}
 	}
 
+	private static isInsightJson(content: string): boolean {
+		try {
+			return typeof JSON.parse(content).insight === 'string';
+		} catch {
+			return false;
+		}
+	}
+
 	/**
 	 * Generate fallback insight without AI
 	 */
@@ -149,30 +172,35 @@ Format as JSON:
 	/**
 	 * Analyze sentiment of posts in a cluster
 	 */
-	static async analyzeSentiment(posts: any[]) {
+	static async analyzeSentiment(posts: any[], clusterId?: string, options: InsightOptions = {}) {
 		try {
 			const texts = posts
 				.slice(0, 5)
 				.map(p => p.cleanedText)
 				.join('\n\n');
 
-			const completion = await this.openai.chat.completions.create({
-				model: 'gpt-3.5-turbo',
+			const prompt = await PromptService.select('sentiment', clusterId || texts);
+			const completion = await LlmCacheService.complete({
+				model: config.llm.sentimentModel,
 				messages: [
 					{
 						role: 'system',
-						content: 'Analyze the overall sentiment of these fashion posts. Respond with: positive, negative, or neutral.',
+						content: prompt.system,
 					},
 					{
 						role: 'user',
-						content: texts,
+						content: PromptTemplate.render(prompt.template, { posts: texts }),
 					},
 				],
 				temperature: 0.3,
-				max_tokens: 10,
+				maxTokens: 10,
+			}, { purpose: 'SENTIMENT', clusterId, jobId: options.jobId }, {
+				promptVersion: prompt.label,
+				bypass: options.bypassCache,
+				accept: content => /^(positive|negative|neutral)\b/i.test(content.trim()),
 			});
 
-			return completion.choices[0].message.content?.toLowerCase() || 'neutral';
+			return completion.content.trim().toLowerCase() || 'neutral';
 		} catch (error) {
 			logger.error('Sentiment analysis failed:', error);
 			return 'neutral';
@@ -0,0 +1,266 @@
+import { BackfillRun, Prisma } from '@prisma/client';
+import prisma from '../database/client';
+import { config } from '../config';
+import { sourceRegistry } from '../sources/source.registry';
+import { ContentService } from './content.service';
+import { JobCancelledError } from './scraping-job.service';
+import { PipelineLease, PipelineLockService } from './pipeline-lock.service';
+import { BackfillProgress, BackfillWalker } from './backfill.walker';
+import { settleWithin } from '../utils/timeout';
+import { HttpError } from '../utils/http-error';
+import { logger } from '../utils/logger';
+
+export interface BackfillRequest {
+	sourceId: string;
+	since: Date;
+	// Defaults to now; when omitted, the newest unfinished run from since is resumed
+	until?: Date;
+}
+
+interface ActiveBackfill {
+	controller: AbortController;
+	// Settles once the run has recorded its outcome and released its lock
+	done: Promise<unknown>;
+}
+
+export interface PreparedBackfill {
+	run: BackfillRun;
+	// An unfinished run for the same source and range was picked up
+	resumed: boolean;
+}
+
+/**
+ * Thrown for backfill requests that can never run (unknown source, no
+ * archive, bad range)
+ */
+export class BackfillRequestError extends HttpError {
+	constructor(message: string) {
+		super(400, message);
+		this.name = 'BackfillRequestError';
+	}
+}
+
+/**
+ * Backfill Service
+ * Walks a source's archive for a date range and writes every article into
+ * scraped_posts, so clustering and growth rates have history from day one.
+ * Runs are throttled (BACKFILL_REQUEST_DELAY_MS between articles) and
+ * checkpointed after each article: requesting the same source and range
+ * again resumes an interrupted run.
+ */
+export class BackfillService {
+	// Runs executing in this process
+	private static active = new Map<string, ActiveBackfill>();
+
+	/**
+	 * Start (or resume) a backfill in the background
+	 * Throws PipelineLockedError when the source is already being backfilled
+	 */
+	static async start(request: BackfillRequest): Promise<PreparedBackfill> {
+		const { prepared, lease } = await this.lockAndPrepare(request);
+
+		this.execute(prepared.run, lease).catch(error => {
+			if (!(error instanceof JobCancelledError)) {
+				logger.error(`❌ Backfill ${prepared.run.id} failed:`, error);
+			}
+		});
+
+		return prepared;
+	}
+
+	/**
+	 * Run (or resume) a backfill to completion (used by the CLI)
+	 */
+	static async run(request: BackfillRequest, signal?: AbortSignal): Promise<BackfillRun> {
+		const { prepared, lease } = await this.lockAndPrepare(request);
+
+		return this.execute(prepared.run, lease, signal);
+	}
+
+	/**
+	 * Stop a run executing in this process. It can be resumed later.
+	 */
+	static cancel(runId: string): boolean {
+		const active = this.active.get(runId);
+		if (!active) {
+			return false;
+		}
+
+		logger.warn(`🛑 Cancelling backfill ${runId}`);
+		active.controller.abort();
+		return true;
+	}
+
+	/**
+	 * Stop every run of this process (used on shutdown)
+	 * Waits up to SHUTDOWN_TIMEOUT_SECONDS for the runs to checkpoint as
+	 * CANCELLED and release their locks, so they resume right away.
+	 */
+	static async stop(): Promise<void> {
+		const runs = [...this.active.values()];
+		for (const runId of this.active.keys()) {
+			this.cancel(runId);
+		}
+
+		if (!(await settleWithin(Promise.allSettled(runs.map(run => run.done)), config.scraping.shutdownTimeoutSeconds * 1000))) {
+			logger.warn('⚠️  Backfills did not stop in time; their locks expire after the lease TTL');
+		}
+	}
+
+	static async get(runId: string): Promise<BackfillRun | null> {
+		return prisma.backfillRun.findUnique({ where: { id: runId } });
+	}
+
+	/**
+	 * Recent runs, without their URL lists
+	 */
+	static async list(limit: number = 50): Promise<Omit<BackfillRun, 'urls'>[]> {
+		const runs = await prisma.backfillRun.findMany({
+			orderBy: { createdAt: 'desc' },
+			take: limit,
+		});
+
+		return runs.map(({ urls: _urls, ...run }) => run);
+	}
+
+	/**
+	 * Validate the request, take the source's backfill lock, then find or
+	 * create the run. The lock comes first so a 409 leaves no stray run.
+	 */
+	private static async lockAndPrepare(request: BackfillRequest): Promise<{ prepared: PreparedBackfill; lease: PipelineLease }> {
+		this.validate(request);
+
+		const lease = await PipelineLockService.acquire(this.lockName(request.sourceId));
+		try {
+			return { prepared: await this.prepare(request), lease };
+		} catch (error) {
+			await lease.release();
+			throw error;
+		}
+	}
+
+	private static validate(request: BackfillRequest): void {
+		const definition = sourceRegistry.getDefinition(request.sourceId);
+		const { since, until } = request;
+
+		if (!definition) {
+			throw new BackfillRequestError(`Unknown source: ${request.sourceId}`);
+		}
+		if (!definition.capabilities.backfill) {
+			throw new BackfillRequestError(`Source "${request.sourceId}" has no archive to backfill from`);
+		}
+		if (isNaN(since.getTime()) || (until && isNaN(until.getTime())) || since >= (until || new Date())) {
+			throw new BackfillRequestError('since must be a valid date before until');
+		}
+	}
+
+	/**
+	 * Find the unfinished run for the same source and range, or create a
+	 * new one. Without until, the newest unfinished run starting at since
+	 * is resumed whatever its end (it was "now" when it was created).
+	 */
+	private static async prepare(request: BackfillRequest): Promise<PreparedBackfill> {
+		const { sourceId, since } = request;
+
+		const unfinished = await prisma.backfillRun.findFirst({
+			where: {
+				sourceId,
+				since,
+				...(request.until && { until: request.until }),
+				status: { not: 'COMPLETED' },
+			},
+			orderBy: { createdAt: 'desc' },
+		});
+
+		if (unfinished) {
+			logger.info(`⏯️  Resuming backfill ${unfinished.id} at article ${unfinished.position}`);
+			return { run: unfinished, resumed: true };
+		}
+
+		const until = request.until || new Date();
+		const run = await prisma.backfillRun.create({
+			data: { sourceId, since, until },
+		});
+
+		logger.info(`📋 Created backfill ${run.id} (${sourceId}, ${since.toISOString()} → ${until.toISOString()})`);
+		return { run, resumed: false };
+	}
+
+	/**
+	 * Execute a run, tracked in this process until it has finished
+	 */
+	private static execute(run: BackfillRun, lease: PipelineLease, signal?: AbortSignal): Promise<BackfillRun> {
+		const controller = new AbortController();
+		const done = this.walk(run, lease, controller, signal).finally(() => this.active.delete(run.id));
+
+		this.active.set(run.id, { controller, done });
+		return done;
+	}
+
+	private static async walk(run: BackfillRun, lease: PipelineLease, controller: AbortController, signal?: AbortSignal): Promise<BackfillRun> {
+		const onAbort = () => controller.abort();
+		signal?.addEventListener('abort', onAbort, { once: true });
+
+		const source = sourceRegistry.create(run.sourceId);
+		let progress: BackfillProgress = { position: run.position, saved: run.saved, skipped: run.skipped, failed: run.failed };
+
+		try {
+			await lease.setJob(run.id);
+			await this.update(run.id, { status: 'RUNNING', startedAt: run.startedAt || new Date(), errorMessage: null });
+
+			// Discovery runs once; resumed runs keep their URL list
+			let urls = Array.isArray(run.urls) ? run.urls as string[] : null;
+			if (!urls) {
+				logger.info(`🗺️  Discovering ${run.sourceId} articles for backfill ${run.id}...`);
+				urls = await source.listArchiveUrls(run.since, run.until);
+				await this.update(run.id, { urls });
+			}
+
+			logger.info(`📚 Backfill ${run.id}: ${urls.length} articles (${urls.length - progress.position} remaining)`);
+
+			progress = await BackfillWalker.walk(urls, run, progress, {
+				scrape: url => source.scrapeArticle(url),
+				store: async post => {
+					await ContentService.storeScraped([post]);
+				},
+				checkpoint: async next => {
+					progress = next;
+					await this.update(run.id, next);
+
+					if (next.position % 25 === 0) {
+						logger.info(`📚 Backfill ${run.id}: ${next.position}/${urls!.length} (${next.saved} saved, ${next.skipped} skipped, ${next.failed} failed)`);
+					}
+				},
+				// Throttle harder than regular runs: a backfill can read thousands of pages
+				pause: () => new Promise(resolve => setTimeout(resolve, config.backfill.requestDelayMs)),
+			}, controller.signal);
+
+			if (progress.position < urls.length) {
+				throw new JobCancelledError();
+			}
+
+			logger.info(`✅ Backfill ${run.id} completed: ${progress.saved} saved, ${progress.skipped} skipped, ${progress.failed} failed`);
+			return this.update(run.id, { status: 'COMPLETED', completedAt: new Date() });
+		} catch (error) {
+			if (error instanceof JobCancelledError) {
+				logger.warn(`🛑 Backfill ${run.id} stopped at article ${progress.position}; request it again to resume`);
+				await this.update(run.id, { status: 'CANCELLED', errorMessage: 'Cancelled; request the same range to resume' });
+			} else {
+				await this.update(run.id, { status: 'FAILED', errorMessage: error instanceof Error ? error.message : String(error) });
+			}
+			throw error;
+		} finally {
+			signal?.removeEventListener('abort', onAbort);
+			await source.cleanup();
+			await lease.release();
+		}
+	}
+
+	private static async update(runId: string, data: Prisma.BackfillRunUpdateInput): Promise<BackfillRun> {
+		return prisma.backfillRun.update({ where: { id: runId }, data });
+	}
+
+	private static lockName(sourceId: string): string {
+		return `backfill:${sourceId}`;
+	}
+}
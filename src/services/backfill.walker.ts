@@ -0,0 +1,71 @@
+import type { ScrapedPostData } from '../sources/base.source';
+import { logger } from '../utils/logger';
+
+/**
+ * Counters of a backfill run, as stored on BackfillRun
+ */
+export interface BackfillProgress {
+	// Index of the next article to read in the run's URL list
+	position: number;
+	saved: number;
+	// Outside the date range, or not an article
+	skipped: number;
+	failed: number;
+}
+
+/**
+ * What the walker does with each article (the service wires these to the
+ * source, scraped_posts and the BackfillRun row)
+ */
+export interface BackfillSteps {
+	scrape(url: string): Promise<ScrapedPostData | null>;
+	store(post: ScrapedPostData): Promise<void>;
+	// Called after every article with the position to resume from
+	checkpoint(progress: BackfillProgress): Promise<void>;
+	// Throttle between articles
+	pause(): Promise<void>;
+}
+
+/**
+ * Backfill Walker
+ * Reads a backfill's article list from its checkpoint on; free of database
+ * access
+ */
+export class BackfillWalker {
+	/**
+	 * Read the articles from progress.position on and store the ones
+	 * published inside the range. An aborted signal stops the walk between
+	 * articles; the returned position is where the run resumes.
+	 */
+	static async walk(urls: string[], range: { since: Date; until: Date }, start: BackfillProgress, steps: BackfillSteps, signal?: AbortSignal): Promise<BackfillProgress> {
+		const progress = { ...start };
+
+		while (progress.position < urls.length && !signal?.aborted) {
+			const url = urls[progress.position];
+
+			try {
+				const post = await steps.scrape(url);
+
+				// Sitemaps list modified dates; the article page has the real publish date
+				if (post && post.postedAt >= range.since && post.postedAt <= range.until) {
+					await steps.store(post);
+					progress.saved++;
+				} else {
+					progress.skipped++;
+				}
+			} catch (error: any) {
+				progress.failed++;
+				logger.warn(`Failed to backfill ${url}: ${error.message}`);
+			}
+
+			progress.position++;
+			await steps.checkpoint({ ...progress });
+
+			if (progress.position < urls.length && !signal?.aborted) {
+				await steps.pause();
+			}
+		}
+
+		return progress;
+	}
+}
@@ -0,0 +1,199 @@
+import type { BlogComment, TagKind } from '@prisma/client';
+import type { BlogCommentWithUser, BlogCounts, BlogFilter, BlogTagInput, BlogWithTags } from '../repositories/blog.repository';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_COMMENT_LENGTH = 5000;
+// tags.name column length
+const MAX_TAG_LENGTH = 191;
+
+/**
+ * Blog as returned by the API (legacy blogs table column names)
+ */
+export interface BlogDto {
+	id: number;
+	createdAt: Date;
+	updatedAt: Date;
+	platform: string;
+	title: string;
+	description: string | null;
+	ai_insight: string | null;
+	image: string | null;
+	link: string;
+	approved: 0 | 1;
+	prompt_version_id: string | null;
+	normalized_post_id: string | null;
+	hashtags: string[];
+	keywords: string[];
+}
+
+export interface BlogListItem extends BlogDto {
+	likesCount: number;
+	// Always false for guests
+	isLiked: boolean;
+}
+
+export interface BlogPage {
+	blogs: BlogListItem[];
+	pagination: {
+		page: number;
+		limit: number;
+		total: number;
+		totalPages: number;
+	};
+	// For the admin filter buttons
+	counts: BlogCounts;
+}
+
+export interface BlogCommentDto {
+	id: number;
+	comment: string;
+	createdAt: Date;
+	updatedAt: Date;
+	user: { id: number; username: string | null; email: string | null };
+}
+
+/**
+ * Who is asking (from the access token); empty for guests
+ */
+export interface BlogViewer {
+	userId?: number;
+	role?: string;
+}
+
+export interface BlogListQuery {
+	page?: number;
+	limit?: number;
+	platform?: string;
+	// 'draft', 'published' or 'all' (admins only)
+	filter?: string;
+	tag?: string;
+}
+
+/**
+ * Blog Mapper
+ * DTOs and access rules for blogs, free of database access
+ */
+export class BlogMapper {
+	static toDto(blog: BlogWithTags): BlogDto {
+		return {
+			id: blog.id,
+			createdAt: blog.createdAt,
+			updatedAt: blog.updatedAt,
+			platform: blog.platform,
+			title: blog.title,
+			description: blog.description,
+			ai_insight: blog.aiInsight,
+			image: blog.image,
+			link: blog.link,
+			approved: blog.approved ? 1 : 0,
+			prompt_version_id: blog.promptVersionId,
+			normalized_post_id: blog.normalizedPostId,
+			hashtags: this.tagNamesOf(blog, 'HASHTAG'),
+			keywords: this.tagNamesOf(blog, 'KEYWORD'),
+		};
+	}
+
+	static toListItem(blog: BlogWithTags, likesCounts: Map<number, number>, likedBlogIds: Set<number>): BlogListItem {
+		return {
+			...this.toDto(blog),
+			likesCount: likesCounts.get(blog.id) || 0,
+			isLiked: likedBlogIds.has(blog.id),
+		};
+	}
+
+	static toCommentDto(comment: BlogCommentWithUser): BlogCommentDto {
+		return {
+			id: comment.id,
+			comment: comment.comment,
+			createdAt: comment.createdAt,
+			updatedAt: comment.updatedAt,
+			user: { id: comment.user.id, username: comment.user.username, email: comment.user.email },
+		};
+	}
+
+	static isAdmin(viewer: BlogViewer): boolean {
+		return viewer.role === 'ADMIN';
+	}
+
+	/**
+	 * Blogs a viewer may list: admins pick drafts, published or all;
+	 * everybody else only sees published blogs
+	 */
+	static listFilter(viewer: BlogViewer, query: BlogListQuery): BlogFilter {
+		const filter: BlogFilter = { platform: query.platform || undefined };
+		if (query.tag) {
+			// A tag that cannot be stored matches nothing
+			filter.tag = this.tagName(query.tag) || query.tag;
+		}
+
+		if (!this.isAdmin(viewer) || query.filter === 'published') {
+			filter.approved = true;
+		} else if (query.filter === 'draft') {
+			filter.approved = false;
+		}
+
+		return filter;
+	}
+
+	/**
+	 * Page number and size with defaults for missing or invalid values
+	 */
+	static pageOf(query: BlogListQuery): { page: number; limit: number; skip: number } {
+		const page = query.page && query.page > 0 ? Math.floor(query.page) : 1;
+		const limit = query.limit && query.limit > 0 ? Math.floor(query.limit) : DEFAULT_PAGE_SIZE;
+
+		return { page, limit, skip: (page - 1) * limit };
+	}
+
+	/**
+	 * Stored form of a hashtag or keyword: lowercased, without leading '#'
+	 * and with single spaces; null when nothing is left
+	 */
+	static tagName(raw: string): string | null {
+		const name = raw.replace(/^[\s#]+/, '').replace(/\s+/g, ' ').trim().toLowerCase().slice(0, MAX_TAG_LENGTH);
+		return name || null;
+	}
+
+	/**
+	 * Tags for a new blog, each name once (a name that is both a hashtag
+	 * and a keyword is kept as a hashtag)
+	 */
+	static tagsOf(hashtags: string[] = [], keywords: string[] = []): BlogTagInput[] {
+		const tags = new Map<string, TagKind>();
+
+		for (const [kind, names] of [['HASHTAG', hashtags], ['KEYWORD', keywords]] as const) {
+			for (const raw of names) {
+				const name = typeof raw === 'string' ? this.tagName(raw) : null;
+				if (name && !tags.has(name)) {
+					tags.set(name, kind);
+				}
+			}
+		}
+
+		return [...tags].map(([name, kind]) => ({ name, kind }));
+	}
+
+	/**
+	 * Why a comment cannot be posted, or null when it is fine
+	 */
+	static commentProblem(comment: unknown): string | null {
+		if (!comment || typeof comment !== 'string' || comment.trim().length === 0) {
+			return 'Comment is required and must be a non-empty string';
+		}
+		if (comment.length > MAX_COMMENT_LENGTH) {
+			return `Comment must be less than ${MAX_COMMENT_LENGTH} characters`;
+		}
+		return null;
+	}
+
+	/**
+	 * Comments can be deleted by their author or an admin
+	 */
+	static canDeleteComment(viewer: BlogViewer, comment: Pick<BlogComment, 'userId'>): boolean {
+		return this.isAdmin(viewer) || (viewer.userId !== undefined && comment.userId === viewer.userId);
+	}
+
+	private static tagNamesOf(blog: BlogWithTags, kind: TagKind): string[] {
+		return blog.tags.filter(link => link.kind === kind).map(link => link.tag.name).sort();
+	}
+}
@@ -0,0 +1,234 @@
+import { TagKind } from '@prisma/client';
+import { BlogCounts, BlogRepository, TagCount } from '../repositories/blog.repository';
+import { BlogCommentDto, BlogDto, BlogListQuery, BlogMapper, BlogPage, BlogViewer } from './blog.mapper';
+import { HttpError } from '../utils/http-error';
+import { logger } from '../utils/logger';
+
+/**
+ * Thrown for blog requests that cannot be served (unknown blog or
+ * comment, bad comment, not allowed)
+ */
+export class BlogRequestError extends HttpError {
+	constructor(message: string, statusCode: number = 400) {
+		super(statusCode, message);
+		this.name = 'BlogRequestError';
+	}
+}
+
+/**
+ * New blog written by the pipeline; published once an admin approves it
+ */
+export interface DraftBlogInput {
+	platform: string;
+	title: string;
+	description: string;
+	aiInsight: string;
+	image: string;
+	link: string;
+	hashtags?: string[];
+	keywords?: string[];
+	promptVersionId?: string | null;
+	normalizedPostId?: string | null;
+}
+
+export interface TagPage {
+	tags: TagCount[];
+	pagination: {
+		page: number;
+		limit: number;
+		total: number;
+		totalPages: number;
+	};
+}
+
+export interface LikeResult {
+	// False when the user had already liked the blog
+	liked: boolean;
+	likesCount: number;
+}
+
+/**
+ * Blog Service
+ * Listing, moderation, likes and comments for blogs; shared by the blog
+ * routes and the publishing pipeline
+ */
+export class BlogService {
+	/**
+	 * One page of blogs the viewer may see, newest first, with like counts
+	 * and the viewer's liked state
+	 */
+	static async list(query: BlogListQuery, viewer: BlogViewer = {}): Promise<BlogPage> {
+		const where = BlogMapper.listFilter(viewer, query);
+		const { page, limit, skip } = BlogMapper.pageOf(query);
+
+		const [blogs, total, counts] = await Promise.all([
+			BlogRepository.list(where, { skip, take: limit }),
+			BlogRepository.count(where),
+			BlogRepository.counts(),
+		]);
+
+		const blogIds = blogs.map(blog => blog.id);
+		const [likesCounts, likedBlogIds] = await Promise.all([
+			BlogRepository.likeCounts(blogIds),
+			viewer.userId ? BlogRepository.likedBy(viewer.userId, blogIds) : Promise.resolve(new Set<number>()),
+		]);
+
+		return {
+			blogs: blogs.map(blog => BlogMapper.toListItem(blog, likesCounts, likedBlogIds)),
+			pagination: {
+				page,
+				limit,
+				total,
+				totalPages: Math.ceil(total / limit),
+			},
+			counts,
+		};
+	}
+
+	static async counts(): Promise<BlogCounts> {
+		return BlogRepository.counts();
+	}
+
+	static async get(id: number): Promise<BlogDto> {
+		const blog = await BlogRepository.findById(id);
+		if (!blog) {
+			throw new BlogRequestError('Blog not found', 404);
+		}
+		return BlogMapper.toDto(blog);
+	}
+
+	/**
+	 * Save a pipeline article as an unapproved blog
+	 * Returns null when a blog with the same link exists
+	 */
+	static async publishDraft(input: DraftBlogInput): Promise<BlogDto | null> {
+		if (await BlogRepository.findByLink(input.link)) {
+			return null;
+		}
+
+		const { hashtags, keywords, ...fields } = input;
+		const tags = BlogMapper.tagsOf(hashtags, keywords);
+		const blog = await BlogRepository.create({
+			...fields,
+			approved: false,
+			hashtags: tags.filter(tag => tag.kind === 'HASHTAG').map(tag => tag.name).join(' ') || null,
+			promptVersionId: input.promptVersionId || null,
+			normalizedPostId: input.normalizedPostId || null,
+		}, tags);
+		return BlogMapper.toDto(blog);
+	}
+
+	/**
+	 * Tags of published blogs, most used first
+	 */
+	static async tags(query: { kind?: TagKind; page?: number; limit?: number }): Promise<TagPage> {
+		const { page, limit, skip } = BlogMapper.pageOf(query);
+		const { tags, total } = await BlogRepository.tagCounts({ approved: true }, query.kind, { skip, take: limit });
+
+		return {
+			tags,
+			pagination: {
+				page,
+				limit,
+				total,
+				totalPages: Math.ceil(total / limit),
+			},
+		};
+	}
+
+	/**
+	 * Blogs carrying a tag, like list(); 404 for tags never used
+	 */
+	static async listByTag(tag: string, query: BlogListQuery, viewer: BlogViewer = {}): Promise<BlogPage & { tag: string }> {
+		const name = BlogMapper.tagName(tag);
+		if (!name || !(await BlogRepository.tagExists(name))) {
+			throw new BlogRequestError('Tag not found', 404);
+		}
+
+		return { tag: name, ...await this.list({ ...query, tag: name }, viewer) };
+	}
+
+	static async approve(id: number): Promise<BlogDto> {
+		await this.requireBlog(id);
+
+		return BlogMapper.toDto(await BlogRepository.approve(id));
+	}
+
+	/**
+	 * Returns the number of blogs approved
+	 */
+	static async approveAll(): Promise<number> {
+		const affected = await BlogRepository.approveAll();
+		logger.info(`✅ Approved all blogs (affected rows: ${affected})`);
+		return affected;
+	}
+
+	/**
+	 * Returns false when the blog did not exist
+	 */
+	static async delete(id: number): Promise<boolean> {
+		return BlogRepository.delete(id);
+	}
+
+	static async like(id: number, userId: number): Promise<LikeResult> {
+		await this.requireBlog(id);
+
+		const liked = await BlogRepository.addLike(userId, id);
+		return { liked, likesCount: await BlogRepository.countLikes(id) };
+	}
+
+	/**
+	 * Idempotent; returns the remaining likes
+	 */
+	static async unlike(id: number, userId: number): Promise<number> {
+		await this.requireBlog(id);
+
+		const removed = await BlogRepository.removeLike(userId, id);
+		const likesCount = await BlogRepository.countLikes(id);
+
+		if (!removed) {
+			logger.info(`ℹ️  User ${userId} attempted to unlike blog ${id} (was not liked). Total likes: ${likesCount}`);
+		}
+		return likesCount;
+	}
+
+	static async comments(id: number): Promise<BlogCommentDto[]> {
+		const comments = await BlogRepository.listComments(id);
+		return comments.map(comment => BlogMapper.toCommentDto(comment));
+	}
+
+	static async addComment(id: number, userId: number, text: unknown): Promise<{ comment: BlogCommentDto; totalComments: number }> {
+		const problem = BlogMapper.commentProblem(text);
+		if (problem) {
+			throw new BlogRequestError(problem);
+		}
+		await this.requireBlog(id);
+
+		const comment = await BlogRepository.addComment(userId, id, (text as string).trim());
+		return {
+			comment: BlogMapper.toCommentDto(comment),
+			totalComments: await BlogRepository.countComments(id),
+		};
+	}
+
+	/**
+	 * Only the author of a comment or an admin may delete it
+	 */
+	static async deleteComment(commentId: number, viewer: BlogViewer): Promise<void> {
+		const comment = await BlogRepository.findComment(commentId);
+		if (!comment) {
+			throw new BlogRequestError('Comment not found', 404);
+		}
+		if (!BlogMapper.canDeleteComment(viewer, comment)) {
+			throw new BlogRequestError('Not authorized to delete this comment', 403);
+		}
+
+		await BlogRepository.deleteComment(commentId);
+	}
+
+	private static async requireBlog(id: number): Promise<void> {
+		if (!(await BlogRepository.exists(id))) {
+			throw new BlogRequestError('Blog not found', 404);
+		}
+	}
+}
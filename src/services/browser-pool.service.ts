@@ -0,0 +1,217 @@
+import { chromium, Browser, BrowserContext, BrowserContextOptions, Page } from 'playwright';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+export const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+/**
+ * Options for a borrowed browser context (one per source)
+ */
+export interface BrowserContextRequest {
+	userAgent?: string;
+	viewport?: { width: number; height: number };
+	locale?: string;
+	timezoneId?: string;
+	extraHTTPHeaders?: Record<string, string>;
+}
+
+/**
+ * A borrowed context + page. Must be released when the source is done.
+ */
+export interface BrowserLease {
+	context: BrowserContext;
+	page: Page;
+	release(): Promise<void>;
+}
+
+export interface BrowserPoolOptions {
+	// Max contexts borrowed at the same time; further requests wait
+	maxContexts: number;
+	// Close the browser after this long without borrowed contexts
+	idleTimeoutMs: number;
+	launchArgs: string[];
+}
+
+/**
+ * Browser Pool
+ * One shared Chromium instance that Playwright-based sources borrow isolated
+ * contexts from. Bounds concurrency, shuts the browser down when idle and
+ * relaunches it transparently after a crash.
+ */
+export class BrowserPool {
+	private browser: Browser | null = null;
+	private launching: Promise<Browser> | null = null;
+	private activeContexts = 0;
+	private waiters: Array<() => void> = [];
+	private idleTimer: NodeJS.Timeout | null = null;
+
+	constructor(private readonly options: BrowserPoolOptions) { }
+
+	/**
+	 * Borrow a fresh context and page. Waits while the pool is at capacity.
+	 */
+	async acquire(request: BrowserContextRequest = {}): Promise<BrowserLease> {
+		await this.waitForSlot();
+		this.clearIdleTimer();
+
+		try {
+			const context = await this.newContext(request);
+			const page = await context.newPage();
+			let released = false;
+
+			return {
+				context,
+				page,
+				release: async () => {
+					if (released) return;
+					released = true;
+
+					try {
+						await context.close();
+					} catch (error) {
+						// Context is already gone if the browser crashed or was closed
+						logger.debug('Browser context already closed:', error);
+					}
+					this.releaseSlot();
+				},
+			};
+		} catch (error) {
+			this.releaseSlot();
+			throw error;
+		}
+	}
+
+	/**
+	 * Current pool usage (for diagnostics)
+	 */
+	getStatus(): { running: boolean; activeContexts: number; waiting: number; maxContexts: number } {
+		return {
+			running: !!this.browser?.isConnected(),
+			activeContexts: this.activeContexts,
+			waiting: this.waiters.length,
+			maxContexts: this.options.maxContexts,
+		};
+	}
+
+	/**
+	 * Close the shared browser (borrowed contexts are closed with it)
+	 */
+	async shutdown(): Promise<void> {
+		this.clearIdleTimer();
+
+		const browser = this.browser;
+		this.browser = null;
+
+		if (browser) {
+			logger.info('Shutting down shared browser');
+			await browser.close().catch(error => logger.error('Error closing shared browser:', error));
+		}
+	}
+
+	/**
+	 * Create a context, relaunching the browser once if it died underneath us
+	 */
+	private async newContext(request: BrowserContextRequest): Promise<BrowserContext> {
+		const contextOptions: BrowserContextOptions = {
+			userAgent: request.userAgent || DEFAULT_USER_AGENT,
+			viewport: request.viewport || { width: 1920, height: 1080 },
+			locale: request.locale,
+			timezoneId: request.timezoneId,
+			extraHTTPHeaders: request.extraHTTPHeaders,
+		};
+
+		try {
+			return await (await this.getBrowser()).newContext(contextOptions);
+		} catch (error) {
+			logger.warn('Failed to create browser context, relaunching browser:', error);
+			await this.shutdown();
+			return (await this.getBrowser()).newContext(contextOptions);
+		}
+	}
+
+	private async getBrowser(): Promise<Browser> {
+		if (this.browser?.isConnected()) {
+			return this.browser;
+		}
+
+		if (!this.launching) {
+			this.launching = this.launch().finally(() => {
+				this.launching = null;
+			});
+		}
+
+		return this.launching;
+	}
+
+	private async launch(): Promise<Browser> {
+		logger.info('Launching shared browser...');
+
+		const browser = await chromium.launch({
+			headless: true,
+			args: this.options.launchArgs,
+		});
+
+		// Crash recovery: forget the dead instance, the next acquire relaunches
+		browser.on('disconnected', () => {
+			if (this.browser === browser) {
+				logger.warn('Shared browser disconnected; it will be relaunched on next use');
+				this.browser = null;
+			}
+		});
+
+		this.browser = browser;
+		logger.info('Shared browser launched');
+		return browser;
+	}
+
+	private async waitForSlot(): Promise<void> {
+		while (this.activeContexts >= this.options.maxContexts) {
+			await new Promise<void>(resolve => this.waiters.push(resolve));
+		}
+		this.activeContexts++;
+	}
+
+	private releaseSlot(): void {
+		this.activeContexts = Math.max(0, this.activeContexts - 1);
+
+		const next = this.waiters.shift();
+		if (next) {
+			next();
+		} else if (this.activeContexts === 0) {
+			this.scheduleIdleShutdown();
+		}
+	}
+
+	private scheduleIdleShutdown(): void {
+		this.clearIdleTimer();
+		this.idleTimer = setTimeout(() => {
+			if (this.activeContexts === 0) {
+				logger.info('Shared browser idle, shutting down');
+				this.shutdown();
+			}
+		}, this.options.idleTimeoutMs);
+		this.idleTimer.unref();
+	}
+
+	private clearIdleTimer(): void {
+		if (this.idleTimer) {
+			clearTimeout(this.idleTimer);
+			this.idleTimer = null;
+		}
+	}
+}
+
+// Export singleton instance shared by all sources
+export const browserPool = new BrowserPool({
+	maxContexts: config.browserPool.maxContexts,
+	idleTimeoutMs: config.browserPool.idleTimeoutSeconds * 1000,
+	launchArgs: [
+		'--no-sandbox',
+		'--disable-setuid-sandbox',
+		'--disable-blink-features=AutomationControlled',
+		'--disable-dev-shm-usage',
+		'--disable-web-security',
+		'--disable-features=IsolateOrigins,site-per-process',
+		'--disable-http2'
+	],
+});
@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+import { Blog, Prisma, SocialPlatform } from '@prisma/client';
+import prisma from '../database/client';
+import { ScrapedPostData } from '../sources/base.source';
+import { NormalizationService } from './normalization.service';
+import { logger } from '../utils/logger';
+
+// Platform names legacy blogs were published with, besides the enum values
+const LEGACY_PLATFORM_ALIASES: Record<string, ScrapedPostData['platform']> = {
+	"HARPER'S BAZAAR": 'HARPER',
+	'HARPERS BAZAAR': 'HARPER',
+	'HARPERSBAZAAR': 'HARPER',
+	'RSS': 'FEED',
+};
+
+export interface LegacyBlogMigration {
+	migrated: number;
+	failed: number;
+}
+
+/**
+ * Content Service
+ * Owns the canonical content flow: scraped articles are stored raw
+ * (scraped_posts), normalized (normalized_posts), clustered
+ * (trend_clusters) and published as blogs that point back at their
+ * normalized post (blogs.normalized_post_id).
+ */
+export class ContentService {
+	/**
+	 * Insert scraped articles into scraped_posts, refreshing the content of
+	 * articles stored before (processing state is left untouched)
+	 * Returns scraped_posts ids by platformPostId
+	 */
+	static async storeScraped(posts: ScrapedPostData[]): Promise<Map<string, string>> {
+		const ids = new Map<string, string>();
+
+		for (const post of posts) {
+			const content = {
+				author: post.author,
+				authorHandle: post.authorHandle,
+				text: post.text,
+				mediaUrls: post.mediaUrls || [],
+				postedAt: post.postedAt,
+				sourceUrl: post.sourceUrl,
+				rawContent: post.rawContent as Prisma.InputJsonObject,
+			};
+
+			const stored = await prisma.scrapedPost.upsert({
+				where: { platformPostId: post.platformPostId },
+				create: {
+					...content,
+					platformPostId: post.platformPostId,
+					platform: post.platform as SocialPlatform,
+					likes: post.likes,
+					comments: post.comments,
+					shares: post.shares,
+					views: post.views,
+				},
+				update: content,
+				select: { id: true },
+			});
+
+			ids.set(post.platformPostId, stored.id);
+		}
+
+		return ids;
+	}
+
+	/**
+	 * Give blogs published before the unified pipeline a scraped and a
+	 * normalized post, so they join clustering like new articles. Blogs
+	 * whose link was scraped since reuse that article. Safe to run again.
+	 */
+	static async migrateLegacyBlogs(batchSize: number = 100): Promise<LegacyBlogMigration> {
+		const result: LegacyBlogMigration = { migrated: 0, failed: 0 };
+		let lastId = 0;
+
+		for (;;) {
+			const blogs = await prisma.blog.findMany({
+				where: { normalizedPostId: null, id: { gt: lastId } },
+				orderBy: { id: 'asc' },
+				take: batchSize,
+			});
+			if (blogs.length === 0) {
+				break;
+			}
+
+			for (const blog of blogs) {
+				lastId = blog.id;
+
+				try {
+					const normalizedPostId = await this.normalizeLegacyBlog(blog);
+					await prisma.blog.update({ where: { id: blog.id }, data: { normalizedPostId } });
+					result.migrated++;
+				} catch (error: any) {
+					result.failed++;
+					logger.error(`❌ Failed to migrate blog ${lastId} (${blog.link}): ${error.message}`);
+				}
+			}
+
+			logger.info(`📦 Migrated ${result.migrated} blogs so far (${result.failed} failed)`);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Scraped and normalized post for a legacy blog row; returns the
+	 * normalized post id
+	 */
+	private static async normalizeLegacyBlog(blog: Blog): Promise<string> {
+		const platform = String(blog.platform || '').trim().toUpperCase();
+		const known = this.legacyPlatform(platform);
+		if (!known) {
+			logger.warn(`⚠️  Blog ${blog.id} has unknown platform "${blog.platform}"; stored as FEED with the original in rawContent.legacyPlatform`);
+		}
+
+		const source: ScrapedPostData = {
+			platformPostId: `blog_${crypto.createHash('sha1').update(blog.link).digest('hex').substring(0, 32)}`,
+			platform: known || 'FEED',
+			author: platform || 'UNKNOWN',
+			authorHandle: platform.toLowerCase() || 'unknown',
+			text: blog.description || blog.title,
+			mediaUrls: blog.image ? [blog.image] : [],
+			postedAt: blog.createdAt,
+			likes: 0,
+			comments: 0,
+			shares: 0,
+			views: 0,
+			sourceUrl: blog.link,
+			rawContent: {
+				title: blog.title,
+				description: blog.description,
+				migratedFromBlogId: blog.id,
+				...(known ? {} : { legacyPlatform: blog.platform }),
+			},
+		};
+
+		// The article may have been scraped since; keep that row
+		const scraped = await prisma.scrapedPost.findFirst({
+			where: { sourceUrl: blog.link },
+			include: { normalizedPost: { select: { id: true } } },
+		});
+		if (scraped?.normalizedPost) {
+			return scraped.normalizedPost.id;
+		}
+
+		const scrapedPostIds = scraped
+			? new Map([[scraped.platformPostId, scraped.id]])
+			: await this.storeScraped([source]);
+
+		const normalizedIds = await NormalizationService.saveNormalizedItems([{
+			post: {
+				Title: blog.title,
+				AI_Insight: blog.aiInsight || '',
+				Image: blog.image || '',
+				Description: blog.description || '',
+				Link: blog.link,
+				Platform: source.platform,
+				// Tags were not kept for blogs published so far
+				Hashtags: [],
+				Keywords: [],
+			},
+			source: scraped ? { ...source, platformPostId: scraped.platformPostId } : source,
+			usageIds: [],
+			promptVersionId: null,
+		}], scrapedPostIds);
+
+		const normalizedPostId = normalizedIds.get(blog.link);
+		if (!normalizedPostId) {
+			throw new Error('normalized post was not saved');
+		}
+		return normalizedPostId;
+	}
+
+	/**
+	 * Platform enum value of a legacy blog's platform name, or null when unknown
+	 */
+	private static legacyPlatform(name: string): ScrapedPostData['platform'] | null {
+		if ((Object.values(SocialPlatform) as string[]).includes(name)) {
+			return name as ScrapedPostData['platform'];
+		}
+		return LEGACY_PLATFORM_ALIASES[name] || null;
+	}
+}
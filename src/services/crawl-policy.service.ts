@@ -0,0 +1,256 @@
+import axios from 'axios';
+import { config } from '../config';
+import { HttpError } from '../utils/http-error';
+import { logger } from '../utils/logger';
+import { DEFAULT_USER_AGENT } from './browser-pool.service';
+import { FixtureStore } from './fixture-store.service';
+
+// Cache unreachable robots.txt (5xx, network errors) for a shorter time
+const UNREACHABLE_CACHE_MS = 10 * 60 * 1000;
+
+interface RobotsRule {
+	allow: boolean;
+	pattern: string;
+	regex: RegExp;
+}
+
+interface RobotsGroup {
+	agents: string[];
+	rules: RobotsRule[];
+	crawlDelaySeconds: number | null;
+}
+
+/**
+ * Parsed robots.txt for one host
+ */
+export interface RobotsPolicy {
+	groups: RobotsGroup[];
+	sitemaps: string[];
+	// Set when robots.txt could not be fetched (5xx / network error): crawl nothing
+	unreachable?: boolean;
+}
+
+export interface CrawlDecision {
+	allowed: boolean;
+	// Why the URL was refused (logged by callers)
+	reason?: string;
+	// Crawl-delay requested by the host for our user agent (0 when none)
+	crawlDelayMs: number;
+}
+
+/**
+ * Thrown when a source is asked to fetch a URL the crawl policy refuses
+ */
+export class CrawlDisallowedError extends HttpError {
+	constructor(readonly url: string, readonly reason: string) {
+		super(403, `Crawling ${url} is not allowed: ${reason}`);
+		this.name = 'CrawlDisallowedError';
+	}
+}
+
+/**
+ * Parse robots.txt content (RFC 9309, plus the common Crawl-delay and Sitemap lines)
+ */
+export function parseRobotsTxt(content: string): RobotsPolicy {
+	const policy: RobotsPolicy = { groups: [], sitemaps: [] };
+	let current: RobotsGroup | null = null;
+	let lastWasAgent = false;
+
+	for (const rawLine of content.split(/\r?\n/)) {
+		const line = rawLine.replace(/#.*$/, '').trim();
+		const separator = line.indexOf(':');
+		if (separator === -1) continue;
+
+		const key = line.slice(0, separator).trim().toLowerCase();
+		const value = line.slice(separator + 1).trim();
+
+		if (key === 'user-agent') {
+			// Consecutive user-agent lines share one group
+			if (!current || !lastWasAgent) {
+				current = { agents: [], rules: [], crawlDelaySeconds: null };
+				policy.groups.push(current);
+			}
+			current.agents.push(value.toLowerCase());
+			lastWasAgent = true;
+			continue;
+		}
+
+		lastWasAgent = false;
+
+		if (key === 'sitemap') {
+			if (value) policy.sitemaps.push(value);
+			continue;
+		}
+
+		if (!current) continue;
+
+		if ((key === 'allow' || key === 'disallow') && value) {
+			current.rules.push({ allow: key === 'allow', pattern: value, regex: patternToRegex(value) });
+		} else if (key === 'crawl-delay') {
+			const seconds = parseFloat(value);
+			if (!isNaN(seconds) && seconds >= 0) {
+				current.crawlDelaySeconds = seconds;
+			}
+		}
+	}
+
+	return policy;
+}
+
+/**
+ * Decide whether a path may be crawled by the given user agent token
+ */
+export function evaluateRobots(policy: RobotsPolicy, userAgent: string, path: string): CrawlDecision {
+	if (policy.unreachable) {
+		return { allowed: false, reason: 'robots.txt is unreachable', crawlDelayMs: 0 };
+	}
+
+	const groups = matchGroups(policy, userAgent);
+	const rules = groups.flatMap(group => group.rules);
+	const delays = groups.map(group => group.crawlDelaySeconds).filter((delay): delay is number => delay !== null);
+	const crawlDelayMs = delays.length > 0 ? Math.max(...delays) * 1000 : 0;
+
+	// Most specific (longest) matching rule wins; Allow wins ties
+	let match: RobotsRule | null = null;
+	for (const rule of rules) {
+		if (!rule.regex.test(path)) continue;
+		if (!match
+			|| rule.pattern.length > match.pattern.length
+			|| (rule.pattern.length === match.pattern.length && rule.allow)) {
+			match = rule;
+		}
+	}
+
+	if (match && !match.allow) {
+		return { allowed: false, reason: `robots.txt disallows ${match.pattern}`, crawlDelayMs };
+	}
+
+	return { allowed: true, crawlDelayMs };
+}
+
+function matchGroups(policy: RobotsPolicy, userAgent: string): RobotsGroup[] {
+	const token = userAgent.toLowerCase();
+	const specific = policy.groups.filter(group => group.agents.some(agent => agent !== '*' && token.includes(agent)));
+
+	if (specific.length > 0) {
+		return specific;
+	}
+
+	return policy.groups.filter(group => group.agents.includes('*'));
+}
+
+function patternToRegex(pattern: string): RegExp {
+	const anchored = pattern.endsWith('$');
+	const body = (anchored ? pattern.slice(0, -1) : pattern)
+		.split('*')
+		.map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+		.join('.*');
+
+	return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+/**
+ * Crawl Policy Service
+ * Fetches and caches robots.txt per host and decides whether a URL may be
+ * crawled by our user agent, and how long to wait between requests
+ */
+export class CrawlPolicyService {
+	private static cache = new Map<string, { policy: RobotsPolicy; expiresAt: number }>();
+	private static pending = new Map<string, Promise<RobotsPolicy>>();
+
+	/**
+	 * Check a URL against its host's robots.txt
+	 */
+	static async check(url: string): Promise<CrawlDecision> {
+		let target: URL;
+		try {
+			target = new URL(url);
+		} catch {
+			return { allowed: false, reason: 'invalid URL', crawlDelayMs: 0 };
+		}
+
+		if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+			return { allowed: false, reason: `unsupported protocol ${target.protocol}`, crawlDelayMs: 0 };
+		}
+
+		if (!config.crawlPolicy.enabled || target.pathname === '/robots.txt') {
+			return { allowed: true, crawlDelayMs: 0 };
+		}
+
+		const policy = await this.getPolicy(target.origin);
+		return evaluateRobots(policy, config.crawlPolicy.userAgent, `${target.pathname}${target.search}`);
+	}
+
+	/**
+	 * Sitemaps advertised in a host's robots.txt
+	 */
+	static async getSitemaps(origin: string): Promise<string[]> {
+		return (await this.getPolicy(origin)).sitemaps;
+	}
+
+	/**
+	 * Forget cached robots.txt files
+	 */
+	static clearCache(): void {
+		this.cache.clear();
+	}
+
+	private static async getPolicy(origin: string): Promise<RobotsPolicy> {
+		const cached = this.cache.get(origin);
+		if (cached && cached.expiresAt > Date.now()) {
+			return cached.policy;
+		}
+
+		// Concurrent checks for the same host share one fetch
+		let pending = this.pending.get(origin);
+		if (!pending) {
+			pending = this.fetchPolicy(origin).finally(() => this.pending.delete(origin));
+			this.pending.set(origin, pending);
+		}
+
+		return pending;
+	}
+
+	private static async fetchPolicy(origin: string): Promise<RobotsPolicy> {
+		const robotsUrl = `${origin}/robots.txt`;
+		let policy: RobotsPolicy;
+
+		// Replayed runs use the recorded robots.txt, or allow everything without one
+		if (FixtureStore.isReplaying()) {
+			const recorded = FixtureStore.read(robotsUrl);
+			return recorded === null ? { groups: [], sitemaps: [] } : parseRobotsTxt(recorded);
+		}
+
+		try {
+			const response = await axios.get(robotsUrl, {
+				headers: { 'User-Agent': DEFAULT_USER_AGENT },
+				timeout: 15000,
+				maxRedirects: 5,
+				responseType: 'text',
+				validateStatus: () => true,
+			});
+
+			if (response.status >= 200 && response.status < 300) {
+				policy = parseRobotsTxt(String(response.data || ''));
+
+				if (FixtureStore.getMode() === 'record') {
+					FixtureStore.write(robotsUrl, String(response.data || ''));
+				}
+			} else if (response.status >= 400 && response.status < 500) {
+				// No robots.txt (or not accessible): everything is allowed
+				policy = { groups: [], sitemaps: [] };
+			} else {
+				logger.warn(`robots.txt for ${origin} returned ${response.status}, treating host as disallowed`);
+				policy = { groups: [], sitemaps: [], unreachable: true };
+			}
+		} catch (error: any) {
+			logger.warn(`Failed to fetch robots.txt for ${origin}: ${error.message}, treating host as disallowed`);
+			policy = { groups: [], sitemaps: [], unreachable: true };
+		}
+
+		const ttl = policy.unreachable ? UNREACHABLE_CACHE_MS : config.crawlPolicy.robotsCacheMinutes * 60 * 1000;
+		this.cache.set(origin, { policy, expiresAt: Date.now() + ttl });
+
+		return policy;
+	}
+}
@@ -0,0 +1,107 @@
+import crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+export type FixtureMode = 'off' | 'record' | 'replay';
+
+/**
+ * Thrown in replay mode when a page was never recorded
+ */
+export class FixtureMissingError extends Error {
+	constructor(readonly url: string, readonly file: string) {
+		super(`No recorded fixture for ${url} (expected ${file})`);
+		this.name = 'FixtureMissingError';
+	}
+}
+
+/**
+ * Fixture Store
+ * Record/replay layer for pages fetched by the sources. In record mode every
+ * fetched page is written to the fixtures directory; in replay mode pages are
+ * served from there and the network (and browser) is never touched, so
+ * scraper tests run offline and deterministically.
+ */
+export class FixtureStore {
+	private static mode: FixtureMode = config.fixtures.mode;
+	private static dir: string = config.fixtures.dir;
+
+	/**
+	 * Switch mode or directory at runtime (tests)
+	 */
+	static configure(options: { mode?: FixtureMode; dir?: string }): void {
+		this.mode = options.mode || this.mode;
+		this.dir = options.dir || this.dir;
+	}
+
+	static getMode(): FixtureMode {
+		return this.mode;
+	}
+
+	static isReplaying(): boolean {
+		return this.mode === 'replay';
+	}
+
+	/**
+	 * Fetch a page through the store: replayed from its fixture, or fetched
+	 * (and recorded in record mode)
+	 */
+	static async fetch(url: string, fetcher: () => Promise<string>): Promise<string> {
+		if (this.mode === 'replay') {
+			const recorded = this.read(url);
+			if (recorded === null) {
+				throw new FixtureMissingError(url, this.pathFor(url));
+			}
+			return recorded;
+		}
+
+		const body = await fetcher();
+
+		if (this.mode === 'record') {
+			this.write(url, body);
+		}
+
+		return body;
+	}
+
+	/**
+	 * Recorded body of a URL, or null
+	 */
+	static read(url: string): string | null {
+		const file = this.pathFor(url);
+		return fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : null;
+	}
+
+	static write(url: string, body: string): void {
+		const file = this.pathFor(url);
+
+		try {
+			fs.mkdirSync(path.dirname(file), { recursive: true });
+			fs.writeFileSync(file, body, 'utf-8');
+			logger.info(`📼 Recorded ${url} → ${file}`);
+		} catch (error) {
+			logger.error(`Failed to record fixture for ${url}:`, error);
+		}
+	}
+
+	/**
+	 * <dir>/<host>/<readable path>-<hash>.<ext>
+	 */
+	static pathFor(url: string): string {
+		const target = new URL(url);
+		const slug = `${target.pathname}${target.search}`
+			.toLowerCase()
+			.replace(/\.gz$/, '')
+			.replace(/\.(xml|txt|html?)$/, '')
+			.replace(/[^a-z0-9]+/g, '-')
+			.replace(/^-+|-+$/g, '')
+			.substring(0, 80) || 'index';
+		const hash = crypto.createHash('sha1').update(url).digest('hex').substring(0, 8);
+		const extension = /\.xml(\.gz)?$/i.test(target.pathname) ? 'xml'
+			: /\.txt$/i.test(target.pathname) ? 'txt'
+				: 'html';
+
+		return path.join(this.dir, target.hostname, `${slug}-${hash}.${extension}`);
+	}
+}
@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import { LlmPurpose } from '@prisma/client';
+import prisma from '../database/client';
+import { config } from '../config';
+import { ChatCompletionRequest, getLLMProvider } from '../llm';
+import { LlmCallContext, LlmUsageService } from './llm-usage.service';
+import { logger } from '../utils/logger';
+
+export interface LlmCacheKey {
+	purpose: LlmPurpose;
+	model: string;
+	promptVersion: string;
+	// Anything JSON-serializable that determines the answer
+	input: unknown;
+}
+
+export interface CacheOptions {
+	promptVersion: string;
+	// Skip the lookup (the fresh answer still replaces the entry)
+	bypass?: boolean;
+	// Only cache answers the caller can use (default: any non-empty answer)
+	accept?: (content: string) => boolean;
+}
+
+export interface CachedCompletion {
+	content: string;
+	model: string;
+	cached: boolean;
+}
+
+/**
+ * LLM Cache Service
+ * Content-addressed answers in MySQL (llm_cache), keyed on purpose, model,
+ * prompt version and a hash of the input. Hits cost nothing and do not count
+ * against the daily budget. Failures to read or write the cache are logged
+ * and treated as misses.
+ */
+export class LlmCacheService {
+	/**
+	 * Model a request will run on
+	 */
+	static modelFor(request: ChatCompletionRequest): string {
+		return request.model || getLLMProvider().defaultModel;
+	}
+
+	static key(parts: LlmCacheKey): string {
+		return crypto.createHash('sha256')
+			.update(JSON.stringify([parts.purpose, parts.model, parts.promptVersion, parts.input]))
+			.digest('hex');
+	}
+
+	/**
+	 * Cached answer, or null when missing, expired or caching is off
+	 */
+	static async get(key: string): Promise<string | null> {
+		if (!config.llm.cache.enabled) {
+			return null;
+		}
+
+		try {
+			const entry = await prisma.llmCacheEntry.findUnique({ where: { key } });
+			if (!entry) {
+				return null;
+			}
+
+			if (entry.expiresAt <= new Date()) {
+				await prisma.llmCacheEntry.delete({ where: { key } }).catch(() => undefined);
+				return null;
+			}
+
+			await prisma.llmCacheEntry.update({
+				where: { key },
+				data: { hits: { increment: 1 }, lastHitAt: new Date() },
+			});
+			return entry.content;
+		} catch (error: any) {
+			logger.warn(`LLM cache read failed: ${error.message}`);
+			return null;
+		}
+	}
+
+	static async set(key: string, parts: Omit<LlmCacheKey, 'input'>, content: string): Promise<void> {
+		if (!config.llm.cache.enabled) {
+			return;
+		}
+
+		const expiresAt = new Date(Date.now() + config.llm.cache.ttlHours * 60 * 60 * 1000);
+		const data = { ...parts, content, expiresAt, createdAt: new Date(), hits: 0, lastHitAt: null };
+
+		try {
+			await prisma.llmCacheEntry.upsert({
+				where: { key },
+				create: { key, ...data },
+				update: data,
+			});
+		} catch (error: any) {
+			logger.warn(`LLM cache write failed: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Tracked completion (LlmUsageService), answered from the cache when the
+	 * same request was made before with the same model and prompt version
+	 */
+	static async complete(request: ChatCompletionRequest, context: LlmCallContext, options: CacheOptions): Promise<CachedCompletion> {
+		const parts = {
+			purpose: context.purpose,
+			model: this.modelFor(request),
+			promptVersion: options.promptVersion,
+		};
+		const key = this.key({ ...parts, input: { messages: request.messages, json: !!request.json } });
+
+		if (!options.bypass) {
+			const cached = await this.get(key);
+			if (cached !== null) {
+				logger.debug(`💾 LLM cache hit (${context.purpose}, ${parts.model})`);
+				return { content: cached, model: parts.model, cached: true };
+			}
+		}
+
+		const completion = await LlmUsageService.complete(request, context);
+		const accept = options.accept || ((content: string) => content.trim().length > 0);
+
+		if (accept(completion.content)) {
+			await this.set(key, parts, completion.content);
+		}
+
+		return { content: completion.content, model: completion.model, cached: false };
+	}
+
+	/**
+	 * Delete expired entries
+	 */
+	static async purgeExpired(): Promise<number> {
+		const { count } = await prisma.llmCacheEntry.deleteMany({ where: { expiresAt: { lte: new Date() } } });
+		return count;
+	}
+}
@@ -0,0 +1,248 @@
+import { LlmPurpose } from '@prisma/client';
+import prisma from '../database/client';
+import { config } from '../config';
+import { ChatCompletionRequest, ChatCompletionResult, getLLMProvider } from '../llm';
+import { estimateCost } from '../llm/pricing';
+import { HttpError } from '../utils/http-error';
+import { logger } from '../utils/logger';
+
+/**
+ * What an LLM call is for, stored with its usage
+ */
+export interface LlmCallContext {
+	purpose: LlmPurpose;
+	sourceId?: string;
+	blogId?: number;
+	clusterId?: string;
+	jobId?: string;
+}
+
+export interface TrackedCompletion extends ChatCompletionResult {
+	// llm_usage row (null when it could not be written)
+	usageId: string | null;
+	costUsd: number;
+}
+
+export interface LlmBudgetStatus {
+	dailyBudgetUsd: number | null;
+	spentTodayUsd: number;
+	remainingUsd: number | null;
+	paused: boolean;
+}
+
+interface UsageTotals {
+	calls: number;
+	promptTokens: number;
+	completionTokens: number;
+	totalTokens: number;
+	costUsd: number;
+}
+
+/**
+ * Thrown instead of calling the model once today's estimated spend reached
+ * LLM_DAILY_BUDGET_USD (429)
+ */
+export class LlmBudgetExceededError extends HttpError {
+	constructor(readonly spentUsd: number, readonly budgetUsd: number) {
+		super(429, `Daily LLM budget reached ($${spentUsd.toFixed(2)} of $${budgetUsd.toFixed(2)}); AI steps resume tomorrow (UTC)`);
+		this.name = 'LlmBudgetExceededError';
+	}
+}
+
+/**
+ * LLM Usage Service
+ * Every model request goes through complete(): it enforces the daily budget,
+ * then logs model, tokens, estimated cost and purpose to llm_usage
+ */
+export class LlmUsageService {
+	/**
+	 * Call the configured provider and record the usage
+	 * Throws LlmBudgetExceededError when today's budget is spent
+	 */
+	static async complete(request: ChatCompletionRequest, context: LlmCallContext): Promise<TrackedCompletion> {
+		await this.assertWithinBudget();
+
+		const started = Date.now();
+		const result = await getLLMProvider().complete(request);
+		const costUsd = estimateCost(result.model, result.usage);
+		const usageId = await this.record(result, context, costUsd, Date.now() - started);
+
+		return { ...result, usageId, costUsd };
+	}
+
+	static async budgetStatus(): Promise<LlmBudgetStatus> {
+		const budget = config.llm.dailyBudgetUsd > 0 ? config.llm.dailyBudgetUsd : null;
+		const spent = await this.spentToday();
+
+		return {
+			dailyBudgetUsd: budget,
+			spentTodayUsd: this.round(spent),
+			remainingUsd: budget === null ? null : this.round(Math.max(0, budget - spent)),
+			paused: budget !== null && spent >= budget,
+		};
+	}
+
+	/**
+	 * Whether AI steps should be skipped (daily budget spent)
+	 */
+	static async isPaused(): Promise<boolean> {
+		return config.llm.dailyBudgetUsd > 0 && (await this.budgetStatus()).paused;
+	}
+
+	/**
+	 * Attach saved blog ids to the usage of single-article requests
+	 */
+	static async linkBlogs(items: Array<{ link: string; usageIds: string[] }>): Promise<void> {
+		const linked = items.filter(item => item.usageIds.length > 0);
+		if (linked.length === 0) {
+			return;
+		}
+
+		try {
+			const blogs = await prisma.blog.findMany({
+				where: { link: { in: linked.map(item => item.link) } },
+				select: { id: true, link: true },
+			});
+			const blogIds = new Map(blogs.map(blog => [blog.link, blog.id]));
+
+			for (const item of linked) {
+				const blogId = blogIds.get(item.link);
+				if (blogId !== undefined) {
+					await prisma.llmUsage.updateMany({ where: { id: { in: item.usageIds } }, data: { blogId } });
+				}
+			}
+		} catch (error: any) {
+			logger.warn(`Failed to link LLM usage to blogs: ${error.message}`);
+		}
+	}
+
+	/**
+	 * Spend and tokens over the last `days` UTC days: per day, source,
+	 * model and purpose
+	 */
+	static async summary(days: number = 30) {
+		const since = this.startOfUtcDay(new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000));
+		const where = { createdAt: { gte: since } };
+		const sums = { promptTokens: true, completionTokens: true, totalTokens: true, costUsd: true } as const;
+
+		const [perDay, perSource, perModel, perPurpose, budget] = await Promise.all([
+			prisma.$queryRaw<Array<Record<string, unknown>>>`
+				SELECT DATE(createdAt) AS day, COUNT(*) AS calls,
+					SUM(promptTokens) AS promptTokens, SUM(completionTokens) AS completionTokens,
+					SUM(totalTokens) AS totalTokens, SUM(costUsd) AS costUsd
+				FROM llm_usage
+				WHERE createdAt >= ${since}
+				GROUP BY DATE(createdAt)
+				ORDER BY day DESC
+			`,
+			prisma.llmUsage.groupBy({ by: ['sourceId'], where, _count: { _all: true }, _sum: sums }),
+			prisma.llmUsage.groupBy({ by: ['model'], where, _count: { _all: true }, _sum: sums }),
+			prisma.llmUsage.groupBy({ by: ['purpose'], where, _count: { _all: true }, _sum: sums }),
+			this.budgetStatus(),
+		]);
+
+		const byDay = perDay.map(row => ({
+			day: row.day instanceof Date ? row.day.toISOString().substring(0, 10) : String(row.day),
+			...this.totals({
+				calls: row.calls,
+				promptTokens: row.promptTokens,
+				completionTokens: row.completionTokens,
+				totalTokens: row.totalTokens,
+				costUsd: row.costUsd,
+			}),
+		}));
+		const fromGroup = (group: { _count: { _all: number }; _sum: Record<string, number | null> }) =>
+			this.totals({ calls: group._count._all, ...group._sum });
+
+		return {
+			since,
+			budget,
+			total: this.totals(byDay.reduce((sum, day) => ({
+				calls: sum.calls + day.calls,
+				promptTokens: sum.promptTokens + day.promptTokens,
+				completionTokens: sum.completionTokens + day.completionTokens,
+				totalTokens: sum.totalTokens + day.totalTokens,
+				costUsd: sum.costUsd + day.costUsd,
+			}), { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0 })),
+			byDay,
+			bySource: perSource
+				.map(group => ({ sourceId: group.sourceId, ...fromGroup(group) }))
+				.sort((a, b) => b.costUsd - a.costUsd),
+			byModel: perModel
+				.map(group => ({ model: group.model, ...fromGroup(group) }))
+				.sort((a, b) => b.costUsd - a.costUsd),
+			byPurpose: perPurpose
+				.map(group => ({ purpose: group.purpose, ...fromGroup(group) }))
+				.sort((a, b) => b.costUsd - a.costUsd),
+		};
+	}
+
+	private static async assertWithinBudget(): Promise<void> {
+		const budget = config.llm.dailyBudgetUsd;
+		if (budget <= 0) {
+			return;
+		}
+
+		const spent = await this.spentToday();
+		if (spent >= budget) {
+			throw new LlmBudgetExceededError(spent, budget);
+		}
+	}
+
+	private static async spentToday(): Promise<number> {
+		const result = await prisma.llmUsage.aggregate({
+			where: { createdAt: { gte: this.startOfUtcDay(new Date()) } },
+			_sum: { costUsd: true },
+		});
+
+		return result._sum.costUsd || 0;
+	}
+
+	/**
+	 * Usage logging never fails the call it describes
+	 */
+	private static async record(result: ChatCompletionResult, context: LlmCallContext, costUsd: number, durationMs: number): Promise<string | null> {
+		try {
+			const usage = await prisma.llmUsage.create({
+				data: {
+					provider: result.provider,
+					model: result.model,
+					purpose: context.purpose,
+					promptTokens: result.usage.promptTokens,
+					completionTokens: result.usage.completionTokens,
+					totalTokens: result.usage.totalTokens,
+					tokensEstimated: !!result.usage.estimated,
+					costUsd,
+					durationMs,
+					sourceId: context.sourceId,
+					blogId: context.blogId,
+					clusterId: context.clusterId,
+					jobId: context.jobId,
+				},
+			});
+
+			return usage.id;
+		} catch (error: any) {
+			logger.warn(`Failed to record LLM usage (${context.purpose}, ${result.model}): ${error.message}`);
+			return null;
+		}
+	}
+
+	private static totals(values: Record<string, unknown>): UsageTotals {
+		return {
+			calls: Number(values.calls || 0),
+			promptTokens: Number(values.promptTokens || 0),
+			completionTokens: Number(values.completionTokens || 0),
+			totalTokens: Number(values.totalTokens || 0),
+			costUsd: this.round(Number(values.costUsd || 0)),
+		};
+	}
+
+	private static round(usd: number): number {
+		return Math.round(usd * 1_000_000) / 1_000_000;
+	}
+
+	private static startOfUtcDay(date: Date): Date {
+		return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+	}
+}
@@ -0,0 +1,264 @@
+import { config } from '../config';
+import { ChatCompletionRequest, ChatCompletionResult, ChatMessage, getLLMProvider } from '../llm';
+import type { ScrapedPostData } from '../sources/base.source';
+import { logger } from '../utils/logger';
+import { NormalizationRejection, NormalizationSchema, ValidatedNormalization } from './normalization.schema';
+import type { NormalizedFashionPost, UnmatchedPost } from './normalization.service';
+import type { ResolvedPrompt } from './prompt.service';
+import { PromptTemplate } from './prompt.template';
+
+// Max characters of crawled article body sent per post
+const ARTICLE_BODY_PROMPT_LIMIT = 4000;
+
+/**
+ * What a batch request goes through (the service records usage and
+ * enforces the daily budget here)
+ */
+export interface NormalizationSteps {
+	complete(request: ChatCompletionRequest): Promise<ChatCompletionResult & { usageId?: string | null }>;
+}
+
+export interface BatchResult {
+	posts: NormalizedFashionPost[];
+	rejected: NormalizationRejection[];
+	attempts: number;
+	usageIds: string[];
+}
+
+/**
+ * Outcome of every batch of a run
+ */
+export interface BatchRun {
+	// Valid posts by link
+	accepted: Map<string, NormalizedFashionPost>;
+	rejected: NormalizationRejection[];
+	// Articles of batches that threw
+	failed: UnmatchedPost[];
+	failures: Error[];
+	attempts: number;
+	// usage ids of single-article batches, by link
+	usageByLink: Map<string, string[]>;
+}
+
+/**
+ * Normalization Batcher
+ * Splits articles into batches, sends them to the model and maps the output
+ * back to the articles by link; free of database access
+ */
+export class NormalizationBatcher {
+	/**
+	 * Batches of at most batchSize articles; articles of different groups
+	 * (prompt versions) never share a batch
+	 */
+	static split(sources: ScrapedPostData[], groupOf: (source: ScrapedPostData) => string, batchSize: number): ScrapedPostData[][] {
+		const groups = new Map<string, ScrapedPostData[]>();
+		for (const source of sources) {
+			const group = groupOf(source);
+			groups.set(group, [...(groups.get(group) || []), source]);
+		}
+
+		const size = Math.max(1, batchSize);
+		const batches: ScrapedPostData[][] = [];
+		for (const group of groups.values()) {
+			for (let i = 0; i < group.length; i += size) {
+				batches.push(group.slice(i, i + size));
+			}
+		}
+
+		return batches;
+	}
+
+	/**
+	 * Run every batch with at most `concurrency` in flight; a failed batch
+	 * only loses its own articles
+	 */
+	static async run(batches: ScrapedPostData[][], concurrency: number, label: string, normalize: (batch: ScrapedPostData[], index: number) => Promise<BatchResult>): Promise<BatchRun> {
+		const run: BatchRun = { accepted: new Map(), rejected: [], failed: [], failures: [], attempts: 0, usageByLink: new Map() };
+
+		await this.forEachConcurrently(batches, concurrency, async (batch, index) => {
+			try {
+				const result = await normalize(batch, index);
+				run.attempts += result.attempts;
+				run.rejected.push(...result.rejected);
+				result.posts.forEach(post => run.accepted.set(post.Link, post));
+				if (batch.length === 1 && batch[0].sourceUrl) {
+					run.usageByLink.set(batch[0].sourceUrl, result.usageIds);
+				}
+			} catch (error: any) {
+				logger.error(`AI normalization of ${label} batch ${index + 1} failed: ${error.message}`);
+				run.failures.push(error);
+				run.attempts++;
+				batch.forEach(source => run.failed.push({ source, reason: error.message, retryable: true }));
+			}
+		});
+
+		return run;
+	}
+
+	/**
+	 * One model request (plus repairs) for a batch of articles
+	 */
+	static async normalizeBatch(scrapedData: ScrapedPostData[], prompt: Pick<ResolvedPrompt, 'system' | 'template'>, label: string, steps: NormalizationSteps): Promise<BatchResult> {
+		// Prepare scraped content for the model
+		const scrapedContent = scrapedData.map(post => this.toPromptItem(post));
+		const allowedLinks = new Set(scrapedContent.map(post => post.link).filter((link): link is string => !!link));
+
+		// Create LLM request; the articles go where the template asks, else at the end
+		const scrapedContentJson = JSON.stringify(scrapedContent, null, 2);
+		const fullPrompt = PromptTemplate.placeholders(prompt.template).includes('articles')
+			? PromptTemplate.render(prompt.template, { articles: scrapedContentJson })
+			: `${prompt.template}\n\nScraped Content:\n${scrapedContentJson}`;
+
+		const llm = getLLMProvider();
+		logger.info(`Sending ${label} (${scrapedData.length} posts, ${scrapedContentJson.length} characters) to ${llm.name}...`);
+
+		const messages: ChatMessage[] = [
+			{
+				role: 'system',
+				content: prompt.system
+			},
+			{
+				role: 'user',
+				content: fullPrompt
+			}
+		];
+
+		// Valid items by link, kept across attempts
+		const accepted = new Map<string, NormalizedFashionPost>();
+		const usageIds: string[] = [];
+		let latest: ValidatedNormalization | null = null;
+		let attempts = 0;
+
+		while (attempts <= config.normalization.repairAttempts) {
+			attempts++;
+
+			const completion = await steps.complete({
+				messages,
+				temperature: 0.7,
+				maxTokens: config.normalization.maxTokensPerArticle * scrapedData.length,
+			});
+			if (completion.usageId) {
+				usageIds.push(completion.usageId);
+			}
+
+			const responseContent = completion.content || '[]';
+			logger.info(`Received ${label} from ${completion.provider} (${completion.model}, ${completion.usage.totalTokens} tokens)`);
+
+			// Parse and validate LLM response
+			let problems: string[];
+			try {
+				latest = NormalizationSchema.validate(NormalizationSchema.parse(responseContent), allowedLinks);
+				latest.posts.forEach(post => accepted.set(post.Link, post));
+				problems = latest.rejected.map(item =>
+					`Item ${item.index}${item.title ? ` ("${item.title}")` : ''}: ${item.reasons.join('; ')}`);
+
+				const missing = Array.from(allowedLinks).filter(link => !accepted.has(link) && !latest!.rejected.some(item => item.link === link));
+				if (missing.length > 0) {
+					problems.push(`No item for these input links: ${missing.join(', ')}`);
+				}
+			} catch (parseError: any) {
+				logger.error(`Failed to parse ${label}: ${parseError.message}`);
+				logger.error('Response content:', responseContent);
+				problems = [parseError.message];
+			}
+
+			if (problems.length === 0 || attempts > config.normalization.repairAttempts) {
+				break;
+			}
+
+			logger.warn(`🔧 Asking ${llm.name} to repair ${problems.length} problem(s) in ${label}`);
+			messages.push(
+				{ role: 'assistant', content: responseContent },
+				{ role: 'user', content: this.buildRepairPrompt(problems) },
+			);
+		}
+
+		if (!latest) {
+			throw new Error('Failed to parse LLM response as JSON');
+		}
+
+		const rejected = latest.rejected.filter(item => !item.link || !accepted.has(item.link));
+		for (const item of rejected) {
+			logger.warn(`⚠️  Rejected normalized post ${item.title ? `"${item.title}"` : `#${item.index}`}: ${item.reasons.join('; ')}`);
+		}
+
+		return { posts: Array.from(accepted.values()), rejected, attempts, usageIds };
+	}
+
+	/**
+	 * Pair each article with its post by link. Articles of failed batches come
+	 * first in unmatched; the others without a post say whether the model's
+	 * item was rejected or missing.
+	 */
+	static match(scrapedData: ScrapedPostData[], accepted: Map<string, NormalizedFashionPost>, rejected: NormalizationRejection[], failed: UnmatchedPost[]): { matched: { post: NormalizedFashionPost; source: ScrapedPostData }[]; unmatched: UnmatchedPost[] } {
+		const matched: { post: NormalizedFashionPost; source: ScrapedPostData }[] = [];
+		const unmatched = [...failed];
+		const failedSources = new Set(failed.map(item => item.source));
+		const rejectedByLink = new Map(rejected.filter(item => item.link).map(item => [item.link!, item]));
+
+		for (const source of scrapedData) {
+			if (failedSources.has(source)) continue;
+
+			const post = source.sourceUrl ? accepted.get(source.sourceUrl) : undefined;
+			if (post) {
+				matched.push({ post, source });
+				continue;
+			}
+
+			const rejection = source.sourceUrl ? rejectedByLink.get(source.sourceUrl) : undefined;
+			unmatched.push({
+				source,
+				reason: rejection ? `rejected: ${rejection.reasons.join('; ')}` : 'no output for this article',
+				retryable: false,
+			});
+		}
+
+		return { matched, unmatched };
+	}
+
+	/**
+	 * What the model sees of a scraped article (also the cache input)
+	 */
+	static toPromptItem(post: ScrapedPostData) {
+		return {
+			title: post.rawContent?.title || 'Untitled',
+			description: post.rawContent?.description || post.text || '',
+			// Full article body when the detail crawl ran (truncated to keep the prompt small)
+			body: post.rawContent?.article?.bodyText?.slice(0, ARTICLE_BODY_PROMPT_LIMIT) || undefined,
+			tags: post.rawContent?.article?.tags,
+			image: post.mediaUrls && post.mediaUrls.length > 0 ? post.mediaUrls[0] : '',
+			link: post.sourceUrl,
+			author: post.author,
+			platform: post.platform,
+			postedAt: post.postedAt
+		};
+	}
+
+	/**
+	 * Run a task per item with at most `limit` tasks in flight
+	 */
+	private static async forEachConcurrently<T>(items: T[], limit: number, task: (item: T, index: number) => Promise<void>): Promise<void> {
+		let next = 0;
+		const worker = async () => {
+			while (next < items.length) {
+				const index = next++;
+				await task(items[index], index);
+			}
+		};
+
+		await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+	}
+
+	/**
+	 * Follow-up asking the model to fix its previous answer
+	 */
+	private static buildRepairPrompt(problems: string[]): string {
+		return [
+			'Your previous response did not match the required format:',
+			...problems.map(problem => `- ${problem}`),
+			'',
+			'Return the complete corrected JSON array with one item per input element (all fields: Title, AI_Insight, Image, Description, Link, Platform, Hashtags, Keywords).',
+			'Link must be copied unchanged from the scraped content. Return ONLY the JSON array, no markdown, no explanation.',
+		].join('\n');
+	}
+}
@@ -0,0 +1,222 @@
+import { config } from '../config';
+import type { NormalizedFashionPost } from './normalization.service';
+
+type FieldRule = {
+	type: 'string' | 'string[]';
+	required?: boolean;
+	// http(s) URL (empty allowed unless required)
+	url?: boolean;
+	maxLength?: number;
+	minWords?: number;
+	maxWords?: number;
+	// string[] only
+	minItems?: number;
+	maxItems?: number;
+	itemPattern?: RegExp;
+	itemDescription?: string;
+};
+
+/**
+ * Item the model returned that failed validation
+ */
+export interface NormalizationRejection {
+	// Position in the model's response
+	index: number;
+	title?: string;
+	link?: string;
+	reasons: string[];
+}
+
+export interface ValidatedNormalization {
+	posts: NormalizedFashionPost[];
+	rejected: NormalizationRejection[];
+}
+
+/**
+ * Expected shape of each normalized post (limits follow the blogs table
+ * columns and the prompt's instructions)
+ */
+const NORMALIZED_POST_SCHEMA: Record<keyof NormalizedFashionPost, FieldRule> = {
+	Title: { type: 'string', required: true, maxLength: 500 },
+	AI_Insight: {
+		type: 'string',
+		required: true,
+		minWords: config.normalization.insightMinWords,
+		maxWords: config.normalization.insightMaxWords,
+	},
+	Image: { type: 'string', url: true, maxLength: 500 },
+	Description: { type: 'string', required: true },
+	Link: { type: 'string', required: true, url: true, maxLength: 500 },
+	Platform: { type: 'string', required: true, maxLength: 191 },
+	Hashtags: {
+		type: 'string[]',
+		minItems: 1,
+		maxItems: 10,
+		itemPattern: /^#[\p{L}\p{N}_]+$/u,
+		itemDescription: 'a # followed by letters, digits or underscores',
+	},
+	Keywords: { type: 'string[]', minItems: 1, maxItems: 10 },
+};
+
+/**
+ * Normalization Schema
+ * Validates the model's normalization output item by item, so one bad item
+ * is reported (and can be repaired) without losing the rest of the batch
+ */
+export class NormalizationSchema {
+	/**
+	 * Parse a model response into its JSON array
+	 * Throws with a readable reason when it is not one
+	 */
+	static parse(content: string): unknown[] {
+		// Remove markdown code blocks if present
+		const cleaned = content
+			.replace(/```json\n?/g, '')
+			.replace(/```\n?/g, '')
+			.trim();
+
+		let parsed: unknown;
+		try {
+			parsed = JSON.parse(cleaned);
+		} catch (error: any) {
+			throw new Error(`Response is not valid JSON (${error.message})`);
+		}
+
+		// JSON mode wraps arrays in an object
+		if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) {
+			const wrapped = Object.values(parsed).find(Array.isArray);
+			if (wrapped) parsed = wrapped;
+		}
+
+		if (!Array.isArray(parsed)) {
+			throw new Error('Response is not a JSON array');
+		}
+
+		return parsed;
+	}
+
+	/**
+	 * Validate every item; links must point at one of the scraped articles
+	 */
+	static validate(items: unknown[], allowedLinks: Set<string>): ValidatedNormalization {
+		const posts: NormalizedFashionPost[] = [];
+		const rejected: NormalizationRejection[] = [];
+
+		items.forEach((item, index) => {
+			const { post, reasons } = this.validateItem(item, allowedLinks);
+
+			if (post) {
+				posts.push(post);
+			} else {
+				const record = item && typeof item === 'object' ? item as Record<string, unknown> : {};
+				rejected.push({
+					index,
+					title: typeof record.Title === 'string' ? record.Title : undefined,
+					link: typeof record.Link === 'string' ? record.Link : undefined,
+					reasons,
+				});
+			}
+		});
+
+		return { posts, rejected };
+	}
+
+	private static validateItem(item: unknown, allowedLinks: Set<string>): { post: NormalizedFashionPost | null; reasons: string[] } {
+		if (!item || typeof item !== 'object' || Array.isArray(item)) {
+			return { post: null, reasons: ['item is not an object'] };
+		}
+
+		const record = item as Record<string, unknown>;
+		const post: Record<string, string | string[]> = {};
+		const reasons: string[] = [];
+
+		for (const [field, rule] of Object.entries(NORMALIZED_POST_SCHEMA)) {
+			const value = rule.type === 'string'
+				? this.checkString(field, record[field], rule, reasons)
+				: this.checkStringArray(field, record[field], rule, reasons);
+
+			if (value !== undefined) {
+				post[field] = value;
+			}
+		}
+
+		if (typeof post.Link === 'string' && post.Link && allowedLinks.size > 0 && !allowedLinks.has(post.Link)) {
+			reasons.push('Link is not one of the scraped article links');
+		}
+
+		if (reasons.length > 0) {
+			return { post: null, reasons };
+		}
+
+		return {
+			post: { ...post, Platform: (post.Platform as string).toUpperCase() } as unknown as NormalizedFashionPost,
+			reasons,
+		};
+	}
+
+	private static checkString(field: string, value: unknown, rule: FieldRule, reasons: string[]): string | undefined {
+		if (value === undefined || value === null || value === '') {
+			if (rule.required) reasons.push(`${field} is required`);
+			return rule.required ? undefined : '';
+		}
+		if (typeof value !== 'string') {
+			reasons.push(`${field} must be a string`);
+			return undefined;
+		}
+
+		const text = value.trim();
+
+		if (rule.maxLength && text.length > rule.maxLength) {
+			reasons.push(`${field} is longer than ${rule.maxLength} characters`);
+		}
+		if (rule.url && !this.isHttpUrl(text)) {
+			reasons.push(`${field} must be an absolute http(s) URL`);
+		}
+
+		const words = text.split(/\s+/).filter(Boolean).length;
+		if (rule.minWords && words < rule.minWords) {
+			reasons.push(`${field} has ${words} words (minimum ${rule.minWords})`);
+		}
+		if (rule.maxWords && words > rule.maxWords) {
+			reasons.push(`${field} has ${words} words (maximum ${rule.maxWords})`);
+		}
+
+		return text;
+	}
+
+	private static checkStringArray(field: string, value: unknown, rule: FieldRule, reasons: string[]): string[] | undefined {
+		if (!Array.isArray(value)) {
+			reasons.push(`${field} must be an array of strings`);
+			return undefined;
+		}
+
+		const items = value.map(entry => typeof entry === 'string' ? entry.trim() : entry);
+
+		if (items.some(entry => typeof entry !== 'string' || !entry)) {
+			reasons.push(`${field} must only contain non-empty strings`);
+			return undefined;
+		}
+		if (rule.minItems && items.length < rule.minItems) {
+			reasons.push(`${field} needs at least ${rule.minItems} entries`);
+		}
+		if (rule.maxItems && items.length > rule.maxItems) {
+			reasons.push(`${field} has more than ${rule.maxItems} entries`);
+		}
+
+		const invalid = rule.itemPattern ? items.filter(entry => !rule.itemPattern!.test(entry)) : [];
+		if (invalid.length > 0) {
+			reasons.push(`${field} entries must be ${rule.itemDescription}: ${invalid.join(', ')}`);
+		}
+
+		return items as string[];
+	}
+
+	private static isHttpUrl(value: string): boolean {
+		try {
+			const url = new URL(value);
+			return url.protocol === 'http:' || url.protocol === 'https:';
+		} catch {
+			return false;
+		}
+	}
+}
@@ -1,13 +1,20 @@
+import { SocialPlatform } from '@prisma/client';
 import prisma from '../database/client';
 import { logger } from '../utils/logger';
 import { ScrapedPostData } from '../sources/base.source';
-import OpenAI from 'openai';
 import { config } from '../config';
+import { getLLMProvider } from '../llm';
+import { LlmBudgetExceededError, LlmUsageService } from './llm-usage.service';
+import { LlmCacheService } from './llm-cache.service';
+import { NormalizationBatcher } from './normalization.batcher';
+import { NormalizationRejection, NormalizationSchema } from './normalization.schema';
+import { PromptService, ResolvedPrompt } from './prompt.service';
+import { BlogService } from './blog.service';
 import * as fs from 'fs';
 import * as path from 'path';
 
 /**
- * Normalized Data Structure (OpenAI Output Format)
+ * Normalized Data Structure (LLM Output Format)
  */
 export interface NormalizedFashionPost {
 	Title: string;
@@ -17,110 +24,173 @@ export interface NormalizedFashionPost {
 	Link: string;
 	Platform: string;
 	Hashtags: string[];
+	Keywords: string[];
 }
 
 /**
- * Normalization Service
- * Uses OpenAI to standardize and enrich scraped fashion data
+ * Normalized post with the scraped article it was generated from
  */
-export class NormalizationService {
-	private static openai = new OpenAI({
-		apiKey: config.openai.apiKey,
-	});
+export interface NormalizedItem {
+	post: NormalizedFashionPost;
+	source: ScrapedPostData;
+	// llm_usage rows of requests made for this article alone (batch size 1)
+	usageIds: string[];
+	// Prompt version that produced it (null when the seed prompt was used)
+	promptVersionId: string | null;
+}
 
-	private static promptTemplate: string | null = null;
+/**
+ * Scraped article that produced no valid normalized post
+ */
+export interface UnmatchedPost {
+	source: ScrapedPostData;
+	reason: string;
+	// Its request failed (provider error, unparseable output): worth trying again
+	retryable: boolean;
+}
 
+/**
+ * Records a published blog points back to (by link)
+ */
+export interface BlogLinks {
+	promptVersionId?: string | null;
+	normalizedPostId?: string | null;
+}
+
+export interface NormalizationResult {
+	// Items that passed validation
+	posts: NormalizedFashionPost[];
+	// Same items, mapped back to their scraped article by link
+	items: NormalizedItem[];
+	// Items still invalid after the repair attempts, with reasons
+	rejected: NormalizationRejection[];
+	// Scraped articles without a valid normalized post
+	unmatched: UnmatchedPost[];
+	// Model requests made (batches + repair attempts used)
+	attempts: number;
+	// Posts served from the LLM cache
+	cached: number;
+}
+
+/**
+ * Run the usage is recorded against
+ */
+export interface NormalizationContext {
+	jobId?: string;
+	sourceId?: string;
+	// Ignore cached posts and ask the model again
+	bypassCache?: boolean;
+}
+
+/**
+ * Normalization Service
+ * Uses the configured LLM provider to standardize and enrich scraped fashion data
+ */
+export class NormalizationService {
 	/**
-	 * Load fashion prompt template
+	 * Normalize scraped data using the LLM provider
+	 * Articles are sent in batches (NORMALIZATION_BATCH_SIZE) with bounded
+	 * concurrency; every output is validated against the schema and mapped
+	 * back to its scraped article by link. Invalid output is sent back to the
+	 * model for repair (NORMALIZATION_REPAIR_ATTEMPTS). Articles without a
+	 * valid post are reported in unmatched; a failed batch only loses its own
+	 * articles. Articles normalized before with the same model and prompt
+	 * are served from the LLM cache. Each article is assigned the normalize
+	 * prompt version by its link (A/B variants) and batched with articles of
+	 * the same version. Throws LlmBudgetExceededError when the daily budget
+	 * stops every batch.
 	 */
-	private static loadPromptTemplate(): string {
-		if (this.promptTemplate) {
-			return this.promptTemplate;
+	static async normalizeWithAI(scrapedData: ScrapedPostData[], platform: string, context: NormalizationContext = {}): Promise<NormalizationResult> {
+		const { batchSize, concurrency } = config.normalization;
+		const model = getLLMProvider().defaultModel;
+
+		const cachedPosts = new Map<string, NormalizedFashionPost>();
+		const cacheKeys = new Map<ScrapedPostData, string>();
+		const prompts = new Map<ScrapedPostData, ResolvedPrompt>();
+		const pending: ScrapedPostData[] = [];
+		let cachedCount = 0;
+
+		for (const source of scrapedData) {
+			const prompt = await PromptService.select('normalize', source.sourceUrl || source.platformPostId);
+			// Undated teasers get the scrape time as postedAt; keep it out of the key
+			const { postedAt: _postedAt, ...input } = NormalizationBatcher.toPromptItem(source);
+			const key = LlmCacheService.key({ purpose: 'NORMALIZE', model, promptVersion: prompt.label, input });
+			const cached = context.bypassCache ? null : await LlmCacheService.get(key);
+			const post = cached ? this.readCachedPost(cached, source) : null;
+
+			cacheKeys.set(source, key);
+			prompts.set(source, prompt);
+			if (post) {
+				cachedPosts.set(post.Link, post);
+				cachedCount++;
+			} else {
+				pending.push(source);
+			}
 		}
 
-		try {
-			const promptPath = path.join(__dirname, '../../prompts/fashion-prompt.txt');
-			this.promptTemplate = fs.readFileSync(promptPath, 'utf-8');
-			logger.info('Loaded fashion prompt template');
-			return this.promptTemplate;
-		} catch (error) {
-			logger.error('Failed to load prompt template:', error);
-			throw new Error('Fashion prompt template not found');
-		}
-	}
+		// Batches never mix prompt versions
+		const batches = NormalizationBatcher.split(pending, source => prompts.get(source)!.label, batchSize);
 
-	/**
-	 * Normalize scraped data using OpenAI
-	 * Takes JSON scraped data and returns standardized format
-	 */
-	static async normalizeWithAI(scrapedData: ScrapedPostData[], platform: string): Promise<NormalizedFashionPost[]> {
-		try {
-			logger.info(`Starting AI normalization for ${scrapedData.length} ${platform} posts`);
-
-			// Prepare scraped content for OpenAI
-			const scrapedContent = scrapedData.map(post => ({
-				title: post.rawContent?.title || 'Untitled',
-				description: post.rawContent?.description || post.text || '',
-				image: post.mediaUrls && post.mediaUrls.length > 0 ? post.mediaUrls[0] : '',
-				link: post.sourceUrl,
-				author: post.author,
-				platform: post.platform,
-				postedAt: post.postedAt
-			}));
-
-			// Load prompt template
-			const promptTemplate = this.loadPromptTemplate();
-
-			// Create OpenAI request
-			const scrapedContentJson = JSON.stringify(scrapedContent, null, 2);
-			const fullPrompt = `${promptTemplate}\n\nScraped Content:\n${scrapedContentJson}`;
-
-			logger.info('Sending request to OpenAI for normalization...');
-			logger.info(`Scraped content length: ${scrapedContentJson.length} characters`);
-
-			const completion = await this.openai.chat.completions.create({
-				model: config.openai.model,
-				messages: [
-					{
-						role: 'system',
-						content: 'You are a fashion industry expert specializing in trend analysis and content curation. You normalize and enrich fashion article data with insightful commentary. Always return valid JSON array format without markdown formatting.'
-					},
-					{
-						role: 'user',
-						content: fullPrompt
-					}
-				],
-				temperature: 0.7,
-				max_tokens: 4000,
-			});
+		logger.info(`Starting AI normalization for ${scrapedData.length} ${platform} posts (${cachedCount} cached, ${batches.length} batches, ${concurrency} in flight)`);
 
-			const responseContent = completion.choices[0]?.message?.content || '[]';
-			logger.info('Received response from OpenAI');
-			logger.info(`Response length: ${responseContent.length} characters`);
+		const run = await NormalizationBatcher.run(batches, concurrency, platform, async (batch, index) => {
+			const prompt = prompts.get(batch[0])!;
+			const result = await NormalizationBatcher.normalizeBatch(batch, prompt, `${platform} batch ${index + 1}/${batches.length} (${prompt.label})`, {
+				complete: request => LlmUsageService.complete(request, { purpose: 'NORMALIZE', jobId: context.jobId, sourceId: context.sourceId }),
+			});
 
-			// Parse OpenAI response
-			let normalizedData: NormalizedFashionPost[];
-			try {
-				// Remove markdown code blocks if present
-				const cleanedResponse = responseContent
-					.replace(/```json\n?/g, '')
-					.replace(/```\n?/g, '')
-					.trim();
-
-				normalizedData = JSON.parse(cleanedResponse);
-				logger.info(`Successfully parsed ${normalizedData.length} normalized posts`);
-			} catch (parseError) {
-				logger.error('Failed to parse OpenAI response:', parseError);
-				logger.error('Response content:', responseContent);
-				throw new Error('Failed to parse OpenAI response as JSON');
+			// Cache per article, so later runs hit whatever batch it lands in
+			for (const post of result.posts) {
+				const source = batch.find(item => item.sourceUrl === post.Link);
+				if (source) {
+					await LlmCacheService.set(cacheKeys.get(source)!, { purpose: 'NORMALIZE', model, promptVersion: prompt.label }, JSON.stringify(post));
+				}
 			}
 
-			return normalizedData;
+			return result;
+		});
 
-		} catch (error: any) {
+		if (batches.length > 0 && run.failures.length === batches.length && cachedCount === 0) {
+			const error = run.failures.find(failure => failure instanceof LlmBudgetExceededError) || run.failures[0];
 			logger.error('AI normalization failed:', error);
 			throw error;
 		}
+
+		// Map outputs back to their scraped articles
+		const { matched, unmatched } = NormalizationBatcher.match(scrapedData, new Map([...cachedPosts, ...run.accepted]), run.rejected, run.failed);
+		const items: NormalizedItem[] = matched.map(({ post, source }) => ({
+			post,
+			source,
+			usageIds: run.usageByLink.get(post.Link) || [],
+			promptVersionId: prompts.get(source)!.id,
+		}));
+
+		for (const item of unmatched) {
+			logger.warn(`⚠️  No normalized post for ${item.source.sourceUrl || item.source.platformPostId}: ${item.reason}`);
+		}
+		logger.info(`Successfully normalized ${items.length}/${scrapedData.length} posts (${cachedCount} cached, ${run.rejected.length} rejected, ${unmatched.length} without output, ${run.attempts} request(s))`);
+
+		return {
+			posts: items.map(item => item.post),
+			items,
+			rejected: run.rejected,
+			unmatched,
+			attempts: run.attempts,
+			cached: cachedCount,
+		};
+	}
+
+	/**
+	 * Cached post, re-validated against the current schema
+	 */
+	private static readCachedPost(content: string, source: ScrapedPostData): NormalizedFashionPost | null {
+		try {
+			const links = new Set(source.sourceUrl ? [source.sourceUrl] : []);
+			const { posts } = NormalizationSchema.validate([JSON.parse(content)], links);
+			return posts[0] || null;
+		} catch {
+			return null;
+		}
 	}
 
 	/**
@@ -147,10 +217,11 @@ export class NormalizationService {
 	}
 
 	/**
-	 * Save normalized data to blogs table in MySQL
+	 * Save normalized data to blogs table in MySQL, with the prompt version
+	 * and normalized post behind each blog (by link)
 	 * Returns the count of actually saved records
 	 */
-	static async saveToBlogsTable(data: NormalizedFashionPost[]): Promise<number> {
+	static async saveToBlogsTable(data: NormalizedFashionPost[], links: Map<string, BlogLinks> = new Map()): Promise<number> {
 		try {
 			logger.info(`Attempting to save ${data.length} normalized posts to blogs table...`);
 
@@ -167,35 +238,28 @@ export class NormalizationService {
 						continue;
 					}
 
-					// Check if blog with same link already exists (duplicate prevention)
-					const existing = await prisma.$queryRaw<any[]>`
-						SELECT id FROM blogs WHERE link = ${post.Link} LIMIT 1
-					`;
-
-					if (existing.length > 0) {
+					// Blogs with the same link are skipped (duplicate prevention)
+					const blog = await BlogService.publishDraft({
+						platform: post.Platform || 'UNKNOWN',
+						title: post.Title,
+						description: post.Description || '',
+						aiInsight: post.AI_Insight || '',
+						image: post.Image || '',
+						link: post.Link,
+						hashtags: post.Hashtags,
+						keywords: post.Keywords,
+						promptVersionId: links.get(post.Link)?.promptVersionId,
+						normalizedPostId: links.get(post.Link)?.normalizedPostId,
+					});
+
+					if (!blog) {
 						logger.info(`⏭️  Skipped duplicate: "${post.Title}" (URL already exists)`);
 						skippedCount++;
 						continue;
 					}
 
-					// Insert new blog
-					const result = await prisma.$executeRaw`
-						INSERT INTO blogs (platform, title, description, ai_insight, image, link, approved)
-						VALUES (
-							${post.Platform || 'UNKNOWN'},
-							${post.Title},
-							${post.Description || ''},
-							${post.AI_Insight || ''},
-							${post.Image || ''},
-							${post.Link},
-							0
-						)
-					`;
-
-					if (result > 0) {
-						savedCount++;
-						logger.info(`✅ Saved: "${post.Title}" (${post.Platform})`);
-					}
+					savedCount++;
+					logger.info(`✅ Saved: "${post.Title}" (${post.Platform})`);
 				} catch (error: any) {
 					errorCount++;
 					logger.error(`❌ Failed to save "${post.Title}":`, error.message);
@@ -211,7 +275,52 @@ export class NormalizationService {
 	}
 
 	/**
-	 * Process all unprocessed scraped posts (Legacy Database Method)
+	 * Store AI-normalized posts as normalized_posts (hashtags and keywords
+	 * from the model) and mark their scraped articles processed
+	 * Returns normalized post ids by link
+	 */
+	static async saveNormalizedItems(items: NormalizedItem[], scrapedPostIds: Map<string, string>): Promise<Map<string, string>> {
+		const ids = new Map<string, string>();
+
+		for (const { post, source } of items) {
+			const scrapedPostId = scrapedPostIds.get(source.platformPostId);
+			if (!scrapedPostId) {
+				logger.warn(`⚠️  No stored article for "${post.Title}", normalized post not saved`);
+				continue;
+			}
+
+			try {
+				const cleanedText = this.cleanText(source.rawContent?.article?.bodyText || source.text || post.Description);
+				const data = this.buildNormalizedPost(
+					source,
+					cleanedText,
+					[...new Set(post.Hashtags.map(tag => tag.toLowerCase()))],
+					[...new Set(post.Keywords.map(keyword => keyword.toLowerCase()))],
+				);
+
+				const normalized = await prisma.normalizedPost.upsert({
+					where: { scrapedPostId },
+					create: { scrapedPostId, ...data },
+					update: data,
+					select: { id: true },
+				});
+				await prisma.scrapedPost.update({
+					where: { id: scrapedPostId },
+					data: { isProcessed: true, processedAt: new Date() },
+				});
+
+				ids.set(post.Link, normalized.id);
+			} catch (error: any) {
+				logger.error(`❌ Failed to save normalized post "${post.Title}": ${error.message}`);
+			}
+		}
+
+		return ids;
+	}
+
+	/**
+	 * Process all unprocessed scraped posts with rule-based normalization
+	 * (articles the AI step has not handled, e.g. backfills)
 	 */
 	static async processAll() {
 		const unprocessed = await prisma.scrapedPost.findMany({
@@ -249,7 +358,8 @@ export class NormalizationService {
 	 */
 	static async normalizePost(scrapedPost: any) {
 		// Clean text
-		const cleanedText = this.cleanText(scrapedPost.text);
+		// Prefer the full article body from the detail crawl over the listing teaser
+		const cleanedText = this.cleanText(scrapedPost.rawContent?.article?.bodyText || scrapedPost.text);
 
 		// Extract hashtags
 		const hashtags = this.extractHashtags(cleanedText);
@@ -257,41 +367,42 @@ export class NormalizationService {
 		// Extract keywords
 		const keywords = this.extractKeywords(cleanedText);
 
-		// Extract mentions
-		const mentions = this.extractMentions(cleanedText);
-
-		// Calculate scores
-		const viralityScore = this.calculateViralityScore(scrapedPost);
-		const relevanceScore = this.calculateRelevanceScore(cleanedText, hashtags, keywords);
-		const qualityScore = this.calculateQualityScore(scrapedPost, cleanedText);
-
 		// Create normalized post
 		const normalizedPost = await prisma.normalizedPost.create({
 			data: {
 				scrapedPostId: scrapedPost.id,
-				platform: scrapedPost.platform,
-				author: scrapedPost.author,
-				authorHandle: scrapedPost.authorHandle,
-				authorUrl: this.getAuthorUrl(scrapedPost.platform, scrapedPost.authorHandle),
-				cleanedText,
-				hashtags,
-				keywords,
-				mentions,
-				mediaUrls: scrapedPost.mediaUrls,
-				postedAt: scrapedPost.postedAt,
-				likesCount: scrapedPost.likes,
-				commentsCount: scrapedPost.comments,
-				sharesCount: scrapedPost.shares,
-				viewsCount: scrapedPost.views,
-				viralityScore,
-				relevanceScore,
-				qualityScore,
+				...this.buildNormalizedPost(scrapedPost, cleanedText, hashtags, keywords),
 			},
 		});
 
 		return normalizedPost;
 	}
 
+	/**
+	 * Normalized post fields (with scores) for a scraped article, stored or not
+	 */
+	private static buildNormalizedPost(scrapedPost: any, cleanedText: string, hashtags: string[], keywords: string[]) {
+		return {
+			platform: scrapedPost.platform as SocialPlatform,
+			author: scrapedPost.author,
+			authorHandle: scrapedPost.authorHandle,
+			authorUrl: this.getAuthorUrl(scrapedPost.platform, scrapedPost.authorHandle),
+			cleanedText,
+			hashtags,
+			keywords,
+			mentions: this.extractMentions(cleanedText),
+			mediaUrls: scrapedPost.mediaUrls || [],
+			postedAt: scrapedPost.postedAt,
+			likesCount: scrapedPost.likes,
+			commentsCount: scrapedPost.comments,
+			sharesCount: scrapedPost.shares,
+			viewsCount: scrapedPost.views,
+			viralityScore: this.calculateViralityScore(scrapedPost),
+			relevanceScore: this.calculateRelevanceScore(cleanedText, hashtags, keywords),
+			qualityScore: this.calculateQualityScore(scrapedPost, cleanedText),
+		};
+	}
+
 	/**
 	 * Clean text content
 	 */
@@ -0,0 +1,181 @@
+import crypto from 'crypto';
+import os from 'os';
+import { Prisma, PipelineLock } from '@prisma/client';
+import prisma from '../database/client';
+import { config } from '../config';
+import { HttpError } from '../utils/http-error';
+import { logger } from '../utils/logger';
+
+/**
+ * Name of the lock shared by every scraping pipeline entry point
+ */
+export const SCRAPING_PIPELINE_LOCK = 'scraping-pipeline';
+
+/**
+ * Thrown when a pipeline run is requested while another one holds the lock
+ * (409 Conflict)
+ */
+export class PipelineLockedError extends HttpError {
+	constructor(readonly holder: PipelineLock | null) {
+		super(409, holder?.jobId
+			? `A scraping pipeline is already in progress (job ${holder.jobId})`
+			: 'A scraping pipeline is already in progress');
+		this.name = 'PipelineLockedError';
+	}
+}
+
+/**
+ * An acquired lease. Renewed in the background until released.
+ */
+export class PipelineLease {
+	private heartbeat: NodeJS.Timeout | null = null;
+	private released = false;
+
+	constructor(
+		readonly name: string,
+		readonly owner: string,
+		private readonly ttlMs: number,
+	) {
+		// Renew well before expiry so a live run never loses its lease
+		this.heartbeat = setInterval(() => {
+			this.renew().catch(error => logger.error(`Failed to renew lock ${this.name}:`, error));
+		}, Math.max(1000, Math.floor(ttlMs / 3)));
+		this.heartbeat.unref();
+	}
+
+	/**
+	 * Attach the job id running under this lease (shown in 409 responses)
+	 */
+	async setJob(jobId: string): Promise<void> {
+		await prisma.pipelineLock.updateMany({
+			where: { name: this.name, owner: this.owner },
+			data: { jobId },
+		});
+	}
+
+	/**
+	 * Push the expiry forward. Returns false if the lease was lost
+	 * (expired and taken over by another process).
+	 */
+	async renew(): Promise<boolean> {
+		if (this.released) {
+			return false;
+		}
+
+		const result = await prisma.pipelineLock.updateMany({
+			where: { name: this.name, owner: this.owner },
+			data: { expiresAt: new Date(Date.now() + this.ttlMs) },
+		});
+
+		if (result.count === 0) {
+			logger.error(`🔒 Lost lock ${this.name} (owner ${this.owner})`);
+			this.stopHeartbeat();
+			return false;
+		}
+
+		return true;
+	}
+
+	/**
+	 * Release the lease (idempotent)
+	 */
+	async release(): Promise<void> {
+		if (this.released) {
+			return;
+		}
+
+		this.released = true;
+		this.stopHeartbeat();
+
+		try {
+			await prisma.pipelineLock.deleteMany({
+				where: { name: this.name, owner: this.owner },
+			});
+			logger.info(`🔓 Released lock ${this.name}`);
+		} catch (error) {
+			// The lease simply expires if it cannot be deleted
+			logger.error(`Failed to release lock ${this.name}:`, error);
+		}
+	}
+
+	private stopHeartbeat(): void {
+		if (this.heartbeat) {
+			clearInterval(this.heartbeat);
+			this.heartbeat = null;
+		}
+	}
+}
+
+/**
+ * Pipeline Lock Service
+ * Database-backed lease so only one scraping pipeline runs at a time,
+ * across all server processes
+ */
+export class PipelineLockService {
+	// Identifies this process as a lock owner
+	private static readonly owner = `${os.hostname()}:${process.pid}:${crypto.randomUUID()}`;
+
+	/**
+	 * Try to acquire a lock. Returns null when another live owner holds it.
+	 * A lock whose lease has expired (crashed process) is taken over.
+	 */
+	static async tryAcquire(name: string = SCRAPING_PIPELINE_LOCK, ttlMs: number = this.defaultTtlMs()): Promise<PipelineLease | null> {
+		const now = new Date();
+		const expiresAt = new Date(now.getTime() + ttlMs);
+
+		try {
+			await prisma.pipelineLock.create({
+				data: { name, owner: this.owner, acquiredAt: now, expiresAt },
+			});
+			logger.info(`🔒 Acquired lock ${name}`);
+			return new PipelineLease(name, this.owner, ttlMs);
+		} catch (error) {
+			if (!(error instanceof Prisma.PrismaClientKnownRequestError) || error.code !== 'P2002') {
+				throw error;
+			}
+		}
+
+		// Lock row exists: take it over only if its lease has expired
+		const takeover = await prisma.pipelineLock.updateMany({
+			where: { name, expiresAt: { lt: now } },
+			data: { owner: this.owner, jobId: null, acquiredAt: now, expiresAt },
+		});
+
+		if (takeover.count === 1) {
+			logger.warn(`🔒 Took over expired lock ${name}`);
+			return new PipelineLease(name, this.owner, ttlMs);
+		}
+
+		return null;
+	}
+
+	/**
+	 * Acquire a lock or throw PipelineLockedError
+	 */
+	static async acquire(name: string = SCRAPING_PIPELINE_LOCK, ttlMs?: number): Promise<PipelineLease> {
+		const lease = await this.tryAcquire(name, ttlMs);
+
+		if (!lease) {
+			throw new PipelineLockedError(await this.getHolder(name));
+		}
+
+		return lease;
+	}
+
+	/**
+	 * Current holder of a lock (null when free or expired)
+	 */
+	static async getHolder(name: string = SCRAPING_PIPELINE_LOCK): Promise<PipelineLock | null> {
+		const lock = await prisma.pipelineLock.findUnique({ where: { name } });
+
+		if (!lock || lock.expiresAt < new Date()) {
+			return null;
+		}
+
+		return lock;
+	}
+
+	private static defaultTtlMs(): number {
+		return config.scraping.lockTtlMinutes * 60 * 1000;
+	}
+}
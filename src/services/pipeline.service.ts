@@ -0,0 +1,383 @@
+import { ScrapedPostData, ScrapingConditions, SourceDefinition } from '../sources/base.source';
+import { sourceRegistry } from '../sources/source.registry';
+import { FeedSource } from '../sources/feed.source';
+import { ScrapingService } from './scraping.service';
+import { NormalizationContext, NormalizationResult, NormalizationService } from './normalization.service';
+import { NormalizationRejection } from './normalization.schema';
+import { ClusteringService } from './clustering.service';
+import { ContentService } from './content.service';
+import { AIInsightService } from './ai-insight.service';
+import {
+	JobCancelledError,
+	JobTrigger,
+	ScrapingJobService,
+	ScrapingJobTracker,
+	throwIfCancelled,
+} from './scraping-job.service';
+import { PipelineLease, PipelineLockService } from './pipeline-lock.service';
+import { SourceCursorService } from './source-cursor.service';
+import { LlmBudgetExceededError, LlmUsageService } from './llm-usage.service';
+import { logger } from '../utils/logger';
+
+/**
+ * Conditions used by the manual "scrape fashion blogs" triggers
+ * (merged over each source's own defaults)
+ */
+export const MANUAL_SCRAPE_CONDITIONS: ScrapingConditions = {
+	keywords: ['fashion', 'style', 'runway', 'designer'],
+	maxResults: 10,
+	pageTimeout: 90000,
+};
+
+export interface SourceRunResult {
+	sourceId: string;
+	displayName: string;
+	scraped: number;
+	// Already known to the source cursor (not normalized again)
+	skipped: number;
+	normalized: number;
+	// Normalized items that failed schema validation
+	rejected: number;
+	rejections: NormalizationRejection[];
+	// Scraped articles that produced no valid normalized post
+	unmatched: number;
+	saved: number;
+}
+
+export interface BlogPipelineResult {
+	jobId: string;
+	scraped: number;
+	skipped: number;
+	normalized: number;
+	rejected: number;
+	unmatched: number;
+	saved: number;
+	// Normalization skipped for some sources: daily LLM budget spent
+	aiPaused: boolean;
+	sources: SourceRunResult[];
+}
+
+export interface BlogPipelineOptions {
+	// Registered source ids to run (defaults to all scheduled sources)
+	sourceIds?: string[];
+	// Per-run overrides merged over each source's default conditions
+	conditions?: ScrapingConditions;
+	// Ignore source cursors and process every scraped article again
+	fullBackfill?: boolean;
+	// Ask the model again instead of reusing cached normalizations
+	bypassCache?: boolean;
+	// What started the run (recorded on the ScrapingJob)
+	trigger?: JobTrigger;
+	// Job created up front (e.g. by the pipeline runner); created here when omitted
+	tracker?: ScrapingJobTracker;
+	// Pipeline lock already held by the caller; acquired here when omitted
+	lease?: PipelineLease;
+	// Aborted when the job is cancelled
+	signal?: AbortSignal;
+}
+
+/**
+ * Options of the scrape → store → normalize → publish step shared by both
+ * pipelines
+ */
+type PublishOptions = Pick<BlogPipelineOptions, 'conditions' | 'fullBackfill' | 'bypassCache' | 'signal'>;
+
+export interface TrendPipelineResult {
+	jobId: string;
+	scraped: number;
+	// Normalized posts (AI and rule-based)
+	processed: number;
+	// Blogs published
+	saved: number;
+	clusters: number;
+	aiPaused: boolean;
+}
+
+export interface TrendPipelineOptions {
+	trigger?: JobTrigger;
+	// Ask the model again instead of reusing cached normalizations and insights
+	bypassCache?: boolean;
+	tracker?: ScrapingJobTracker;
+	lease?: PipelineLease;
+	signal?: AbortSignal;
+}
+
+/**
+ * Pipeline Service
+ * Runs the blog publishing workflow (scrape → store raw → AI normalize →
+ * publish as blogs) and the trend workflow, which publishes the same way
+ * and then clusters the normalized posts and writes trend insights.
+ * Every run is recorded as a ScrapingJob.
+ */
+export class PipelineService {
+	/**
+	 * Create the PENDING job for a blog pipeline run
+	 */
+	static async createBlogJob(options: BlogPipelineOptions = {}): Promise<ScrapingJobTracker> {
+		return ScrapingJobService.create({
+			pipeline: 'blogs',
+			trigger: options.trigger || 'admin',
+			sources: sourceRegistry.resolve(options.sourceIds),
+		});
+	}
+
+	/**
+	 * Create the PENDING job for a trend pipeline run
+	 */
+	static async createTrendJob(trigger: JobTrigger): Promise<ScrapingJobTracker> {
+		return ScrapingJobService.create({
+			pipeline: 'trends',
+			trigger,
+			sources: sourceRegistry.listScheduled(),
+		});
+	}
+
+	/**
+	 * Scrape, normalize and save blogs for the selected sources
+	 */
+	static async runBlogPipeline(options: BlogPipelineOptions = {}): Promise<BlogPipelineResult> {
+		return this.withLease(options.lease, async lease => {
+			const tracker = options.tracker || await this.createBlogJob(options);
+			await lease.setJob(tracker.jobId);
+			return this.executeBlogPipeline(options, tracker);
+		});
+	}
+
+	/**
+	 * Run the trend pipeline (publish → normalize the rest → cluster → AI insights)
+	 * Used by the cron scheduler and the manual admin trigger
+	 */
+	static async runTrendPipeline(options: TrendPipelineOptions = {}): Promise<TrendPipelineResult> {
+		return this.withLease(options.lease, async lease => {
+			const tracker = options.tracker || await this.createTrendJob(options.trigger || 'admin');
+			await lease.setJob(tracker.jobId);
+			return this.executeTrendPipeline(tracker, options);
+		});
+	}
+
+	/**
+	 * Run with the caller's lease, or acquire (and release) the pipeline lock
+	 * Throws PipelineLockedError when another run holds it
+	 */
+	private static async withLease<T>(lease: PipelineLease | undefined, run: (lease: PipelineLease) => Promise<T>): Promise<T> {
+		if (lease) {
+			return run(lease);
+		}
+
+		const acquired = await PipelineLockService.acquire();
+		try {
+			return await run(acquired);
+		} finally {
+			await acquired.release();
+		}
+	}
+
+	private static async executeBlogPipeline(options: BlogPipelineOptions, tracker: ScrapingJobTracker): Promise<BlogPipelineResult> {
+		const definitions = sourceRegistry.resolve(options.sourceIds);
+
+		logger.info(`🚀 Starting fashion scraping workflow (${definitions.map(d => d.displayName).join(' + ')})`);
+
+		try {
+			await tracker.start();
+			const result = await this.publishSources(definitions, options, tracker);
+
+			await tracker.complete();
+			logger.info(`✅ Fashion scraping completed: ${result.scraped} scraped, ${result.skipped} skipped, ${result.normalized} normalized, ${result.rejected} rejected, ${result.unmatched} without output, ${result.saved} saved`);
+
+			return result;
+		} catch (error) {
+			if (error instanceof JobCancelledError) {
+				await tracker.cancel();
+				throw new JobCancelledError(tracker.jobId);
+			}
+			await tracker.fail(error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Scrape each source, store its new articles raw (scraped_posts),
+	 * normalize them with AI (normalized_posts) and publish them as blogs
+	 * linked to their normalized post
+	 */
+	private static async publishSources(definitions: SourceDefinition[], options: PublishOptions, tracker: ScrapingJobTracker): Promise<BlogPipelineResult> {
+		const { signal } = options;
+
+		const result: BlogPipelineResult = {
+			jobId: tracker.jobId,
+			scraped: 0,
+			skipped: 0,
+			normalized: 0,
+			rejected: 0,
+			unmatched: 0,
+			saved: 0,
+			aiPaused: false,
+			sources: [],
+		};
+
+		for (const definition of definitions) {
+			const sourceResult: SourceRunResult = {
+				sourceId: definition.id,
+				displayName: definition.displayName,
+				scraped: 0,
+				skipped: 0,
+				normalized: 0,
+				rejected: 0,
+				rejections: [],
+				unmatched: 0,
+				saved: 0,
+			};
+
+			try {
+				await tracker.sourceStarted(definition.id);
+
+				const cursor = options.fullBackfill ? null : await SourceCursorService.get(definition.id);
+				const conditions = SourceCursorService.applyToConditions(cursor, options.conditions);
+
+				logger.info(`📰 Scraping ${definition.displayName}...`);
+				const scraped = await ScrapingService.scrapeSource(definition.id, conditions, signal);
+				sourceResult.scraped = scraped.length;
+				logger.info(`✅ ${definition.displayName}: Scraped ${scraped.length} posts`);
+
+				// Skip articles seen by earlier runs before paying for normalization
+				const { fresh: posts, skipped } = await SourceCursorService.filterNew(cursor, scraped);
+				sourceResult.skipped = skipped;
+				await tracker.sourceProgress(definition.id, { scraped: scraped.length, skipped });
+				if (skipped > 0) {
+					logger.info(`⏭️  ${definition.displayName}: Skipped ${skipped} already known posts`);
+				}
+
+				throwIfCancelled(signal);
+				const scrapedPostIds = await ContentService.storeScraped(posts);
+
+				const normalization = posts.length > 0 ? await this.normalizeUnlessPaused(definition, posts, {
+					jobId: tracker.jobId,
+					sourceId: definition.id,
+					bypassCache: options.bypassCache,
+				}) : null;
+				if (posts.length > 0 && !normalization) {
+					result.aiPaused = true;
+				}
+				// Nothing new, or every new article processed (no batch left to retry)
+				let processed = posts.length === 0;
+
+				if (normalization) {
+					const { posts: normalized, items, rejected, unmatched } = normalization;
+					sourceResult.normalized = normalized.length;
+					sourceResult.rejected = rejected.length;
+					sourceResult.rejections = rejected;
+					sourceResult.unmatched = unmatched.length;
+					await tracker.sourceProgress(definition.id, { normalized: normalized.length, rejected: rejected.length });
+					logger.info(`✅ ${definition.displayName}: Normalized ${normalized.length} posts (${rejected.length} rejected)`);
+
+					throwIfCancelled(signal);
+					logger.info(`💾 Saving ${definition.displayName} posts to database...`);
+					const normalizedPostIds = await NormalizationService.saveNormalizedItems(items, scrapedPostIds);
+					sourceResult.saved = await NormalizationService.saveToBlogsTable(normalized, new Map(items.map(item => [item.post.Link, {
+						promptVersionId: item.promptVersionId,
+						normalizedPostId: normalizedPostIds.get(item.post.Link),
+					}])));
+					await tracker.sourceProgress(definition.id, { saved: sourceResult.saved });
+					logger.info(`✅ ${definition.displayName}: Saved ${sourceResult.saved} posts to database`);
+					await LlmUsageService.linkBlogs(items.map(item => ({ link: item.post.Link, usageIds: item.usageIds })));
+
+					// Articles whose batch failed stay unseen so the next run retries them
+					const retry = new Set(unmatched.filter(item => item.retryable).map(item => item.source));
+					await SourceCursorService.advance(definition.id, posts.filter(post => !retry.has(post)));
+					processed = retry.size === 0;
+				}
+
+				// Feeds answer 304 to the next run once their validators are kept
+				if (processed && definition.id === 'feed') {
+					FeedSource.commitValidators();
+				}
+
+				await tracker.sourceCompleted(definition.id);
+			} catch (error) {
+				if (!(error instanceof JobCancelledError)) {
+					await tracker.sourceFailed(definition.id, error);
+				}
+				throw error;
+			}
+
+			result.scraped += sourceResult.scraped;
+			result.skipped += sourceResult.skipped;
+			result.normalized += sourceResult.normalized;
+			result.rejected += sourceResult.rejected;
+			result.unmatched += sourceResult.unmatched;
+			result.saved += sourceResult.saved;
+			result.sources.push(sourceResult);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Normalize a source's new posts, or null when the daily LLM budget is
+	 * spent (the posts stay unseen and are picked up by a later run)
+	 */
+	private static async normalizeUnlessPaused(definition: SourceDefinition, posts: ScrapedPostData[], context: NormalizationContext): Promise<NormalizationResult | null> {
+		if (await LlmUsageService.isPaused()) {
+			logger.warn(`⏸️  ${definition.displayName}: daily LLM budget reached, ${posts.length} posts left for a later run`);
+			return null;
+		}
+
+		try {
+			logger.info(`🤖 Normalizing ${definition.displayName} posts with AI...`);
+			return await NormalizationService.normalizeWithAI(posts, definition.platform, context);
+		} catch (error) {
+			if (error instanceof LlmBudgetExceededError) {
+				logger.warn(`⏸️  ${definition.displayName}: ${error.message}; ${posts.length} posts left for a later run`);
+				return null;
+			}
+			throw error;
+		}
+	}
+
+	private static async executeTrendPipeline(tracker: ScrapingJobTracker, options: TrendPipelineOptions): Promise<TrendPipelineResult> {
+		const { signal } = options;
+
+		try {
+			await tracker.start();
+
+			// Step 1: Scrape, store, AI-normalize and publish every scheduled source
+			logger.info('📥 Step 1/4: Scraping and publishing posts');
+			const published = await this.publishSources(sourceRegistry.listScheduled(), options, tracker);
+
+			// Step 2: Rule-based normalization for stored articles the AI step left (backfills, paused budget)
+			throwIfCancelled(signal);
+			logger.info('🧹 Step 2/4: Normalizing remaining posts');
+			const processed = await NormalizationService.processAll();
+			await tracker.processed(published.normalized + processed.length);
+
+			// Step 3: Cluster posts
+			throwIfCancelled(signal);
+			logger.info('🔗 Step 3/4: Clustering posts');
+			const clusters = await ClusteringService.clusterAll();
+			await ClusteringService.calculateGrowthRates();
+
+			// Step 4: Generate AI insights
+			throwIfCancelled(signal);
+			logger.info('🤖 Step 4/4: Generating AI insights');
+			await AIInsightService.generateAllInsights({ jobId: tracker.jobId, bypassCache: options.bypassCache });
+
+			await tracker.complete();
+
+			return {
+				jobId: tracker.jobId,
+				scraped: published.scraped,
+				processed: published.normalized + processed.length,
+				saved: published.saved,
+				clusters: clusters.length,
+				aiPaused: published.aiPaused,
+			};
+		} catch (error) {
+			if (error instanceof JobCancelledError) {
+				await tracker.cancel();
+				throw new JobCancelledError(tracker.jobId);
+			}
+			await tracker.fail(error);
+			throw error;
+		}
+	}
+}
@@ -0,0 +1,399 @@
+import crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Prisma, PromptVersion } from '@prisma/client';
+import prisma from '../database/client';
+import { PROMPT_NAMES, PromptName, PromptTemplate } from './prompt.template';
+import { HttpError } from '../utils/http-error';
+import { logger } from '../utils/logger';
+
+// Stored prompts are re-read at most this often (admin changes clear it at once)
+const CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Prompt version a request runs with
+ */
+export interface ResolvedPrompt {
+	// null when the database was unavailable and the seed is used
+	id: string | null;
+	name: PromptName;
+	version: number;
+	system: string;
+	template: string;
+	// Changes with the prompt text; used as the LLM cache prompt version
+	label: string;
+}
+
+export interface NewPromptVersion {
+	template: string;
+	// Defaults to the active version's system prompt
+	system?: string;
+	notes?: string;
+	// Make it the active version right away
+	activate?: boolean;
+}
+
+/**
+ * Engagement of the blogs (and clusters) produced by one prompt version
+ */
+export interface PromptVersionStats {
+	version: number;
+	status: string;
+	trafficPercent: number;
+	blogs: number;
+	approved: number;
+	likes: number;
+	comments: number;
+	likesPerBlog: number;
+	commentsPerBlog: number;
+	clusters: number;
+}
+
+interface PromptSet {
+	active: ResolvedPrompt;
+	variant: ResolvedPrompt | null;
+	trafficPercent: number;
+	loadedAt: number;
+}
+
+/**
+ * Thrown for prompt edits that can never apply (unknown prompt or version,
+ * bad placeholders)
+ */
+export class PromptRequestError extends HttpError {
+	constructor(message: string, statusCode: number = 400) {
+		super(statusCode, message);
+		this.name = 'PromptRequestError';
+	}
+}
+
+/**
+ * Prompt text shipped with the code; becomes version 1 of each prompt
+ */
+function seedFor(name: PromptName): { system: string; template: string } {
+	switch (name) {
+		case 'normalize':
+			return {
+				system: 'You are a fashion industry expert specializing in trend analysis and content curation. You normalize and enrich fashion article data with insightful commentary. Always return valid JSON array format without markdown formatting.',
+				template: fs.readFileSync(path.join(__dirname, '../../prompts/fashion-prompt.txt'), 'utf-8'),
+			};
+		case 'insight':
+			return {
+				system: [
+					'You are a fashion trend analyst. Generate concise, engaging trend insights for a fashion blog.',
+					'Your insights should be 1-2 sentences, highlighting what makes this trend notable and why it\'s gaining traction.',
+					'Be specific, mention key elements, and sound authoritative but approachable.',
+				].join('\n'),
+				template: [
+					'Generate a trend insight for this fashion trend cluster:',
+					'',
+					'Common Hashtags: {{hashtags}}',
+					'Common Keywords: {{keywords}}',
+					'Trend Score: {{trendScore}}/100',
+					'Growth: {{growth}}%',
+					'',
+					'Sample Posts:',
+					'{{posts}}',
+					'',
+					'Provide:',
+					'1. A catchy trend title (max 6 words)',
+					'2. A brief insight (1-2 sentences explaining the trend)',
+					'',
+					'Format as JSON:',
+					'{',
+					'  "title": "trend title here",',
+					'  "insight": "trend insight here"',
+					'}',
+				].join('\n'),
+			};
+		case 'sentiment':
+			return {
+				system: 'Analyze the overall sentiment of these fashion posts. Respond with: positive, negative, or neutral.',
+				template: '{{posts}}',
+			};
+	}
+}
+
+/**
+ * Prompt Service
+ * Prompts are stored as immutable versions (prompt_versions), seeded from
+ * the text shipped with the code. Admins add versions, pick the active one
+ * and can route a share of traffic to a variant; whatever is generated
+ * records the version that produced it so the variants can be compared.
+ */
+export class PromptService {
+	private static cache = new Map<PromptName, PromptSet>();
+
+	/**
+	 * Version to use for an item: the variant when the key's bucket falls in
+	 * its traffic share, else the active version
+	 */
+	static async select(name: PromptName, assignmentKey: string): Promise<ResolvedPrompt> {
+		const set = await this.load(name);
+
+		if (set.variant && PromptTemplate.bucket(name, assignmentKey) < set.trafficPercent) {
+			return set.variant;
+		}
+		return set.active;
+	}
+
+	static async active(name: PromptName): Promise<ResolvedPrompt> {
+		return (await this.load(name)).active;
+	}
+
+	/**
+	 * Active version and variant of every prompt
+	 */
+	static async list() {
+		return Promise.all(PROMPT_NAMES.map(async name => {
+			const set = await this.load(name);
+			return {
+				name,
+				active: set.active,
+				variant: set.variant ? { ...set.variant, trafficPercent: set.trafficPercent } : null,
+				versions: await prisma.promptVersion.count({ where: { name } }),
+			};
+		}));
+	}
+
+	/**
+	 * Every version of a prompt, newest first
+	 */
+	static async history(name: PromptName): Promise<PromptVersion[]> {
+		await this.ensureSeeded(name);
+		return prisma.promptVersion.findMany({ where: { name }, orderBy: { version: 'desc' } });
+	}
+
+	/**
+	 * Store an edited prompt as the next version
+	 */
+	static async createVersion(name: PromptName, input: NewPromptVersion, createdBy?: number): Promise<PromptVersion> {
+		const problems = PromptTemplate.validate(name, input.template);
+		if (problems.length > 0) {
+			throw new PromptRequestError(`Invalid ${name} template: ${problems.join('; ')}`);
+		}
+
+		const active = await this.active(name);
+		const latest = await prisma.promptVersion.findFirst({ where: { name }, orderBy: { version: 'desc' } });
+
+		const created = await prisma.promptVersion.create({
+			data: {
+				name,
+				version: (latest?.version || 0) + 1,
+				system: input.system?.trim() || active.system,
+				template: input.template,
+				notes: input.notes,
+				createdBy,
+			},
+		});
+
+		logger.info(`📝 Created ${name} prompt v${created.version}`);
+		return input.activate ? this.activate(name, created.version) : created;
+	}
+
+	/**
+	 * Make a version the active one; any variant split ends
+	 */
+	static async activate(name: PromptName, version: number): Promise<PromptVersion> {
+		const target = await this.find(name, version);
+
+		const [, , activated] = await prisma.$transaction([
+			prisma.promptVersion.updateMany({
+				where: { name, status: 'ACTIVE' },
+				data: { status: 'INACTIVE' },
+			}),
+			prisma.promptVersion.updateMany({
+				where: { name, status: 'VARIANT' },
+				data: { status: 'INACTIVE', trafficPercent: 0 },
+			}),
+			prisma.promptVersion.update({
+				where: { id: target.id },
+				data: { status: 'ACTIVE', trafficPercent: 0 },
+			}),
+		]);
+
+		this.cache.delete(name);
+		logger.info(`✅ ${name} prompt v${version} is now active`);
+		return activated;
+	}
+
+	/**
+	 * Send trafficPercent of requests to a version (replaces the current variant)
+	 */
+	static async setVariant(name: PromptName, version: number, trafficPercent: number): Promise<PromptVersion> {
+		if (!Number.isInteger(trafficPercent) || trafficPercent < 1 || trafficPercent > 99) {
+			throw new PromptRequestError('trafficPercent must be an integer between 1 and 99');
+		}
+
+		const target = await this.find(name, version);
+		if (target.status === 'ACTIVE') {
+			throw new PromptRequestError(`${name} v${version} is the active version`, 409);
+		}
+
+		const [, variant] = await prisma.$transaction([
+			prisma.promptVersion.updateMany({
+				where: { name, status: 'VARIANT' },
+				data: { status: 'INACTIVE', trafficPercent: 0 },
+			}),
+			prisma.promptVersion.update({
+				where: { id: target.id },
+				data: { status: 'VARIANT', trafficPercent },
+			}),
+		]);
+
+		this.cache.delete(name);
+		logger.info(`🔀 ${name} prompt v${version} gets ${trafficPercent}% of traffic`);
+		return variant;
+	}
+
+	/**
+	 * End the split; everything uses the active version again
+	 */
+	static async clearVariant(name: PromptName): Promise<boolean> {
+		const { count } = await prisma.promptVersion.updateMany({
+			where: { name, status: 'VARIANT' },
+			data: { status: 'INACTIVE', trafficPercent: 0 },
+		});
+
+		this.cache.delete(name);
+		return count > 0;
+	}
+
+	/**
+	 * Blogs, approvals, likes and comments (and clusters) per version
+	 */
+	static async compare(name: PromptName): Promise<PromptVersionStats[]> {
+		const versions = await this.history(name);
+		const ids = versions.map(version => version.id);
+		if (ids.length === 0) {
+			return [];
+		}
+
+		const [blogRows, clusterRows] = await Promise.all([
+			prisma.$queryRaw<any[]>`
+				SELECT
+					b.prompt_version_id AS promptVersionId,
+					COUNT(*) AS blogs,
+					SUM(b.approved) AS approved,
+					COALESCE(SUM(l.likes), 0) AS likes,
+					COALESCE(SUM(c.comments), 0) AS comments
+				FROM blogs b
+				LEFT JOIN (SELECT blogId, COUNT(*) AS likes FROM blog_likes GROUP BY blogId) l ON l.blogId = b.id
+				LEFT JOIN (SELECT blogId, COUNT(*) AS comments FROM blog_comments GROUP BY blogId) c ON c.blogId = b.id
+				WHERE b.prompt_version_id IN (${Prisma.join(ids)})
+				GROUP BY b.prompt_version_id
+			`,
+			prisma.trendCluster.groupBy({
+				by: ['promptVersionId'],
+				where: { promptVersionId: { in: ids } },
+				_count: { _all: true },
+			}),
+		]);
+
+		const blogsById = new Map(blogRows.map(row => [row.promptVersionId as string, row]));
+		const clustersById = new Map(clusterRows.map(row => [row.promptVersionId, row._count._all]));
+
+		return versions.map(version => {
+			const row = blogsById.get(version.id);
+			const blogs = Number(row?.blogs || 0);
+			const likes = Number(row?.likes || 0);
+			const comments = Number(row?.comments || 0);
+
+			return {
+				version: version.version,
+				status: version.status,
+				trafficPercent: version.trafficPercent,
+				blogs,
+				approved: Number(row?.approved || 0),
+				likes,
+				comments,
+				likesPerBlog: blogs > 0 ? Math.round(likes / blogs * 100) / 100 : 0,
+				commentsPerBlog: blogs > 0 ? Math.round(comments / blogs * 100) / 100 : 0,
+				clusters: clustersById.get(version.id) || 0,
+			};
+		});
+	}
+
+	/**
+	 * Active version and variant, cached for CACHE_TTL_MS. Falls back to the
+	 * seed text when the database cannot be read.
+	 */
+	private static async load(name: PromptName): Promise<PromptSet> {
+		const cached = this.cache.get(name);
+		if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) {
+			return cached;
+		}
+
+		let set: PromptSet;
+		try {
+			await this.ensureSeeded(name);
+			const rows = await prisma.promptVersion.findMany({
+				where: { name, status: { in: ['ACTIVE', 'VARIANT'] } },
+			});
+			const active = rows.find(row => row.status === 'ACTIVE');
+			const variant = rows.find(row => row.status === 'VARIANT');
+
+			set = {
+				active: active ? this.resolve(active) : this.seedPrompt(name),
+				variant: variant ? this.resolve(variant) : null,
+				trafficPercent: variant?.trafficPercent || 0,
+				loadedAt: Date.now(),
+			};
+		} catch (error: any) {
+			logger.warn(`Failed to load ${name} prompt, using the seed: ${error.message}`);
+			set = { active: this.seedPrompt(name), variant: null, trafficPercent: 0, loadedAt: Date.now() };
+		}
+
+		this.cache.set(name, set);
+		return set;
+	}
+
+	/**
+	 * Store the shipped prompt as v1 (active) the first time a prompt is used
+	 */
+	private static async ensureSeeded(name: PromptName): Promise<void> {
+		if (await prisma.promptVersion.count({ where: { name } }) > 0) {
+			return;
+		}
+
+		try {
+			await prisma.promptVersion.create({
+				data: { name, version: 1, ...seedFor(name), notes: 'Seeded from the built-in prompt', status: 'ACTIVE' },
+			});
+			logger.info(`🌱 Seeded ${name} prompt v1`);
+		} catch (error) {
+			// Another process seeded it first
+			if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+				throw error;
+			}
+		}
+	}
+
+	private static async find(name: PromptName, version: number): Promise<PromptVersion> {
+		await this.ensureSeeded(name);
+		const found = await prisma.promptVersion.findUnique({ where: { name_version: { name, version } } });
+
+		if (!found) {
+			throw new PromptRequestError(`${name} prompt v${version} not found`, 404);
+		}
+		return found;
+	}
+
+	private static resolve(row: PromptVersion): ResolvedPrompt {
+		return {
+			id: row.id,
+			name: row.name as PromptName,
+			version: row.version,
+			system: row.system,
+			template: row.template,
+			label: `${row.name}@v${row.version}`,
+		};
+	}
+
+	private static seedPrompt(name: PromptName): ResolvedPrompt {
+		const seed = seedFor(name);
+		const hash = crypto.createHash('sha1').update(`${seed.system}\n${seed.template}`).digest('hex');
+
+		return { id: null, name, version: 1, ...seed, label: `${name}@seed-${hash.substring(0, 12)}` };
+	}
+}
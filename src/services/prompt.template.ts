@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+
+export type PromptName = 'normalize' | 'insight' | 'sentiment';
+
+export const PROMPT_NAMES: PromptName[] = ['normalize', 'insight', 'sentiment'];
+
+type PlaceholderRule = {
+	allowed: string[];
+	required: string[];
+};
+
+/**
+ * {{placeholders}} each prompt's template may use. The normalize template
+ * gets the scraped articles appended when it has no {{articles}}.
+ */
+const PLACEHOLDERS: Record<PromptName, PlaceholderRule> = {
+	normalize: { allowed: ['articles'], required: [] },
+	insight: { allowed: ['hashtags', 'keywords', 'trendScore', 'growth', 'posts'], required: ['posts'] },
+	sentiment: { allowed: ['posts'], required: ['posts'] },
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Prompt Template
+ * Placeholder parsing, validation and rendering for stored prompt versions,
+ * and the hash bucket used to split traffic between variants
+ */
+export class PromptTemplate {
+	static isName(name: string): name is PromptName {
+		return (PROMPT_NAMES as string[]).includes(name);
+	}
+
+	static placeholders(template: string): string[] {
+		return [...new Set(Array.from(template.matchAll(PLACEHOLDER_PATTERN), match => match[1]))];
+	}
+
+	/**
+	 * Problems with a template for the given prompt (empty when valid)
+	 */
+	static validate(name: PromptName, template: string): string[] {
+		const rule = PLACEHOLDERS[name];
+		const used = this.placeholders(template);
+		const problems: string[] = [];
+
+		if (!template.trim()) {
+			problems.push('template is empty');
+		}
+		for (const placeholder of used.filter(item => !rule.allowed.includes(item))) {
+			problems.push(`unknown placeholder {{${placeholder}}} (allowed: ${rule.allowed.map(item => `{{${item}}}`).join(', ')})`);
+		}
+		for (const placeholder of rule.required.filter(item => !used.includes(item))) {
+			problems.push(`missing required placeholder {{${placeholder}}}`);
+		}
+
+		return problems;
+	}
+
+	/**
+	 * Replace {{placeholders}} with their values (unknown ones are left as is)
+	 */
+	static render(template: string, values: Record<string, string | number>): string {
+		return template.replace(PLACEHOLDER_PATTERN, (match, key: string) =>
+			key in values ? String(values[key]) : match);
+	}
+
+	/**
+	 * Stable 0-99 bucket of an assignment key (blog link, cluster id), so the
+	 * same item always lands on the same variant
+	 */
+	static bucket(name: PromptName, key: string): number {
+		const hash = crypto.createHash('sha1').update(`${name}:${key}`).digest();
+		return hash.readUInt32BE(0) % 100;
+	}
+}
@@ -0,0 +1,292 @@
+import { Prisma, ScrapingJob, SocialPlatform } from '@prisma/client';
+import prisma from '../database/client';
+import { SourceDefinition } from '../sources/base.source';
+import { logger } from '../utils/logger';
+
+export type JobPipeline = 'blogs' | 'trends' | 'scrape';
+export type JobTrigger = 'cron' | 'scheduler' | 'admin' | 'api';
+export type SourceProgressStatus = 'PENDING' | 'RUNNING' | 'COMPLETED' | 'FAILED' | 'CANCELLED';
+
+/**
+ * Per-source progress stored in ScrapingJob.metadata.sources
+ */
+export interface SourceProgress {
+	displayName: string;
+	status: SourceProgressStatus;
+	scraped: number;
+	// Known to the source cursor, not normalized again (blog pipeline)
+	skipped?: number;
+	normalized: number;
+	// Normalized items that failed schema validation (blog pipeline)
+	rejected?: number;
+	saved: number;
+	startedAt?: string;
+	completedAt?: string;
+	durationMs?: number;
+	error?: string;
+}
+
+/**
+ * Shape of ScrapingJob.metadata
+ */
+export interface ScrapingJobMetadata {
+	pipeline: JobPipeline;
+	trigger: JobTrigger;
+	sources: Record<string, SourceProgress>;
+	durationMs?: number;
+}
+
+/**
+ * Thrown inside a pipeline once its job has been cancelled
+ */
+export class JobCancelledError extends Error {
+	constructor(jobId?: string) {
+		super(jobId ? `Job ${jobId} was cancelled` : 'Job was cancelled');
+		this.name = 'JobCancelledError';
+	}
+}
+
+/**
+ * Stop a pipeline between steps when its job has been cancelled
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+	if (signal?.aborted) {
+		throw new JobCancelledError();
+	}
+}
+
+export interface CreateJobOptions {
+	pipeline: JobPipeline;
+	trigger: JobTrigger;
+	sources: SourceDefinition[];
+}
+
+/**
+ * Scraping Job Tracker
+ * Moves a single ScrapingJob row through PENDING → RUNNING → COMPLETED/FAILED
+ * and keeps per-source counts and timings in its metadata
+ */
+export class ScrapingJobTracker {
+	private metadata: ScrapingJobMetadata;
+	private startedAt: Date | null = null;
+	private postsScraped = 0;
+	private postsProcessed = 0;
+
+	constructor(readonly jobId: string, metadata: ScrapingJobMetadata) {
+		this.metadata = metadata;
+	}
+
+	/**
+	 * Mark the job as running
+	 */
+	async start(): Promise<void> {
+		this.startedAt = new Date();
+		await this.update({
+			status: 'RUNNING',
+			startedAt: this.startedAt,
+		});
+		logger.info(`📋 Job ${this.jobId} running (${this.metadata.pipeline}, trigger: ${this.metadata.trigger})`);
+	}
+
+	/**
+	 * Mark a source as started
+	 */
+	async sourceStarted(sourceId: string): Promise<void> {
+		const progress = this.getSource(sourceId);
+		progress.status = 'RUNNING';
+		progress.startedAt = new Date().toISOString();
+		await this.update({});
+	}
+
+	/**
+	 * Record counts for a source (can be called several times while it runs)
+	 */
+	async sourceProgress(sourceId: string, counts: Partial<Pick<SourceProgress, 'scraped' | 'skipped' | 'normalized' | 'rejected' | 'saved'>>): Promise<void> {
+		const progress = this.getSource(sourceId);
+
+		if (counts.scraped !== undefined) {
+			this.postsScraped += counts.scraped - progress.scraped;
+			progress.scraped = counts.scraped;
+		}
+		if (counts.normalized !== undefined) {
+			this.postsProcessed += counts.normalized - progress.normalized;
+			progress.normalized = counts.normalized;
+		}
+		if (counts.skipped !== undefined) {
+			progress.skipped = counts.skipped;
+		}
+		if (counts.rejected !== undefined) {
+			progress.rejected = counts.rejected;
+		}
+		if (counts.saved !== undefined) {
+			progress.saved = counts.saved;
+		}
+
+		await this.update({});
+	}
+
+	/**
+	 * Record the job-level processed count for steps that don't run per source
+	 */
+	async processed(count: number): Promise<void> {
+		this.postsProcessed = count;
+		await this.update({});
+	}
+
+	/**
+	 * Mark a source as completed
+	 */
+	async sourceCompleted(sourceId: string): Promise<void> {
+		const progress = this.finishSource(sourceId);
+		progress.status = 'COMPLETED';
+		await this.update({});
+	}
+
+	/**
+	 * Mark a source as failed
+	 */
+	async sourceFailed(sourceId: string, error: unknown): Promise<void> {
+		const progress = this.finishSource(sourceId);
+		progress.status = 'FAILED';
+		progress.error = errorMessage(error);
+		await this.update({});
+	}
+
+	/**
+	 * Mark the whole job as completed
+	 */
+	async complete(): Promise<void> {
+		await this.finish({ status: 'COMPLETED' });
+		logger.info(`📋 Job ${this.jobId} completed: ${this.postsScraped} scraped, ${this.postsProcessed} processed`);
+	}
+
+	/**
+	 * Mark the whole job as failed and attach the error message
+	 */
+	async fail(error: unknown): Promise<void> {
+		await this.finish({ status: 'FAILED', errorMessage: errorMessage(error) });
+		logger.error(`📋 Job ${this.jobId} failed: ${errorMessage(error)}`);
+	}
+
+	/**
+	 * Mark the whole job as cancelled; sources that had not finished are
+	 * marked cancelled too
+	 */
+	async cancel(reason: string = 'Cancelled by admin'): Promise<void> {
+		for (const progress of Object.values(this.metadata.sources)) {
+			if (progress.status === 'PENDING' || progress.status === 'RUNNING') {
+				progress.status = 'CANCELLED';
+			}
+		}
+
+		await this.finish({ status: 'CANCELLED', errorMessage: reason });
+		logger.warn(`📋 Job ${this.jobId} cancelled: ${reason}`);
+	}
+
+	private getSource(sourceId: string): SourceProgress {
+		const progress = this.metadata.sources[sourceId];
+		if (!progress) {
+			throw new Error(`Source "${sourceId}" is not part of job ${this.jobId}`);
+		}
+		return progress;
+	}
+
+	private finishSource(sourceId: string): SourceProgress {
+		const progress = this.getSource(sourceId);
+		const completedAt = new Date();
+		progress.completedAt = completedAt.toISOString();
+		if (progress.startedAt) {
+			progress.durationMs = completedAt.getTime() - new Date(progress.startedAt).getTime();
+		}
+		return progress;
+	}
+
+	private async finish(data: Prisma.ScrapingJobUpdateInput): Promise<void> {
+		const completedAt = new Date();
+		if (this.startedAt) {
+			this.metadata.durationMs = completedAt.getTime() - this.startedAt.getTime();
+		}
+		await this.update({ ...data, completedAt });
+	}
+
+	/**
+	 * Persist the job row. Tracking must never break the pipeline itself,
+	 * so database errors are logged and swallowed.
+	 */
+	private async update(data: Prisma.ScrapingJobUpdateInput): Promise<void> {
+		try {
+			await prisma.scrapingJob.update({
+				where: { id: this.jobId },
+				data: {
+					...data,
+					postsScraped: this.postsScraped,
+					postsProcessed: this.postsProcessed,
+					metadata: this.metadata as unknown as Prisma.InputJsonObject,
+				},
+			});
+		} catch (error) {
+			logger.error(`Failed to update scraping job ${this.jobId}:`, error);
+		}
+	}
+}
+
+/**
+ * Scraping Job Service
+ * Creates ScrapingJob records for pipeline runs
+ */
+export class ScrapingJobService {
+	/**
+	 * Create a PENDING job for a pipeline run and return its tracker
+	 */
+	static async create(options: CreateJobOptions): Promise<ScrapingJobTracker> {
+		const metadata: ScrapingJobMetadata = {
+			pipeline: options.pipeline,
+			trigger: options.trigger,
+			sources: {},
+		};
+
+		for (const definition of options.sources) {
+			metadata.sources[definition.id] = {
+				displayName: definition.displayName,
+				status: 'PENDING',
+				scraped: 0,
+				normalized: 0,
+				saved: 0,
+			};
+		}
+
+		const job = await prisma.scrapingJob.create({
+			data: {
+				platform: this.platformFor(options.sources),
+				status: 'PENDING',
+				metadata: metadata as unknown as Prisma.InputJsonObject,
+			},
+		});
+
+		logger.info(`📋 Created scraping job ${job.id} (${options.pipeline}, ${options.sources.length} source(s))`);
+
+		return new ScrapingJobTracker(job.id, metadata);
+	}
+
+	/**
+	 * Get a job by id
+	 */
+	static async get(jobId: string): Promise<ScrapingJob | null> {
+		return prisma.scrapingJob.findUnique({ where: { id: jobId } });
+	}
+
+	/**
+	 * Single-source runs are tagged with that source's platform
+	 */
+	private static platformFor(sources: SourceDefinition[]): SocialPlatform | null {
+		const platforms = new Set(sources.map(definition => definition.platform));
+		if (platforms.size !== 1) {
+			return null;
+		}
+		return [...platforms][0] as SocialPlatform;
+	}
+}
+
+function errorMessage(error: unknown): string {
+	return error instanceof Error ? error.message : String(error);
+}
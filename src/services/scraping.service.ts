@@ -1,6 +1,14 @@
-import { ElleSource } from '../sources/elle.source';
-import { HarperSource } from '../sources/harper.source';
 import { ScrapingConditions, ScrapedPostData } from '../sources/base.source';
+import { sourceRegistry } from '../sources/source.registry';
+import {
+	JobCancelledError,
+	JobTrigger,
+	ScrapingJobService,
+	ScrapingJobTracker,
+	throwIfCancelled,
+} from './scraping-job.service';
+import { PipelineLockedError, PipelineLockService } from './pipeline-lock.service';
+import { ContentService } from './content.service';
 import { logger } from '../utils/logger';
 
 /**
@@ -9,14 +17,11 @@ import { logger } from '../utils/logger';
  * Starts async when server runs and can be stopped/restarted
  */
 export class ScrapingService {
-	private elleSource: ElleSource;
 	private isRunning: boolean = false;
 	private scrapingInterval: NodeJS.Timeout | null = null;
 	private defaultConditions: ScrapingConditions;
 
 	constructor() {
-		this.elleSource = new ElleSource();
-
 		// Default fashion-focused scraping conditions
 		this.defaultConditions = {
 			hashtags: ['fashion'],
@@ -84,9 +89,6 @@ export class ScrapingService {
 				this.scrapingInterval = null;
 			}
 
-			// Cleanup scraper
-			await this.elleSource.cleanup();
-
 			this.isRunning = false;
 			logger.info('Scraping service stopped successfully');
 
@@ -101,14 +103,16 @@ export class ScrapingService {
 	 */
 	private runScrapeAsync(conditions: ScrapingConditions): void {
 		// Run async without blocking
-		this.scrape(conditions)
+		this.scrape(conditions, 'scheduler')
 			.then(posts => {
 				logger.info(`Scraping completed successfully. Found ${posts.length} posts`);
-				// Here you would normally save to database
-				// For now, just log the summary
 				this.logScrapingSummary(posts);
 			})
 			.catch(error => {
+				if (error instanceof PipelineLockedError) {
+					logger.warn(`Skipping scheduled scrape: ${error.message}`);
+					return;
+				}
 				logger.error('Scraping failed:', error);
 			});
 	}
@@ -116,25 +120,43 @@ export class ScrapingService {
 	/**
 	 * Perform a manual scrape operation
 	 */
-	async scrape(conditions?: ScrapingConditions): Promise<ScrapedPostData[]> {
+	async scrape(conditions?: ScrapingConditions, trigger: JobTrigger = 'admin'): Promise<ScrapedPostData[]> {
+		// Never overlap with cron or manually triggered pipeline runs
+		const lease = await PipelineLockService.acquire();
+
+		let tracker: ScrapingJobTracker;
+		try {
+			tracker = await ScrapingJobService.create({
+				pipeline: 'scrape',
+				trigger,
+				sources: sourceRegistry.listScheduled(),
+			});
+			await lease.setJob(tracker.jobId);
+		} catch (error) {
+			await lease.release();
+			throw error;
+		}
+
 		try {
 			const scrapingConditions = { ...this.defaultConditions, ...conditions };
 
 			logger.info('Running manual scrape...', { conditions: scrapingConditions });
+			await tracker.start();
 
-			// Ensure scraper is initialized
-			await this.elleSource.initialize();
-
-			// Scrape Elle
-			const posts = await this.elleSource.scrape(scrapingConditions);
+			// Scrape every scheduled source from the registry
+			const posts = await ScrapingService.scrapeAll(scrapingConditions, tracker);
 
 			logger.info(`Manual scrape completed. Found ${posts.length} posts`);
+			await tracker.complete();
 
 			return posts;
 
 		} catch (error) {
 			logger.error('Manual scrape failed:', error);
+			await tracker.fail(error);
 			throw error;
+		} finally {
+			await lease.release();
 		}
 	}
 
@@ -143,8 +165,19 @@ export class ScrapingService {
 	 */
 	async testConnection(): Promise<boolean> {
 		try {
-			await this.elleSource.initialize();
-			return await this.elleSource.testConnection();
+			for (const definition of sourceRegistry.listScheduled()) {
+				const source = sourceRegistry.create(definition.id);
+				try {
+					await source.initialize();
+					if (!await source.testConnection()) {
+						logger.warn(`Connection test failed for ${definition.displayName}`);
+						return false;
+					}
+				} finally {
+					await source.cleanup();
+				}
+			}
+			return true;
 		} catch (error) {
 			logger.error('Connection test failed:', error);
 			return false;
@@ -186,38 +219,68 @@ export class ScrapingService {
 	}
 
 	/**
-	 * Static method to scrape all sources
-	 * Used by cron scheduler
+	 * Scrape a single registered source
+	 * Handles the initialize/scrape/cleanup lifecycle so callers don't have to
 	 */
-	static async scrapeAll(): Promise<ScrapedPostData[]> {
+	static async scrapeSource(sourceId: string, overrides: ScrapingConditions = {}, signal?: AbortSignal): Promise<ScrapedPostData[]> {
+		throwIfCancelled(signal);
+
+		const source = sourceRegistry.create(sourceId);
+		const conditions = sourceRegistry.buildConditions(sourceId, overrides);
+
+		// Cancelling the job closes the browser, which makes any in-flight
+		// Playwright navigation reject immediately
+		const onAbort = () => {
+			logger.warn(`Cancelling in-flight scrape of ${sourceId}`);
+			source.cleanup().catch(error => logger.error(`Failed to stop ${sourceId} scraper:`, error));
+		};
+		signal?.addEventListener('abort', onAbort, { once: true });
+
+		try {
+			await source.initialize();
+			const posts = await source.scrape(conditions);
+			throwIfCancelled(signal);
+			return posts;
+		} catch (error) {
+			throwIfCancelled(signal);
+			throw error;
+		} finally {
+			signal?.removeEventListener('abort', onAbort);
+			await source.cleanup();
+		}
+	}
+
+	/**
+	 * Scrape all scheduled sources and store the articles in scraped_posts
+	 * (normalized later by the trend pipeline). When a job tracker is given,
+	 * per-source progress is recorded on the job.
+	 */
+	static async scrapeAll(overrides: ScrapingConditions = {}, tracker?: ScrapingJobTracker, signal?: AbortSignal): Promise<ScrapedPostData[]> {
 		logger.info('Running scrapeAll - scraping all fashion sources');
 
 		const allPosts: ScrapedPostData[] = [];
 
 		try {
-			// Scrape Elle
-			logger.info('Scraping Elle...');
-			const elleSource = new ElleSource();
-			await elleSource.initialize();
-			const ellePosts = await elleSource.scrape({
-				keywords: ['fashion', 'style', 'runway', 'collection', 'designer'],
-				maxResults: 50,
-			});
-			allPosts.push(...ellePosts);
-			await elleSource.cleanup();
-			logger.info(`Scraped ${ellePosts.length} posts from Elle`);
-
-			// Scrape Harper's Bazaar
-			logger.info('Scraping Harper\'s Bazaar...');
-			const harperSource = new HarperSource();
-			await harperSource.initialize();
-			const harperPosts = await harperSource.scrape({
-				keywords: ['fashion', 'style', 'runway', 'collection', 'designer', 'couture', 'luxury'],
-				maxResults: 50,
-			});
-			allPosts.push(...harperPosts);
-			await harperSource.cleanup();
-			logger.info(`Scraped ${harperPosts.length} posts from Harper's Bazaar`);
+			for (const definition of sourceRegistry.listScheduled()) {
+				logger.info(`Scraping ${definition.displayName}...`);
+				await tracker?.sourceStarted(definition.id);
+
+				let posts: ScrapedPostData[];
+				try {
+					posts = await this.scrapeSource(definition.id, overrides, signal);
+				} catch (error) {
+					if (!(error instanceof JobCancelledError)) {
+						await tracker?.sourceFailed(definition.id, error);
+					}
+					throw error;
+				}
+
+				await ContentService.storeScraped(posts);
+				await tracker?.sourceProgress(definition.id, { scraped: posts.length });
+				await tracker?.sourceCompleted(definition.id);
+				allPosts.push(...posts);
+				logger.info(`Scraped ${posts.length} posts from ${definition.displayName}`);
+			}
 
 			logger.info(`Total posts scraped from all sources: ${allPosts.length}`);
 			return allPosts;
@@ -0,0 +1,132 @@
+// InnoDB skips shorter words (innodb_ft_min_token_size)
+const MIN_TERM_LENGTH = 3;
+const MAX_TERMS = 10;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const WORD_CHAR = '[\\p{L}\\p{N}]';
+const NON_WORD = /[^\p{L}\p{N}]+/u;
+
+const HTML_ESCAPES: Record<string, string> = {
+	'&': '&amp;',
+	'<': '&lt;',
+	'>': '&gt;',
+	'"': '&quot;',
+	'\'': '&#39;',
+};
+
+/**
+ * Search Query
+ * Turns user input into MySQL boolean-mode FULLTEXT queries and builds
+ * highlighted snippets; free of database access
+ */
+export class SearchQuery {
+	/**
+	 * Lowercased words worth searching for (operators and punctuation,
+	 * including '#', are dropped; each word once)
+	 */
+	static terms(input: string): string[] {
+		const words = input
+			.toLowerCase()
+			.split(NON_WORD)
+			.filter(word => word.length >= MIN_TERM_LENGTH);
+
+		return [...new Set(words)].slice(0, MAX_TERMS);
+	}
+
+	/**
+	 * Value of a single query parameter: undefined when absent, null when
+	 * it is not one string (given twice it arrives as an array)
+	 */
+	static param(value: unknown): string | undefined | null {
+		if (value === undefined) {
+			return undefined;
+		}
+		return typeof value === 'string' ? value : null;
+	}
+
+	/**
+	 * Date filter (YYYY-MM-DD or ISO 8601); a date-only upper bound covers
+	 * that whole day (UTC). Invalid Date for anything unparseable.
+	 */
+	static dateBound(value: string, bound: 'from' | 'to'): Date {
+		const date = new Date(value);
+		if (bound === 'to' && DATE_ONLY.test(value.trim()) && !isNaN(date.getTime())) {
+			return new Date(date.getTime() + DAY_MS - 1);
+		}
+		return date;
+	}
+
+	/**
+	 * Boolean-mode query requiring every term, each as a word prefix
+	 */
+	static booleanQuery(terms: string[]): string {
+		return terms.map(term => `+${term}*`).join(' ');
+	}
+
+	/**
+	 * Whether the text has a word starting with one of the terms
+	 */
+	static matches(text: string, terms: string[]): boolean {
+		return terms.length > 0 && this.termPattern(terms).test(text);
+	}
+
+	/**
+	 * HTML-escaped text with words starting with a term wrapped in <mark>
+	 */
+	static highlight(text: string, terms: string[]): string {
+		if (terms.length === 0) {
+			return this.escape(text);
+		}
+
+		const pattern = this.termPattern(terms);
+		let html = '';
+		let last = 0;
+
+		for (const match of text.matchAll(pattern)) {
+			html += this.escape(text.slice(last, match.index)) + `<mark>${this.escape(match[0])}</mark>`;
+			last = match.index! + match[0].length;
+		}
+
+		return html + this.escape(text.slice(last));
+	}
+
+	/**
+	 * Highlighted excerpt of about `length` characters around the first
+	 * matching word (the start of the text when nothing matches)
+	 */
+	static snippet(text: string | null | undefined, terms: string[], length: number = 160): string {
+		const clean = (text || '').replace(/\s+/g, ' ').trim();
+		if (clean.length <= length) {
+			return this.highlight(clean, terms);
+		}
+
+		const first = terms.length > 0 ? clean.search(this.termPattern(terms)) : -1;
+		let start = Math.max(0, Math.min(first - Math.floor(length / 3), clean.length - length));
+		let end = start + length;
+
+		// Do not cut words in half
+		if (start > 0) {
+			const space = clean.indexOf(' ', start);
+			if (space !== -1 && space < first) {
+				start = space + 1;
+			}
+		}
+		if (end < clean.length) {
+			const space = clean.lastIndexOf(' ', end);
+			end = space > start ? space : end;
+		}
+
+		return `${start > 0 ? '… ' : ''}${this.highlight(clean.slice(start, end), terms)}${end < clean.length ? ' …' : ''}`;
+	}
+
+	private static termPattern(terms: string[]): RegExp {
+		const alternatives = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+		return new RegExp(`(?<!${WORD_CHAR})(?:${alternatives})${WORD_CHAR}*`, 'giu');
+	}
+
+	private static escape(text: string): string {
+		return text.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+	}
+}
@@ -0,0 +1,195 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../database/client';
+import { SearchQuery } from './search.query';
+import { HttpError } from '../utils/http-error';
+
+const MAX_PAGE_SIZE = 50;
+
+export type SearchScope = 'all' | 'blogs' | 'trends';
+
+export const SEARCH_SCOPES: SearchScope[] = ['all', 'blogs', 'trends'];
+
+/**
+ * Thrown for searches that cannot run (no usable words, bad filters)
+ */
+export class SearchRequestError extends HttpError {
+	constructor(message: string) {
+		super(400, message);
+		this.name = 'SearchRequestError';
+	}
+}
+
+export interface SearchParams {
+	q: string;
+	scope?: SearchScope;
+	// Blog platform, or platform of any post in a trend
+	platform?: string;
+	from?: Date;
+	to?: Date;
+	page?: number;
+	limit?: number;
+	// Admins also find unapproved blogs
+	includeDrafts?: boolean;
+}
+
+export interface BlogSearchHit {
+	id: number;
+	platform: string;
+	title: string;
+	link: string;
+	image: string | null;
+	createdAt: Date;
+	relevance: number;
+	// HTML, matches wrapped in <mark>
+	titleHighlight: string;
+	snippet: string;
+}
+
+export interface TrendSearchHit {
+	id: string;
+	title: string;
+	trendScore: number;
+	growthPercentage: number;
+	lastSeenAt: Date;
+	relevance: number;
+	titleHighlight: string;
+	snippet: string;
+}
+
+export interface SearchSection<T> {
+	results: T[];
+	total: number;
+}
+
+export interface SearchResult {
+	query: string;
+	terms: string[];
+	blogs?: SearchSection<BlogSearchHit>;
+	trends?: SearchSection<TrendSearchHit>;
+	pagination: { page: number; limit: number };
+}
+
+/**
+ * Search Service
+ * Full-text search over blogs (title, description, AI insight, hashtags)
+ * and active trend clusters (title), ranked by MySQL FULLTEXT relevance
+ */
+export class SearchService {
+	static async search(params: SearchParams): Promise<SearchResult> {
+		const terms = SearchQuery.terms(params.q || '');
+		if (terms.length === 0) {
+			throw new SearchRequestError('Search query needs at least one word of 3 or more characters');
+		}
+		if (params.from && isNaN(params.from.getTime()) || params.to && isNaN(params.to.getTime())) {
+			throw new SearchRequestError('from and to must be dates (YYYY-MM-DD or ISO 8601)');
+		}
+		if (params.from && params.to && params.from > params.to) {
+			throw new SearchRequestError('from must be before to');
+		}
+
+		const scope = params.scope || 'all';
+		const page = params.page && params.page > 0 ? Math.floor(params.page) : 1;
+		const limit = Math.min(params.limit && params.limit > 0 ? Math.floor(params.limit) : 20, MAX_PAGE_SIZE);
+		const query = SearchQuery.booleanQuery(terms);
+		const offset = (page - 1) * limit;
+
+		const [blogs, trends] = await Promise.all([
+			scope !== 'trends' ? this.searchBlogs(query, terms, params, limit, offset) : undefined,
+			scope !== 'blogs' ? this.searchTrends(query, terms, params, limit, offset) : undefined,
+		]);
+
+		return { query: params.q, terms, blogs, trends, pagination: { page, limit } };
+	}
+
+	private static async searchBlogs(query: string, terms: string[], params: SearchParams, limit: number, offset: number): Promise<SearchSection<BlogSearchHit>> {
+		const match = Prisma.sql`MATCH(title, description, ai_insight, hashtags) AGAINST (${query} IN BOOLEAN MODE)`;
+		const conditions = [match];
+		if (!params.includeDrafts) {
+			conditions.push(Prisma.sql`approved = 1`);
+		}
+		if (params.platform) {
+			conditions.push(Prisma.sql`platform = ${params.platform}`);
+		}
+		if (params.from) {
+			conditions.push(Prisma.sql`createdAt >= ${params.from}`);
+		}
+		if (params.to) {
+			conditions.push(Prisma.sql`createdAt <= ${params.to}`);
+		}
+		const where = Prisma.join(conditions, ' AND ');
+
+		const [rows, count] = await Promise.all([
+			prisma.$queryRaw<any[]>`
+				SELECT id, platform, title, description, ai_insight, hashtags, link, image, createdAt, ${match} AS relevance
+				FROM blogs
+				WHERE ${where}
+				ORDER BY relevance DESC, createdAt DESC
+				LIMIT ${limit} OFFSET ${offset}
+			`,
+			prisma.$queryRaw<Array<{ total: bigint }>>`SELECT COUNT(*) AS total FROM blogs WHERE ${where}`,
+		]);
+
+		return {
+			results: rows.map(row => ({
+				id: Number(row.id),
+				platform: row.platform,
+				title: row.title,
+				link: row.link,
+				image: row.image,
+				createdAt: row.createdAt,
+				relevance: Number(row.relevance),
+				titleHighlight: SearchQuery.highlight(row.title, terms),
+				snippet: SearchQuery.snippet(this.firstMatching([row.description, row.ai_insight, row.hashtags], terms), terms),
+			})),
+			total: Number(count[0]?.total || 0),
+		};
+	}
+
+	private static async searchTrends(query: string, terms: string[], params: SearchParams, limit: number, offset: number): Promise<SearchSection<TrendSearchHit>> {
+		const match = Prisma.sql`MATCH(t.title) AGAINST (${query} IN BOOLEAN MODE)`;
+		const conditions = [match, Prisma.sql`t.isActive = 1`];
+		if (params.platform) {
+			conditions.push(Prisma.sql`EXISTS (SELECT 1 FROM normalized_posts n WHERE n.clusterId = t.id AND n.platform = ${params.platform})`);
+		}
+		// Trends seen at any time within the range
+		if (params.from) {
+			conditions.push(Prisma.sql`t.lastSeenAt >= ${params.from}`);
+		}
+		if (params.to) {
+			conditions.push(Prisma.sql`t.firstSeenAt <= ${params.to}`);
+		}
+		const where = Prisma.join(conditions, ' AND ');
+
+		const [rows, count] = await Promise.all([
+			prisma.$queryRaw<any[]>`
+				SELECT t.id, t.title, t.aiInsight, t.trendScore, t.growthPercentage, t.lastSeenAt, ${match} AS relevance
+				FROM trend_clusters t
+				WHERE ${where}
+				ORDER BY relevance DESC, t.trendScore DESC
+				LIMIT ${limit} OFFSET ${offset}
+			`,
+			prisma.$queryRaw<Array<{ total: bigint }>>`SELECT COUNT(*) AS total FROM trend_clusters t WHERE ${where}`,
+		]);
+
+		return {
+			results: rows.map(row => ({
+				id: row.id,
+				title: row.title,
+				trendScore: Number(row.trendScore),
+				growthPercentage: Number(row.growthPercentage),
+				lastSeenAt: row.lastSeenAt,
+				relevance: Number(row.relevance),
+				titleHighlight: SearchQuery.highlight(row.title, terms),
+				snippet: SearchQuery.snippet(row.aiInsight, terms),
+			})),
+			total: Number(count[0]?.total || 0),
+		};
+	}
+
+	/**
+	 * First text mentioning a term, so the snippet shows why the row matched
+	 */
+	private static firstMatching(texts: Array<string | null>, terms: string[]): string | null {
+		return texts.find(text => text && SearchQuery.matches(text, terms)) || texts.find(Boolean) || null;
+	}
+}
@@ -0,0 +1,147 @@
+import axios from 'axios';
+import { gunzipSync } from 'zlib';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { DEFAULT_USER_AGENT } from './browser-pool.service';
+import { CrawlPolicyService } from './crawl-policy.service';
+import { FixtureStore } from './fixture-store.service';
+import { SitemapEntry, SitemapExtractor } from '../sources/extractors/sitemap.extractor';
+
+export interface SitemapDiscoveryOptions {
+	// Site origin, used to read Sitemap: lines from robots.txt
+	origin: string;
+	// Sitemaps to start from (defaults to robots.txt sitemaps, then /sitemap.xml)
+	sitemapUrls?: string[];
+	// Keep only URLs under one of these paths (e.g. '/fashion/')
+	pathPrefixes?: string[];
+	// Keep only URLs modified/published inside this window
+	since?: Date;
+	until?: Date;
+	// Stop after this many sitemap files (indexes can list hundreds)
+	maxSitemaps?: number;
+}
+
+/**
+ * Discovered article URL, newest first
+ */
+export interface DiscoveredUrl extends SitemapEntry {
+	sitemapUrl: string;
+}
+
+/**
+ * Sitemap Discovery Service
+ * Walks a site's sitemaps (indexes, news sitemaps, gzip) and lists the
+ * article URLs inside a date window, so sources are not limited to what
+ * their landing page shows
+ */
+export class SitemapDiscoveryService {
+	static async discover(options: SitemapDiscoveryOptions): Promise<DiscoveredUrl[]> {
+		const maxSitemaps = options.maxSitemaps || config.sitemaps.maxSitemaps;
+		const queue = await this.startUrls(options);
+		const visited = new Set<string>();
+		const found = new Map<string, DiscoveredUrl>();
+
+		while (queue.length > 0 && visited.size < maxSitemaps) {
+			const sitemapUrl = queue.shift()!;
+			if (visited.has(sitemapUrl)) continue;
+			visited.add(sitemapUrl);
+
+			const decision = await CrawlPolicyService.check(sitemapUrl);
+			if (!decision.allowed) {
+				logger.warn(`🤖 Skipping sitemap ${sitemapUrl}: ${decision.reason}`);
+				continue;
+			}
+
+			try {
+				const sitemap = SitemapExtractor.parse(await this.fetchSitemap(sitemapUrl), sitemapUrl);
+
+				if (sitemap.type === 'index') {
+					// Child sitemaps untouched since the window opened hold nothing new
+					const children = sitemap.entries.filter(entry =>
+						!options.since || !entry.lastModified || entry.lastModified >= options.since);
+					queue.push(...children.map(entry => entry.url));
+					logger.info(`🗺️  ${sitemapUrl}: index with ${children.length}/${sitemap.entries.length} sitemaps in range`);
+					continue;
+				}
+
+				const entries = sitemap.entries.filter(entry => this.matches(entry, options));
+				for (const entry of entries) {
+					if (!found.has(entry.url)) {
+						found.set(entry.url, { ...entry, sitemapUrl });
+					}
+				}
+				logger.info(`🗺️  ${sitemapUrl}: ${entries.length}/${sitemap.entries.length} URLs match`);
+			} catch (error: any) {
+				logger.warn(`Failed to read sitemap ${sitemapUrl}: ${error.message}`);
+			}
+		}
+
+		if (queue.length > 0) {
+			logger.warn(`Sitemap limit reached (${maxSitemaps}), ${queue.length} sitemaps not read`);
+		}
+
+		return Array.from(found.values()).sort((a, b) =>
+			(this.entryDate(b)?.getTime() || 0) - (this.entryDate(a)?.getTime() || 0));
+	}
+
+	/**
+	 * Date used for window filtering: news publication date, else lastmod
+	 */
+	static entryDate(entry: SitemapEntry): Date | null {
+		return entry.publishedAt || entry.lastModified;
+	}
+
+	/**
+	 * Sitemap text of a response body, gunzipped when it is gzip data
+	 */
+	static inflate(body: Buffer): string {
+		const gzipped = body.length > 2 && body[0] === 0x1f && body[1] === 0x8b;
+
+		return (gzipped ? gunzipSync(body) : body).toString('utf8');
+	}
+
+	private static async startUrls(options: SitemapDiscoveryOptions): Promise<string[]> {
+		if (options.sitemapUrls && options.sitemapUrls.length > 0) {
+			return [...options.sitemapUrls];
+		}
+
+		const advertised = await CrawlPolicyService.getSitemaps(options.origin);
+		return advertised.length > 0 ? advertised : [`${options.origin}/sitemap.xml`];
+	}
+
+	private static matches(entry: SitemapEntry, options: SitemapDiscoveryOptions): boolean {
+		const prefixes = options.pathPrefixes || [];
+		if (prefixes.length > 0) {
+			const path = new URL(entry.url).pathname;
+			if (!prefixes.some(prefix => path.startsWith(prefix))) return false;
+		}
+
+		// Entries without any date are kept; the article page has the real one
+		const date = this.entryDate(entry);
+		if (date && options.since && date < options.since) return false;
+		if (date && options.until && date > options.until) return false;
+
+		return true;
+	}
+
+	/**
+	 * Fetch a sitemap, inflating .gz files (and gzip bodies served without
+	 * Content-Encoding)
+	 */
+	private static async fetchSitemap(url: string): Promise<string> {
+		// Fixtures hold the inflated XML
+		return FixtureStore.fetch(url, async () => {
+			const response = await axios.get<ArrayBuffer>(url, {
+				headers: {
+					'User-Agent': DEFAULT_USER_AGENT,
+					'Accept': 'application/xml, text/xml;q=0.9, */*;q=0.5',
+				},
+				timeout: 30000,
+				maxRedirects: 5,
+				responseType: 'arraybuffer',
+			});
+
+			return this.inflate(Buffer.from(response.data));
+		});
+	}
+}
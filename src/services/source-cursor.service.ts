@@ -0,0 +1,106 @@
+import { Prisma, SourceCursor } from '@prisma/client';
+import prisma from '../database/client';
+import { ScrapedPostData, ScrapingConditions } from '../sources/base.source';
+import { logger } from '../utils/logger';
+
+// Article URLs remembered per source (several days of listing pages and sitemaps)
+const MAX_SEEN_URLS = 2000;
+
+// Date-windowed sources re-read this much before the high-water mark, since
+// listing pages without dates record the scrape time as the publish date
+const SINCE_OVERLAP_MS = 24 * 60 * 60 * 1000;
+
+export interface CursorFilterResult {
+	fresh: ScrapedPostData[];
+	skipped: number;
+}
+
+/**
+ * Source Cursor Service
+ * Keeps a high-water mark per source (newest publish date and recently seen
+ * article URLs) so incremental runs skip known articles before paying for
+ * AI normalization
+ */
+export class SourceCursorService {
+	static async get(sourceId: string): Promise<SourceCursor | null> {
+		return prisma.sourceCursor.findUnique({ where: { sourceId } });
+	}
+
+	static async list(): Promise<SourceCursor[]> {
+		return prisma.sourceCursor.findMany({ orderBy: { sourceId: 'asc' } });
+	}
+
+	/**
+	 * Narrow a run to what is new since the cursor: sources that honour
+	 * since (sitemaps, feeds) only read the recent window
+	 */
+	static applyToConditions(cursor: SourceCursor | null, conditions: ScrapingConditions = {}): ScrapingConditions {
+		if (!cursor?.lastPostedAt || conditions.since) {
+			return conditions;
+		}
+
+		return {
+			...conditions,
+			since: new Date(cursor.lastPostedAt.getTime() - SINCE_OVERLAP_MS),
+		};
+	}
+
+	/**
+	 * Drop posts whose URL the cursor has already seen or that is already
+	 * published in the blogs table
+	 */
+	static async filterNew(cursor: SourceCursor | null, posts: ScrapedPostData[]): Promise<CursorFilterResult> {
+		const seen = new Set(this.seenUrls(cursor));
+		const links = posts.map(post => post.sourceUrl).filter((url): url is string => !!url && !seen.has(url));
+
+		if (links.length > 0) {
+			const existing = await prisma.blog.findMany({
+				where: { link: { in: links } },
+				select: { link: true },
+			});
+			existing.forEach(row => seen.add(row.link));
+		}
+
+		const fresh = posts.filter(post => !post.sourceUrl || !seen.has(post.sourceUrl));
+		return { fresh, skipped: posts.length - fresh.length };
+	}
+
+	/**
+	 * Record the posts of a finished run: remember their URLs and move the
+	 * publish date high-water mark forward
+	 */
+	static async advance(sourceId: string, posts: ScrapedPostData[]): Promise<void> {
+		const cursor = await this.get(sourceId);
+		const urls = posts.map(post => post.sourceUrl).filter((url): url is string => !!url);
+		const seenUrls = [...new Set([...urls, ...this.seenUrls(cursor)])].slice(0, MAX_SEEN_URLS);
+
+		const postedTimes = posts.map(post => post.postedAt.getTime()).filter(time => !isNaN(time));
+		const newest = postedTimes.length > 0 ? new Date(Math.max(...postedTimes)) : null;
+		const lastPostedAt = newest && (!cursor?.lastPostedAt || newest > cursor.lastPostedAt)
+			? newest
+			: cursor?.lastPostedAt || null;
+
+		await prisma.sourceCursor.upsert({
+			where: { sourceId },
+			create: { sourceId, seenUrls, lastPostedAt, lastRunAt: new Date() },
+			update: { seenUrls, lastPostedAt, lastRunAt: new Date() },
+		});
+	}
+
+	/**
+	 * Forget what a source has seen; its next run is a full backfill
+	 */
+	static async reset(sourceId: string): Promise<SourceCursor> {
+		logger.warn(`⏮️  Resetting cursor for source ${sourceId}`);
+
+		return prisma.sourceCursor.upsert({
+			where: { sourceId },
+			create: { sourceId, resetAt: new Date() },
+			update: { seenUrls: Prisma.DbNull, lastPostedAt: null, resetAt: new Date() },
+		});
+	}
+
+	private static seenUrls(cursor: SourceCursor | null): string[] {
+		return Array.isArray(cursor?.seenUrls) ? cursor!.seenUrls as string[] : [];
+	}
+}
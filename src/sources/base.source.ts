@@ -1,3 +1,13 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+import { DEFAULT_USER_AGENT } from '../services/browser-pool.service';
+import { CrawlDisallowedError, CrawlPolicyService } from '../services/crawl-policy.service';
+import { DiscoveredUrl, SitemapDiscoveryService } from '../services/sitemap-discovery.service';
+import { FixtureStore } from '../services/fixture-store.service';
+import { ArticleExtractor } from './extractors/article.extractor';
+
 /**
  * Base interface for all social media sources
  * Each platform must implement this interface
@@ -5,7 +15,7 @@
 
 export interface ScrapedPostData {
 	platformPostId: string;
-	platform: 'ELLE' | 'HARPER' | 'ETC';
+	platform: 'ELLE' | 'HARPER' | 'ETC' | 'FEED';
 	author: string;
 	authorHandle: string;
 	text: string;
@@ -40,15 +50,71 @@ export interface ScrapingConditions {
 	// Date filters
 	since?: Date;
 	until?: Date;
+
+	// Explicit target URLs (for sources that scrape user-supplied pages)
+	urls?: string[];
+
+	// Second stage: visit each article page for full body text, images and tags
+	crawlArticles?: boolean;
+
+	// How publication sources find articles: their landing page (default) or sitemaps
+	discovery?: 'listing' | 'sitemap';
+}
+
+/**
+ * What a source can do, so pipeline entry points can decide how to run it
+ */
+export interface SourceCapabilities {
+	// Borrows a Playwright context from the shared browser pool
+	usesBrowser: boolean;
+	// Included in automatic pipeline runs (cron, scheduled scrape, manual triggers)
+	scheduled: boolean;
+	// Needs explicit URLs in the scraping conditions to do anything
+	requiresUrls: boolean;
+	// Can walk its archive for historical backfills (listArchiveUrls)
+	backfill: boolean;
+}
+
+/**
+ * Where a source's sitemaps live and which of their URLs are articles
+ */
+export interface SitemapSettings {
+	origin: string;
+	// Defaults to the Sitemap: lines of robots.txt
+	sitemapUrls?: string[];
+	pathPrefixes: string[];
+}
+
+/**
+ * Static description of a source, declared by each implementation
+ * and used by the source registry
+ */
+export interface SourceDefinition {
+	id: string;
+	displayName: string;
+	platform: ScrapedPostData['platform'];
+	defaultConditions: ScrapingConditions;
+	capabilities: SourceCapabilities;
+	// Set by sources that support discovery: 'sitemap'
+	sitemap?: SitemapSettings;
 }
 
 export abstract class BaseSocialMediaSource {
 	protected platformName: string;
+	protected lastRequestTime: number = 0;
+	protected readonly MIN_REQUEST_DELAY: number = 2000; // 2 seconds between requests (Rule 8: Be polite)
+	// Largest Crawl-delay requested by a host this source has visited
+	protected crawlDelayMs: number = 0;
 
 	constructor(platformName: string) {
 		this.platformName = platformName;
 	}
 
+	/**
+	 * Registry metadata (id, display name, default conditions, capabilities)
+	 */
+	abstract readonly definition: SourceDefinition;
+
 	/**
 	 * Initialize the scraper (authenticate, setup browser, etc.)
 	 */
@@ -121,6 +187,243 @@ export abstract class BaseSocialMediaSource {
 		return matches ? matches.map(tag => tag.toLowerCase()) : [];
 	}
 
+	/**
+	 * Rule 1: Respect robots.txt - returns false (and logs why) for refused URLs
+	 * and adopts the host's Crawl-delay for subsequent requests
+	 */
+	protected async isCrawlAllowed(url: string): Promise<boolean> {
+		const decision = await CrawlPolicyService.check(url);
+		this.crawlDelayMs = Math.max(this.crawlDelayMs, decision.crawlDelayMs);
+
+		if (!decision.allowed) {
+			logger.warn(`🤖 Skipping ${url}: ${decision.reason}`);
+			return false;
+		}
+
+		return true;
+	}
+
+	/**
+	 * Like isCrawlAllowed, but throws CrawlDisallowedError for refused URLs
+	 */
+	protected async assertCrawlAllowed(url: string): Promise<void> {
+		const decision = await CrawlPolicyService.check(url);
+		this.crawlDelayMs = Math.max(this.crawlDelayMs, decision.crawlDelayMs);
+
+		if (!decision.allowed) {
+			throw new CrawlDisallowedError(url, decision.reason || 'disallowed by crawl policy');
+		}
+	}
+
+	/**
+	 * Rule 8: Be polite - Respect rate limiting (and robots.txt Crawl-delay)
+	 */
+	protected async respectRateLimit(): Promise<void> {
+		// Replayed runs make no requests
+		if (FixtureStore.isReplaying()) return;
+
+		const now = Date.now();
+		const timeSinceLastRequest = now - this.lastRequestTime;
+		const minDelay = Math.max(this.MIN_REQUEST_DELAY, this.crawlDelayMs);
+
+		if (timeSinceLastRequest < minDelay) {
+			const delayNeeded = minDelay - timeSinceLastRequest;
+			logger.info(`Rate limiting: waiting ${delayNeeded}ms before next request`);
+			await new Promise(resolve => setTimeout(resolve, delayNeeded));
+		}
+
+		this.lastRequestTime = Date.now();
+	}
+
+	/**
+	 * Second crawl stage: visit each post's article page and store the full
+	 * body text, inline images and tags in rawContent.article.
+	 * Pages that fail to load keep their listing data.
+	 */
+	protected async crawlArticleDetails(posts: ScrapedPostData[], conditions: ScrapingConditions): Promise<void> {
+		const timeout = conditions.pageTimeout || 60000;
+		let crawled = 0;
+
+		logger.info(`Crawling ${posts.length} article pages for full content`);
+
+		for (const post of posts) {
+			if (!post.sourceUrl) continue;
+			if (!(await this.isCrawlAllowed(post.sourceUrl))) continue;
+
+			try {
+				await this.respectRateLimit();
+
+				const html = await this.fetchArticleHtml(post.sourceUrl, timeout);
+				const article = ArticleExtractor.extract(html, post.sourceUrl);
+
+				post.rawContent = { ...post.rawContent, article };
+
+				// Detail pages carry the real publish date and the full image set
+				if (article.metadata.publishedAt) {
+					post.postedAt = article.metadata.publishedAt;
+				}
+				post.mediaUrls = [...new Set([...(post.mediaUrls || []), ...article.images.map(image => image.url)])];
+
+				crawled++;
+				logger.info(`Crawled article (${article.wordCount} words): ${post.sourceUrl}`);
+			} catch (error: any) {
+				logger.warn(`Failed to crawl article ${post.sourceUrl}: ${error.message}`);
+			}
+		}
+
+		logger.info(`Crawled ${crawled}/${posts.length} article pages`);
+	}
+
+	/**
+	 * Sitemap discovery: list article URLs from the source's sitemaps inside
+	 * the since/until window (default: the last SITEMAP_LOOKBACK_HOURS) and
+	 * read each one with the article extractor
+	 */
+	protected async scrapeFromSitemaps(conditions: ScrapingConditions): Promise<ScrapedPostData[]> {
+		const { displayName } = this.definition;
+		const since = conditions.since || new Date(Date.now() - config.sitemaps.lookbackHours * 60 * 60 * 1000);
+		const maxResults = conditions.maxResults || 20;
+		const keywords = conditions.keywords || [];
+		const posts: ScrapedPostData[] = [];
+
+		const discovered = await SitemapDiscoveryService.discover({
+			...this.requireSitemap(),
+			since,
+			until: conditions.until,
+		});
+
+		logger.info(`🗺️  ${displayName}: ${discovered.length} article URLs since ${since.toISOString()}`);
+
+		for (const entry of discovered) {
+			if (posts.length >= maxResults) break;
+
+			try {
+				const post = await this.scrapeArticle(entry.url, conditions.pageTimeout, entry);
+				if (!post) continue;
+
+				// Rule 6: Filter by keywords (title, description and tags)
+				const searchText = `${post.text} ${post.rawContent.article.tags.join(' ')}`.toLowerCase();
+				if (keywords.length > 0 && !keywords.some(keyword => searchText.includes(keyword.toLowerCase()))) {
+					continue;
+				}
+
+				posts.push(post);
+			} catch (error: any) {
+				logger.warn(`Failed to read article ${entry.url}: ${error.message}`);
+			}
+		}
+
+		logger.info(`Sitemap discovery completed for ${displayName}. Found ${posts.length} articles`);
+		return posts;
+	}
+
+	/**
+	 * Backfill: article URLs published inside [since, until], walked from the
+	 * source's sitemap archive (only for sources with capabilities.backfill)
+	 */
+	async listArchiveUrls(since: Date, until: Date): Promise<string[]> {
+		const discovered = await SitemapDiscoveryService.discover({
+			...this.requireSitemap(),
+			since,
+			until,
+			maxSitemaps: config.backfill.maxSitemaps,
+		});
+
+		return discovered.map(entry => entry.url);
+	}
+
+	/**
+	 * Read one article page into a post (null when robots.txt refuses it).
+	 * Rate limited like every other request of the source.
+	 */
+	async scrapeArticle(url: string, timeout: number = 60000, entry?: DiscoveredUrl): Promise<ScrapedPostData | null> {
+		const { id, displayName, platform } = this.definition;
+
+		if (!(await this.isCrawlAllowed(url))) {
+			return null;
+		}
+
+		await this.respectRateLimit();
+
+		const html = await this.fetchArticleHtml(url, timeout);
+		const article = ArticleExtractor.extract(html, url);
+		const { metadata } = article;
+		const title = metadata.headline || entry?.title || '';
+		const description = metadata.description || '';
+
+		return {
+			platformPostId: this.sitemapPostId(url),
+			platform,
+			author: metadata.authors[0] || `${displayName} Editorial`,
+			authorHandle: id,
+			text: `${title}${description ? ': ' + description : ''}`,
+			mediaUrls: [...new Set([
+				...(metadata.image ? [metadata.image] : []),
+				...(entry?.images || []),
+				...article.images.map(image => image.url),
+			])],
+			postedAt: metadata.publishedAt || (entry && SitemapDiscoveryService.entryDate(entry)) || new Date(),
+			likes: 0,
+			comments: 0,
+			shares: 0,
+			views: 0,
+			sourceUrl: url,
+			rawContent: {
+				title,
+				description,
+				url,
+				sitemapUrl: entry?.sitemapUrl,
+				lastModified: entry?.lastModified,
+				blockType: 'article',
+				article,
+			}
+		};
+	}
+
+	/**
+	 * Date filters: whether a publish date falls inside conditions.since/until
+	 */
+	protected isWithinDateRange(date: Date | null | undefined, conditions: ScrapingConditions): boolean {
+		if (!date) return true;
+		if (conditions.since && date < conditions.since) return false;
+		if (conditions.until && date > conditions.until) return false;
+		return true;
+	}
+
+	private requireSitemap(): SitemapSettings {
+		if (!this.definition.sitemap) {
+			throw new Error(`Source "${this.definition.id}" does not support sitemap discovery`);
+		}
+		return this.definition.sitemap;
+	}
+
+	/**
+	 * Stable post id for an article URL read from its detail page
+	 */
+	protected sitemapPostId(url: string): string {
+		return `${this.definition.id}_${crypto.createHash('sha1').update(url).digest('hex').substring(0, 32)}`;
+	}
+
+	/**
+	 * Fetch an article detail page (override for sites that need a browser)
+	 */
+	protected async fetchArticleHtml(url: string, timeout: number): Promise<string> {
+		return FixtureStore.fetch(url, async () => {
+			const response = await axios.get(url, {
+				headers: {
+					'User-Agent': DEFAULT_USER_AGENT,
+					'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+					'Accept-Language': 'en-US,en;q=0.9',
+				},
+				timeout,
+				maxRedirects: 5,
+				responseType: 'text'
+			});
+
+			return response.data;
+		});
+	}
+
 	/**
 	 * Clean text content
 	 */
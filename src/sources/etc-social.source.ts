@@ -1,6 +1,11 @@
-import { chromium, Browser, Page } from 'playwright';
-import { BaseSocialMediaSource, ScrapedPostData, ScrapingConditions } from './base.source';
+import { Page } from 'playwright';
+import { BaseSocialMediaSource, ScrapedPostData, ScrapingConditions, SourceDefinition } from './base.source';
+import { browserPool, BrowserLease, DEFAULT_USER_AGENT } from '../services/browser-pool.service';
 import { logger } from '../utils/logger';
+import { FixtureStore } from '../services/fixture-store.service';
+import { DomExtractor } from './extractors/dom.extractor';
+import { MetadataExtractor } from './extractors/metadata.extractor';
+import { ETC_AUTHOR_SELECTORS, ETC_SELECTORS } from './extractors/selector-maps';
 
 /**
  * EtcSocial Scraper
@@ -8,42 +13,54 @@ import { logger } from '../utils/logger';
  * Fetches and parses raw HTML content from any given URL
  */
 export class EtcSocialSource extends BaseSocialMediaSource {
-	private browser: Browser | null = null;
+	private lease: BrowserLease | null = null;
 	private page: Page | null = null;
 	private isInitialized = false;
 
+	readonly definition: SourceDefinition = {
+		id: 'etc',
+		displayName: 'Other Websites',
+		platform: 'ETC',
+		defaultConditions: {
+			pageTimeout: 30000,
+		},
+		capabilities: {
+			usesBrowser: true,
+			scheduled: false,
+			requiresUrls: true,
+			backfill: false,
+		},
+	};
+
 	constructor() {
 		super('ETCSOCIAL');
 	}
 
 	async initialize(): Promise<void> {
+		// Replayed runs read fixtures and never open a browser
+		if (FixtureStore.isReplaying()) {
+			return;
+		}
+
 		try {
-			if (this.isInitialized && this.browser && this.page) {
+			if (this.isInitialized && this.lease && this.page) {
 				logger.info('EtcSocial scraper already initialized');
 				return;
 			}
 
 			logger.info('Initializing EtcSocial scraper...');
 
-			this.browser = await chromium.launch({
-				headless: true,
-				args: [
-					'--no-sandbox',
-					'--disable-setuid-sandbox',
-					'--disable-blink-features=AutomationControlled',
-					'--disable-dev-shm-usage'
-				]
+			// Borrow an isolated context from the shared browser
+			this.lease = await browserPool.acquire({
+				userAgent: DEFAULT_USER_AGENT,
+				viewport: { width: 1920, height: 1080 },
+				extraHTTPHeaders: {
+					'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+					'Accept-Language': 'en-US,en;q=0.9',
+				}
 			});
 
-			this.page = await this.browser.newPage();
-
-			// Set realistic viewport and user agent
-			await this.page.setViewportSize({ width: 1920, height: 1080 });
-			await this.page.setExtraHTTPHeaders({
-				'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-				'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-				'Accept-Language': 'en-US,en;q=0.9',
-			});
+			this.page = this.lease.page;
 
 			this.isInitialized = true;
 			logger.info('EtcSocial scraper initialized successfully');
@@ -57,7 +74,7 @@ export class EtcSocialSource extends BaseSocialMediaSource {
 	 * Scrape raw HTML from any URL
 	 * @param conditions Must include 'urls' array
 	 */
-	async scrape(conditions: ScrapingConditions & { urls?: string[] }): Promise<ScrapedPostData[]> {
+	async scrape(conditions: ScrapingConditions): Promise<ScrapedPostData[]> {
 		try {
 			if (!this.isInitialized || !this.page) {
 				await this.initialize();
@@ -77,53 +94,45 @@ export class EtcSocialSource extends BaseSocialMediaSource {
 
 			for (const url of urls) {
 				try {
-					logger.info(`Fetching: ${url}`);
-
-					await this.page!.goto(url, {
-						waitUntil: 'networkidle',
-						timeout: pageTimeout
-					});
+					// User-supplied URLs: skip anything robots.txt refuses
+					if (!(await this.isCrawlAllowed(url))) {
+						continue;
+					}
 
-					// Wait for page to fully render
-					await this.page!.waitForTimeout(2000);
+					await this.respectRateLimit();
+					logger.info(`Fetching: ${url}`);
 
 					// Get raw HTML content
-					const htmlContent = await this.page!.content();
+					const htmlContent = await this.loadPage(url, pageTimeout);
 
 					// Parse HTML for articles, links, and content
 					const parsedContent = this.parseHtmlContent(htmlContent, url);
 
-					// Extract some basic metadata
-					const metadata = await this.page!.evaluate(() => {
-						const getMetaContent = (name: string) => {
-							const meta = document.querySelector(`meta[name="${name}"], meta[property="${name}"]`);
-							return meta?.getAttribute('content') || '';
-						};
-
-						return {
-							title: document.title,
-							description: getMetaContent('description') || getMetaContent('og:description'),
-							author: getMetaContent('author'),
-							url: window.location.href
-						};
-					});
+					// Structured metadata (JSON-LD, OpenGraph, Twitter cards)
+					const metadata = MetadataExtractor.extract(htmlContent, this.page?.url() || url);
 
 					logger.info(`✓ Fetched HTML from: ${url}`);
-					logger.info(`  Title: ${metadata.title}`);
+					logger.info(`  Title: ${metadata.headline}`);
+					logger.info(`  Published: ${metadata.publishedAt ? metadata.publishedAt.toISOString() : 'unknown'}`);
 					logger.info(`  HTML Size: ${(htmlContent.length / 1024).toFixed(2)} KB`);
 					logger.info(`  Articles found: ${parsedContent.articles.length}`);
 					logger.info(`  Images found: ${parsedContent.images.length}`);
 					logger.info(`  Links found: ${parsedContent.links.length}`);
 
+					if (!this.isWithinDateRange(metadata.publishedAt, conditions)) {
+						logger.info(`  Skipped: published outside the requested date range`);
+						continue;
+					}
+
 					// Create a normalized post data entry
 					posts.push({
-						platformPostId: `etc-${Date.now()}-${Buffer.from(url).toString('base64').substring(0, 10)}`,
+						platformPostId: this.sitemapPostId(url),
 						platform: 'ETC',
-						author: parsedContent.author || metadata.author || 'Unknown',
+						author: metadata.authors.join(', ') || parsedContent.author || 'Unknown',
 						authorHandle: new URL(url).hostname,
-						text: metadata.description || metadata.title || 'No description available',
-						mediaUrls: parsedContent.images.length > 0 ? parsedContent.images.slice(0, 5) : undefined,
-						postedAt: new Date(),
+						text: metadata.description || metadata.headline || 'No description available',
+						mediaUrls: this.pickImages(metadata.image, parsedContent.images),
+						postedAt: metadata.publishedAt || new Date(),
 						likes: 0,
 						comments: 0,
 						shares: 0,
@@ -153,15 +162,12 @@ export class EtcSocialSource extends BaseSocialMediaSource {
 
 	async cleanup(): Promise<void> {
 		try {
-			if (this.page) {
-				await this.page.close();
-				this.page = null;
-			}
-
-			if (this.browser) {
-				await this.browser.close();
-				this.browser = null;
+			// Closing the borrowed context also aborts in-flight navigation
+			if (this.lease) {
+				await this.lease.release();
+				this.lease = null;
 			}
+			this.page = null;
 
 			this.isInitialized = false;
 			logger.info('EtcSocial scraper cleaned up');
@@ -189,24 +195,45 @@ export class EtcSocialSource extends BaseSocialMediaSource {
 	 */
 	async fetchRawHTML(url: string): Promise<string> {
 		try {
+			await this.assertCrawlAllowed(url);
+
 			if (!this.isInitialized || !this.page) {
 				await this.initialize();
 			}
 
+			await this.respectRateLimit();
+
+			return await this.loadPage(url, 30000);
+
+		} catch (error) {
+			logger.error(`Failed to fetch raw HTML from ${url}:`, error);
+			throw error;
+		}
+	}
+
+	/**
+	 * Render a page with Playwright (replayed from fixtures in offline tests)
+	 */
+	private async loadPage(url: string, timeout: number): Promise<string> {
+		return FixtureStore.fetch(url, async () => {
 			await this.page!.goto(url, {
 				waitUntil: 'networkidle',
-				timeout: 30000
+				timeout
 			});
 
+			// Wait for page to fully render
 			await this.page!.waitForTimeout(2000);
 
-			const html = await this.page!.content();
-			return html;
+			return this.page!.content();
+		});
+	}
 
-		} catch (error) {
-			logger.error(`Failed to fetch raw HTML from ${url}:`, error);
-			throw error;
-		}
+	/**
+	 * Lead image first, then the first few page images
+	 */
+	private pickImages(leadImage: string | null, images: string[]): string[] | undefined {
+		const picked = [...new Set([...(leadImage ? [leadImage] : []), ...images])].slice(0, 5);
+		return picked.length > 0 ? picked : undefined;
 	}
 
 	/**
@@ -226,75 +253,41 @@ export class EtcSocialSource extends BaseSocialMediaSource {
 		};
 
 		try {
-			// Extract author from common patterns
-			const authorPatterns = [
-				/<meta\s+name=["']author["']\s+content=["']([^"']+)["']/i,
-				/<span[^>]*class=["'][^"']*author[^"']*["'][^>]*>([^<]+)<\/span>/i,
-				/<div[^>]*class=["'][^"']*byline[^"']*["'][^>]*>.*?<a[^>]*>([^<]+)<\/a>/i,
-				/by\s+<a[^>]*>([^<]+)<\/a>/i
-			];
-
-			for (const pattern of authorPatterns) {
-				const match = html.match(pattern);
-				if (match) {
-					result.author = this.cleanText(match[1]);
-					break;
-				}
-			}
-
-			// Extract article elements
-			const articlePattern = /<article[^>]*>([\s\S]*?)<\/article>/gi;
-			const articleMatches = html.matchAll(articlePattern);
-
-			for (const match of articleMatches) {
-				const articleHtml = match[1];
-
-				// Extract title
-				const titleMatch = articleHtml.match(/<h[1-6][^>]*>([^<]+)<\/h[1-6]>/i) ||
-					articleHtml.match(/<[^>]*class=["'][^"']*title[^"']*["'][^>]*>([^<]+)</i);
-
-				// Extract text content
-				const textMatch = articleHtml.match(/<p[^>]*>([^<]+)<\/p>/i);
-
-				// Extract link
-				const linkMatch = articleHtml.match(/<a[^>]*href=["']([^"']+)["']/i);
-
-				if (titleMatch || textMatch) {
-					result.articles.push({
-						title: titleMatch ? this.cleanText(titleMatch[1]) : null,
-						text: textMatch ? this.cleanText(textMatch[1]) : null,
-						link: linkMatch ? this.normalizeUrl(linkMatch[1], sourceUrl) : null
-					});
-				}
-			}
-
-			// Extract all images
-			const imgPattern = /<img[^>]*src=["']([^"']+)["'][^>]*>/gi;
-			const imgMatches = html.matchAll(imgPattern);
-
-			for (const match of imgMatches) {
-				const imgUrl = this.normalizeUrl(match[1], sourceUrl);
-				if (imgUrl && !imgUrl.includes('data:image')) {
+			const $ = DomExtractor.load(html);
+
+			// Page-level byline from common patterns
+			const author = DomExtractor.readDocumentField($, ETC_AUTHOR_SELECTORS);
+			result.author = author ? author.replace(/^by\s+/i, '') : null;
+
+			// Article teasers
+			result.articles = DomExtractor.extractItems($, ETC_SELECTORS, sourceUrl).map(item => ({
+				title: item.title,
+				text: item.description,
+				link: item.link
+			}));
+
+			// All images
+			$('img').each((_, element) => {
+				const src = $(element).attr('src') || $(element).attr('data-src');
+				const imgUrl = DomExtractor.absoluteUrl(src, sourceUrl);
+				if (imgUrl) {
 					result.images.push(imgUrl);
 				}
-			}
-
-			// Extract meaningful links (not navigation, footer, etc.)
-			const linkPattern = /<a[^>]*href=["']([^"']+)["'][^>]*>([^<]+)<\/a>/gi;
-			const linkMatches = html.matchAll(linkPattern);
+			});
 
-			for (const match of linkMatches) {
-				const url = match[1];
-				const linkText = this.cleanText(match[2]);
+			// Meaningful links (not navigation, footer, etc.)
+			$('a[href]').each((_, element) => {
+				const url = $(element).attr('href') || '';
+				const linkText = DomExtractor.cleanText($(element).text());
 
 				// Filter out navigation and short links
-				if (linkText.length > 10 && !url.includes('#') && !url.includes('javascript:')) {
-					const normalizedUrl = this.normalizeUrl(url, sourceUrl);
+				if (linkText.length > 10 && !url.includes('#')) {
+					const normalizedUrl = DomExtractor.absoluteUrl(url, sourceUrl);
 					if (normalizedUrl) {
 						result.links.push(normalizedUrl);
 					}
 				}
-			}
+			});
 
 		} catch (error) {
 			logger.error('Error parsing HTML content:', error);
@@ -302,25 +295,4 @@ export class EtcSocialSource extends BaseSocialMediaSource {
 
 		return result;
 	}
-
-	/**
-	 * Normalize URL to absolute path
-	 */
-	private normalizeUrl(url: string, baseUrl: string): string {
-		try {
-			if (url.startsWith('http://') || url.startsWith('https://')) {
-				return url;
-			}
-			if (url.startsWith('//')) {
-				return 'https:' + url;
-			}
-			if (url.startsWith('/')) {
-				const base = new URL(baseUrl);
-				return `${base.protocol}//${base.host}${url}`;
-			}
-			return new URL(url, baseUrl).href;
-		} catch (error) {
-			return url;
-		}
-	}
 }
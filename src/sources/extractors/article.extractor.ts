@@ -0,0 +1,142 @@
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import { DomExtractor } from './dom.extractor';
+import { ArticleMetadata, MetadataExtractor } from './metadata.extractor';
+import { ARTICLE_BODY_SELECTORS, ARTICLE_NOISE_SELECTORS, ARTICLE_TAG_SELECTORS } from './selector-maps';
+
+// A container with less text than this is not considered the article body
+const MIN_BODY_LENGTH = 200;
+
+export interface ArticleImage {
+	url: string;
+	caption: string | null;
+	alt: string | null;
+}
+
+/**
+ * Full content of an article detail page (stored in rawContent.article)
+ */
+export interface ArticleContent {
+	url: string;
+	metadata: ArticleMetadata;
+	bodyText: string;
+	wordCount: number;
+	images: ArticleImage[];
+	tags: string[];
+	crawledAt: string;
+}
+
+/**
+ * Article Extractor
+ * Pulls the main body text, inline images with captions and tags out of an
+ * article detail page
+ */
+export class ArticleExtractor {
+	static extract(html: string, url: string): ArticleContent {
+		const $ = DomExtractor.load(html);
+		const metadata = MetadataExtractor.extract($, url);
+
+		$(ARTICLE_NOISE_SELECTORS.join(', ')).remove();
+
+		const body = this.findBody($);
+		const bodyText = this.readBodyText($, body);
+
+		return {
+			url,
+			metadata,
+			bodyText,
+			wordCount: bodyText ? bodyText.split(/\s+/).length : 0,
+			images: this.readImages($, body, url),
+			tags: this.readTags($, metadata),
+			crawledAt: new Date().toISOString(),
+		};
+	}
+
+	/**
+	 * First body selector with enough text, else the candidate with the most text
+	 */
+	private static findBody($: CheerioAPI): Cheerio<any> {
+		let best: Cheerio<any> | null = null;
+		let bestLength = 0;
+
+		for (const selector of ARTICLE_BODY_SELECTORS) {
+			const candidate = $(selector).first();
+			if (candidate.length === 0) {
+				continue;
+			}
+
+			const length = DomExtractor.cleanText(candidate.find('p').text()).length;
+			if (length >= MIN_BODY_LENGTH) {
+				return candidate;
+			}
+			if (length > bestLength) {
+				best = candidate;
+				bestLength = length;
+			}
+		}
+
+		return best || $('body');
+	}
+
+	/**
+	 * Paragraphs, headings, quotes and list items, one block per line
+	 */
+	private static readBodyText($: CheerioAPI, body: Cheerio<any>): string {
+		const blocks: string[] = [];
+
+		body.find('p, h2, h3, h4, blockquote, li').each((_, element) => {
+			const block = $(element);
+
+			// Captions are stored with their images; nested blocks are read on their own
+			if (block.closest('figcaption').length > 0 || block.find('p, li, blockquote').length > 0) {
+				return;
+			}
+
+			const text = DomExtractor.cleanText(block.text());
+			if (text) {
+				blocks.push(text);
+			}
+		});
+
+		return blocks.join('\n\n');
+	}
+
+	private static readImages($: CheerioAPI, body: Cheerio<any>, pageUrl: string): ArticleImage[] {
+		const images: ArticleImage[] = [];
+		const seen = new Set<string>();
+
+		body.find('img').each((_, element) => {
+			const img = $(element);
+			const src = img.attr('src') || img.attr('data-src') || img.attr('srcset')?.trim().split(/\s+/)[0];
+			const url = DomExtractor.absoluteUrl(src, pageUrl);
+
+			if (!url || seen.has(url)) {
+				return;
+			}
+			seen.add(url);
+
+			const caption = DomExtractor.cleanText(img.closest('figure').find('figcaption').first().text());
+			const alt = DomExtractor.cleanText(img.attr('alt') || '');
+
+			images.push({
+				url,
+				caption: caption || null,
+				alt: alt || null,
+			});
+		});
+
+		return images;
+	}
+
+	private static readTags($: CheerioAPI, metadata: ArticleMetadata): string[] {
+		const tags = [...metadata.keywords];
+
+		$(ARTICLE_TAG_SELECTORS.join(', ')).each((_, element) => {
+			const tag = DomExtractor.cleanText($(element).text());
+			if (tag) {
+				tags.push(tag);
+			}
+		});
+
+		return [...new Set(tags)];
+	}
+}
@@ -0,0 +1,178 @@
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+
+/**
+ * A field is read with an ordered list of selectors; the first one that
+ * yields a non-empty value wins. Selector syntax:
+ *   'h3 span.title'      → text of the first match inside the item
+ *   'img@src'            → attribute of the first match inside the item
+ *   '@href'              → attribute of the item element itself
+ *   ''                   → text of the item element itself
+ * srcset-style attributes resolve to their first URL.
+ */
+export type FieldSelectors = string[];
+
+/**
+ * Declarative description of where items live on a listing page
+ */
+export interface SelectorMap {
+	// Used in logs only
+	name: string;
+	// Each match becomes one candidate item
+	item: string;
+	fields: {
+		title: FieldSelectors;
+		link: FieldSelectors;
+		image?: FieldSelectors;
+		byline?: FieldSelectors;
+		date?: FieldSelectors;
+		description?: FieldSelectors;
+	};
+	// Items whose title is shorter than this are dropped (navigation links, etc.)
+	minTitleLength?: number;
+}
+
+export interface ExtractedItem {
+	title: string;
+	link: string;
+	image: string | null;
+	byline: string | null;
+	date: string | null;
+	description: string | null;
+	// Name of the selector map that produced the item
+	matchedBy: string;
+}
+
+/**
+ * DOM Extractor
+ * Parses HTML once and applies selector maps in priority order. Items are
+ * de-duplicated by link, so broader fallback maps only add what the more
+ * specific ones missed.
+ */
+export class DomExtractor {
+	/**
+	 * Parse an HTML document
+	 */
+	static load(html: string): CheerioAPI {
+		return cheerio.load(html);
+	}
+
+	/**
+	 * Extract listing items using the given selector maps (first map wins on duplicates)
+	 */
+	static extractItems(html: string | CheerioAPI, maps: SelectorMap[], baseUrl: string): ExtractedItem[] {
+		const $ = typeof html === 'string' ? this.load(html) : html;
+		const items: ExtractedItem[] = [];
+		const seen = new Set<string>();
+
+		for (const map of maps) {
+			$(map.item).each((_, element) => {
+				const item = this.extractItem($, $(element), map, baseUrl);
+				if (!item || seen.has(item.link)) {
+					return;
+				}
+
+				seen.add(item.link);
+				items.push(item);
+			});
+		}
+
+		return items;
+	}
+
+	/**
+	 * Read the first non-empty value for a field within a scope
+	 */
+	static readField($: CheerioAPI, scope: Cheerio<any>, selectors: FieldSelectors = []): string | null {
+		for (const spec of selectors) {
+			const { selector, attr } = this.parseSelector(spec);
+			const target = selector ? scope.find(selector).first() : scope;
+
+			if (target.length === 0) {
+				continue;
+			}
+
+			let value: string | undefined;
+			if (attr) {
+				value = target.attr(attr);
+				if (value && /srcset$/i.test(attr)) {
+					value = this.firstSrcsetUrl(value);
+				}
+			} else {
+				value = $(target).text();
+			}
+
+			const cleaned = value ? this.cleanText(value) : '';
+			if (cleaned) {
+				return cleaned;
+			}
+		}
+
+		return null;
+	}
+
+	/**
+	 * Read a field from the whole document
+	 */
+	static readDocumentField($: CheerioAPI, selectors: FieldSelectors): string | null {
+		return this.readField($, $.root(), selectors);
+	}
+
+	/**
+	 * Collapse whitespace (entities are already decoded by the parser)
+	 */
+	static cleanText(text: string): string {
+		return text.replace(/\s+/g, ' ').trim();
+	}
+
+	/**
+	 * Resolve a possibly relative URL against the page URL
+	 * Returns null for empty, javascript: and data: URLs
+	 */
+	static absoluteUrl(url: string | null | undefined, baseUrl: string): string | null {
+		if (!url || /^(javascript|data|mailto):/i.test(url)) {
+			return null;
+		}
+
+		try {
+			return new URL(url, baseUrl).href;
+		} catch {
+			return null;
+		}
+	}
+
+	private static extractItem($: CheerioAPI, scope: Cheerio<any>, map: SelectorMap, baseUrl: string): ExtractedItem | null {
+		const title = this.readField($, scope, map.fields.title);
+		const link = this.absoluteUrl(this.readField($, scope, map.fields.link), baseUrl);
+
+		if (!title || !link || title.length < (map.minTitleLength || 0)) {
+			return null;
+		}
+
+		const byline = this.readField($, scope, map.fields.byline);
+
+		return {
+			title,
+			link,
+			image: this.absoluteUrl(this.readField($, scope, map.fields.image), baseUrl),
+			byline: byline ? byline.replace(/^by\s+/i, '').trim() : null,
+			date: this.readField($, scope, map.fields.date),
+			description: this.readField($, scope, map.fields.description),
+			matchedBy: map.name,
+		};
+	}
+
+	private static parseSelector(spec: string): { selector: string; attr: string | null } {
+		// '@' after the last ']' separates the attribute name
+		const at = spec.lastIndexOf('@');
+		if (at === -1 || at < spec.lastIndexOf(']')) {
+			return { selector: spec.trim(), attr: null };
+		}
+
+		return { selector: spec.slice(0, at).trim(), attr: spec.slice(at + 1).trim() };
+	}
+
+	private static firstSrcsetUrl(srcset: string): string {
+		return srcset.trim().split(/\s+/)[0].replace(/,$/, '');
+	}
+}
@@ -0,0 +1,199 @@
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import { DomExtractor } from './dom.extractor';
+import { MetadataExtractor } from './metadata.extractor';
+
+export interface FeedItem {
+	id: string;
+	title: string;
+	link: string | null;
+	summary: string | null;
+	// Full HTML body when the feed ships one (content:encoded / Atom content)
+	content: string | null;
+	author: string | null;
+	categories: string[];
+	images: string[];
+	publishedAt: Date | null;
+	updatedAt: Date | null;
+}
+
+export interface ParsedFeed {
+	format: 'rss' | 'atom';
+	title: string | null;
+	link: string | null;
+	items: FeedItem[];
+}
+
+/**
+ * Feed Extractor
+ * Parses RSS 2.0 / RSS 1.0 and Atom documents, including Media RSS
+ * (media:content, media:thumbnail) images and categories
+ */
+export class FeedExtractor {
+	/**
+	 * Parse a feed document. Throws when the document is neither RSS nor Atom.
+	 */
+	static parse(xml: string, feedUrl: string): ParsedFeed {
+		const $ = cheerio.load(xml, { xml: true });
+
+		if ($('feed').length > 0) {
+			return this.parseAtom($, feedUrl);
+		}
+
+		if ($('rss, channel').length > 0) {
+			return this.parseRss($, feedUrl);
+		}
+
+		throw new Error(`Not an RSS or Atom feed: ${feedUrl}`);
+	}
+
+	private static parseRss($: CheerioAPI, feedUrl: string): ParsedFeed {
+		const channel = $('channel').first();
+		const items: FeedItem[] = [];
+
+		$('item').each((_, element) => {
+			const item = $(element);
+			const link = DomExtractor.absoluteUrl(this.text(item, 'link') || this.permalinkGuid(item), feedUrl);
+			const summary = this.text(item, 'description');
+			const content = this.text(item, 'content\\:encoded');
+
+			items.push({
+				id: this.text(item, 'guid') || link || this.text(item, 'title') || '',
+				title: this.htmlToText(this.text(item, 'title')) || '',
+				link,
+				summary: this.htmlToText(summary),
+				content,
+				author: this.text(item, 'dc\\:creator') || this.text(item, 'author'),
+				categories: this.texts($, item, 'category, dc\\:subject'),
+				images: this.images($, item, link || feedUrl, [summary, content]),
+				publishedAt: MetadataExtractor.parseDate(this.text(item, 'pubDate') || this.text(item, 'dc\\:date')),
+				updatedAt: MetadataExtractor.parseDate(this.text(item, 'atom\\:updated')),
+			});
+		});
+
+		return {
+			format: 'rss',
+			title: this.text(channel, 'title'),
+			link: DomExtractor.absoluteUrl(channel.children('link').first().text().trim(), feedUrl),
+			items: items.filter(item => item.title || item.link),
+		};
+	}
+
+	private static parseAtom($: CheerioAPI, feedUrl: string): ParsedFeed {
+		const feed = $('feed').first();
+		const items: FeedItem[] = [];
+
+		$('entry').each((_, element) => {
+			const entry = $(element);
+			const link = DomExtractor.absoluteUrl(this.atomLink(entry), feedUrl);
+			const summary = this.text(entry, 'summary');
+			const content = this.text(entry, 'content');
+
+			items.push({
+				id: this.text(entry, 'id') || link || '',
+				title: this.htmlToText(this.text(entry, 'title')) || '',
+				link,
+				summary: this.htmlToText(summary || content),
+				content,
+				author: this.text(entry.children('author').first(), 'name'),
+				categories: entry.children('category')
+					.map((_, category) => $(category).attr('label') || $(category).attr('term') || '')
+					.get()
+					.filter(Boolean),
+				images: this.images($, entry, link || feedUrl, [summary, content]),
+				publishedAt: MetadataExtractor.parseDate(this.text(entry, 'published')),
+				updatedAt: MetadataExtractor.parseDate(this.text(entry, 'updated')),
+			});
+		});
+
+		return {
+			format: 'atom',
+			title: this.text(feed, 'title'),
+			link: DomExtractor.absoluteUrl(this.atomLink(feed), feedUrl),
+			items: items.filter(item => item.title || item.link),
+		};
+	}
+
+	/**
+	 * Text of a direct child element
+	 */
+	private static text(scope: Cheerio<any>, selector: string): string | null {
+		const value = scope.children(selector).first().text().trim();
+		return value || null;
+	}
+
+	private static texts($: CheerioAPI, scope: Cheerio<any>, selector: string): string[] {
+		return [...new Set(scope.children(selector)
+			.map((_, element) => $(element).text().trim())
+			.get()
+			.filter(Boolean))];
+	}
+
+	/**
+	 * RSS guid doubles as the link unless isPermaLink="false"
+	 */
+	private static permalinkGuid(item: Cheerio<any>): string | null {
+		const guid = item.children('guid').first();
+		if (guid.length === 0 || guid.attr('isPermaLink') === 'false') {
+			return null;
+		}
+		const value = guid.text().trim();
+		return /^https?:\/\//i.test(value) ? value : null;
+	}
+
+	private static atomLink(scope: Cheerio<any>): string | null {
+		const links = scope.children('link');
+		const alternate = links.filter((_, link) => {
+			const rel = link.attribs?.rel;
+			return !rel || rel === 'alternate';
+		}).first();
+
+		return alternate.attr('href') || null;
+	}
+
+	/**
+	 * Media RSS images, image enclosures, then <img> tags inside the HTML body
+	 */
+	private static images($: CheerioAPI, scope: Cheerio<any>, baseUrl: string, htmlBodies: Array<string | null>): string[] {
+		const urls: Array<string | undefined> = [];
+
+		scope.find('media\\:content, media\\:thumbnail').each((_, element) => {
+			const media = $(element);
+			const medium = media.attr('medium');
+			const type = media.attr('type');
+			if ((!medium && !type) || medium === 'image' || type?.startsWith('image/') || element.tagName === 'media:thumbnail') {
+				urls.push(media.attr('url'));
+			}
+		});
+
+		scope.children('enclosure, link[rel="enclosure"]').each((_, element) => {
+			const enclosure = $(element);
+			if (enclosure.attr('type')?.startsWith('image/')) {
+				urls.push(enclosure.attr('url') || enclosure.attr('href'));
+			}
+		});
+
+		for (const html of htmlBodies) {
+			if (!html) continue;
+			const body = DomExtractor.load(html);
+			body('img').each((_, element) => {
+				urls.push(body(element).attr('src'));
+			});
+		}
+
+		return [...new Set(urls
+			.map(url => DomExtractor.absoluteUrl(url, baseUrl))
+			.filter((url): url is string => !!url))];
+	}
+
+	/**
+	 * Feed titles and descriptions often carry escaped HTML
+	 */
+	private static htmlToText(value: string | null): string | null {
+		if (!value) {
+			return null;
+		}
+		const text = DomExtractor.cleanText(DomExtractor.load(value).root().text());
+		return text || null;
+	}
+}
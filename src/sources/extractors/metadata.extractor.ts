@@ -0,0 +1,232 @@
+import type { CheerioAPI } from 'cheerio';
+import { DomExtractor } from './dom.extractor';
+
+// schema.org types treated as articles
+const ARTICLE_TYPES = ['Article', 'NewsArticle', 'BlogPosting', 'ReportageNewsArticle', 'AnalysisNewsArticle', 'OpinionNewsArticle', 'ReviewNewsArticle', 'WebPage'];
+
+/**
+ * An entry of a schema.org ItemList (listing pages)
+ */
+export interface ListItemMetadata {
+	url: string;
+	name: string | null;
+	publishedAt: Date | null;
+	image: string | null;
+}
+
+/**
+ * Page metadata merged from JSON-LD, OpenGraph, Twitter cards and plain meta tags
+ * (in that order of precedence)
+ */
+export interface ArticleMetadata {
+	canonicalUrl: string | null;
+	headline: string | null;
+	description: string | null;
+	authors: string[];
+	publishedAt: Date | null;
+	modifiedAt: Date | null;
+	section: string | null;
+	keywords: string[];
+	image: string | null;
+	siteName: string | null;
+	type: string | null;
+	listItems: ListItemMetadata[];
+}
+
+/**
+ * Metadata Extractor
+ * Reads structured data publishers embed for search engines and social cards
+ */
+export class MetadataExtractor {
+	/**
+	 * Extract metadata from a page
+	 */
+	static extract(html: string | CheerioAPI, pageUrl: string): ArticleMetadata {
+		const $ = typeof html === 'string' ? DomExtractor.load(html) : html;
+		const nodes = this.readJsonLd($);
+		const article = nodes.find(node => this.hasType(node, ARTICLE_TYPES.filter(type => type !== 'WebPage')))
+			|| nodes.find(node => this.hasType(node, ['WebPage']));
+
+		const url = (value: unknown) => DomExtractor.absoluteUrl(this.asText(value), pageUrl);
+
+		const canonicalUrl = url(article?.mainEntityOfPage?.['@id'] ?? article?.mainEntityOfPage)
+			|| url(article?.url)
+			|| url(this.attr($, 'link[rel="canonical"]', 'href'))
+			|| url(this.meta($, 'og:url'));
+
+		const headline = this.asText(article?.headline) || this.asText(article?.name)
+			|| this.meta($, 'og:title')
+			|| this.meta($, 'twitter:title')
+			|| DomExtractor.readDocumentField($, ['title']);
+
+		const description = this.asText(article?.description)
+			|| this.meta($, 'og:description')
+			|| this.meta($, 'twitter:description')
+			|| this.meta($, 'description');
+
+		let authors = this.names(article?.author);
+		if (authors.length === 0) {
+			// article:author is often a profile URL rather than a name
+			authors = this.metaAll($, 'article:author').filter(author => !/^https?:\/\//i.test(author));
+		}
+		if (authors.length === 0) {
+			authors = this.metaAll($, 'author');
+		}
+
+		const keywords = this.list(article?.keywords);
+
+		return {
+			canonicalUrl,
+			headline,
+			description,
+			authors: this.unique(authors),
+			publishedAt: this.parseDate(this.asText(article?.datePublished))
+				|| this.parseDate(this.meta($, 'article:published_time'))
+				|| this.parseDate(this.meta($, 'pubdate')),
+			modifiedAt: this.parseDate(this.asText(article?.dateModified))
+				|| this.parseDate(this.meta($, 'article:modified_time'))
+				|| this.parseDate(this.meta($, 'og:updated_time')),
+			section: this.list(article?.articleSection)[0]
+				|| this.meta($, 'article:section'),
+			keywords: this.unique(keywords.length > 0
+				? keywords
+				: [...this.metaAll($, 'article:tag'), ...this.list(this.meta($, 'keywords'))]),
+			image: url(this.imageUrl(article?.image))
+				|| url(this.meta($, 'og:image'))
+				|| url(this.meta($, 'twitter:image')),
+			siteName: this.asText(article?.publisher?.name)
+				|| this.meta($, 'og:site_name'),
+			type: this.list(article?.['@type'])[0]
+				|| this.meta($, 'og:type'),
+			listItems: this.readListItems(nodes, pageUrl),
+		};
+	}
+
+	/**
+	 * Parse a date string, returning null when missing or invalid
+	 */
+	static parseDate(value: string | null | undefined): Date | null {
+		if (!value) {
+			return null;
+		}
+
+		const date = new Date(value);
+		return isNaN(date.getTime()) ? null : date;
+	}
+
+	/**
+	 * All JSON-LD nodes on the page, with arrays and @graph flattened
+	 */
+	private static readJsonLd($: CheerioAPI): any[] {
+		const nodes: any[] = [];
+
+		const collect = (value: any) => {
+			if (Array.isArray(value)) {
+				value.forEach(collect);
+			} else if (value && typeof value === 'object') {
+				nodes.push(value);
+				if (value['@graph']) {
+					collect(value['@graph']);
+				}
+			}
+		};
+
+		$('script[type="application/ld+json"]').each((_, element) => {
+			try {
+				collect(JSON.parse($(element).text()));
+			} catch {
+				// Publishers occasionally ship broken JSON-LD; other sources still apply
+			}
+		});
+
+		return nodes;
+	}
+
+	private static readListItems(nodes: any[], pageUrl: string): ListItemMetadata[] {
+		const items: ListItemMetadata[] = [];
+
+		for (const node of nodes.filter(node => this.hasType(node, ['ItemList']))) {
+			for (const element of [].concat(node.itemListElement || [])) {
+				const entry: any = element;
+				const target = entry?.item && typeof entry.item === 'object' ? entry.item : entry;
+				const url = DomExtractor.absoluteUrl(this.asText(target?.url) || this.asText(entry?.url), pageUrl);
+
+				if (!url) {
+					continue;
+				}
+
+				items.push({
+					url,
+					name: this.asText(target?.name) || this.asText(target?.headline) || this.asText(entry?.name),
+					publishedAt: this.parseDate(this.asText(target?.datePublished)),
+					image: DomExtractor.absoluteUrl(this.imageUrl(target?.image), pageUrl),
+				});
+			}
+		}
+
+		return items;
+	}
+
+	private static hasType(node: any, types: string[]): boolean {
+		return this.list(node?.['@type']).some(type => types.includes(type));
+	}
+
+	/**
+	 * Content of the first <meta> whose property or name matches
+	 */
+	private static meta($: CheerioAPI, key: string): string | null {
+		return this.metaAll($, key)[0] || null;
+	}
+
+	private static metaAll($: CheerioAPI, key: string): string[] {
+		return $(`meta[property="${key}"], meta[name="${key}"]`)
+			.map((_, element) => DomExtractor.cleanText($(element).attr('content') || ''))
+			.get()
+			.filter(Boolean);
+	}
+
+	private static attr($: CheerioAPI, selector: string, name: string): string | null {
+		return $(selector).first().attr(name) || null;
+	}
+
+	private static asText(value: unknown): string | null {
+		if (typeof value === 'string' || typeof value === 'number') {
+			const text = DomExtractor.cleanText(String(value));
+			return text || null;
+		}
+		return null;
+	}
+
+	/**
+	 * schema.org Person/Organization (or arrays of them) to display names
+	 */
+	private static names(value: any): string[] {
+		return [].concat(value || [])
+			.map((entry: any) => this.asText(typeof entry === 'object' ? entry?.name : entry))
+			.filter((name): name is string => !!name);
+	}
+
+	/**
+	 * A string, comma-separated string or array to a list of strings
+	 */
+	private static list(value: any): string[] {
+		if (Array.isArray(value)) {
+			return value.flatMap(entry => this.list(entry));
+		}
+
+		const text = this.asText(value);
+		return text ? text.split(',').map(part => part.trim()).filter(Boolean) : [];
+	}
+
+	private static imageUrl(value: any): string | null {
+		const first = Array.isArray(value) ? value[0] : value;
+		if (first && typeof first === 'object') {
+			return this.asText(first.url) || this.asText(first.contentUrl);
+		}
+		return this.asText(first);
+	}
+
+	private static unique(values: string[]): string[] {
+		return [...new Set(values)];
+	}
+}
@@ -0,0 +1,76 @@
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import { DomExtractor } from './dom.extractor';
+import { MetadataExtractor } from './metadata.extractor';
+
+/**
+ * A <url> entry of a urlset, or a <sitemap> entry of a sitemap index
+ */
+export interface SitemapEntry {
+	url: string;
+	lastModified: Date | null;
+	// Google News sitemap extension (news:news)
+	title: string | null;
+	publishedAt: Date | null;
+	// Google Image sitemap extension (image:image)
+	images: string[];
+}
+
+export interface ParsedSitemap {
+	type: 'urlset' | 'index';
+	entries: SitemapEntry[];
+}
+
+/**
+ * Sitemap Extractor
+ * Parses sitemaps.org urlsets and sitemap indexes, including the Google News
+ * and Image extensions publishers use for article sitemaps
+ */
+export class SitemapExtractor {
+	/**
+	 * Parse a sitemap document. Throws when it is neither a urlset nor an index.
+	 */
+	static parse(xml: string, sitemapUrl: string): ParsedSitemap {
+		const $ = cheerio.load(xml, { xml: true });
+
+		if ($('sitemapindex').length > 0) {
+			const entries = $('sitemapindex > sitemap')
+				.map((_, element) => this.readEntry($, $(element), sitemapUrl))
+				.get()
+				.filter((entry): entry is SitemapEntry => !!entry);
+
+			return { type: 'index', entries };
+		}
+
+		if ($('urlset').length > 0) {
+			const entries = $('urlset > url')
+				.map((_, element) => this.readEntry($, $(element), sitemapUrl))
+				.get()
+				.filter((entry): entry is SitemapEntry => !!entry);
+
+			return { type: 'urlset', entries };
+		}
+
+		throw new Error(`Not a sitemap: ${sitemapUrl}`);
+	}
+
+	private static readEntry($: CheerioAPI, scope: Cheerio<any>, sitemapUrl: string): SitemapEntry | null {
+		const url = DomExtractor.absoluteUrl(scope.children('loc').first().text().trim(), sitemapUrl);
+		if (!url) {
+			return null;
+		}
+
+		const news = scope.children('news\\:news').first();
+
+		return {
+			url,
+			lastModified: MetadataExtractor.parseDate(scope.children('lastmod').first().text().trim() || null),
+			title: DomExtractor.cleanText(news.children('news\\:title').first().text()) || null,
+			publishedAt: MetadataExtractor.parseDate(news.children('news\\:publication_date').first().text().trim() || null),
+			images: scope.children('image\\:image').children('image\\:loc')
+				.map((_, loc) => DomExtractor.absoluteUrl($(loc).text().trim(), url))
+				.get()
+				.filter(Boolean),
+		};
+	}
+}
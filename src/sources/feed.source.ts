@@ -0,0 +1,232 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { BaseSocialMediaSource, ScrapedPostData, ScrapingConditions, SourceDefinition } from './base.source';
+import { FeedExtractor, FeedItem, ParsedFeed } from './extractors/feed.extractor';
+import { DEFAULT_USER_AGENT } from '../services/browser-pool.service';
+import { FixtureStore } from '../services/fixture-store.service';
+import { config } from '../config';
+import { logger } from '../utils/logger';
+
+/**
+ * Validators from the last successful fetch of a feed, sent back as
+ * If-None-Match / If-Modified-Since so unchanged feeds answer 304
+ */
+interface FeedValidators {
+	etag?: string;
+	lastModified?: string;
+}
+
+// Shared across instances (the registry creates a fresh source per run)
+const feedValidators = new Map<string, FeedValidators>();
+
+// Validators of the current run, kept back until its items are processed
+// (a run that stops early must fetch the same items again next time)
+const pendingValidators = new Map<string, FeedValidators>();
+
+/**
+ * RSS/Atom Feed Source
+ * Lightweight alternative to browser scraping for publications that expose
+ * feeds. Reads feed URLs from the scraping conditions (defaults to FEED_URLS).
+ */
+export class FeedSource extends BaseSocialMediaSource {
+	readonly definition: SourceDefinition = {
+		id: 'feed',
+		displayName: 'RSS/Atom Feeds',
+		platform: 'FEED',
+		defaultConditions: {
+			urls: config.feeds.urls,
+			maxResults: 50,
+		},
+		capabilities: {
+			usesBrowser: false,
+			// Only part of automatic runs once feeds are configured
+			scheduled: config.feeds.urls.length > 0,
+			requiresUrls: true,
+			backfill: false,
+		},
+	};
+
+	constructor() {
+		super('FEED');
+	}
+
+	async initialize(): Promise<void> {
+		// Plain HTTP, nothing to set up
+		logger.info('Feed source ready');
+	}
+
+	async scrape(conditions: ScrapingConditions): Promise<ScrapedPostData[]> {
+		const urls = conditions.urls || [];
+		const maxResults = conditions.maxResults || 50;
+		let posts: ScrapedPostData[] = [];
+
+		if (urls.length === 0) {
+			logger.warn('No feed URLs provided for scraping');
+			return posts;
+		}
+
+		logger.info(`Starting feed scraping for ${urls.length} feed(s)`);
+		pendingValidators.clear();
+
+		for (const url of urls) {
+			try {
+				if (!(await this.isCrawlAllowed(url))) {
+					continue;
+				}
+
+				await this.respectRateLimit();
+
+				const xml = await this.fetchFeed(url);
+				if (xml === null) {
+					logger.info(`⏭️  Feed not modified since last run: ${url}`);
+					continue;
+				}
+
+				const feed = FeedExtractor.parse(xml, url);
+				const items = feed.items.filter(item => this.matchesConditions(item, conditions));
+
+				logger.info(`✓ ${feed.title || url}: ${feed.items.length} items (${items.length} after filtering)`);
+
+				posts.push(...items.map(item => this.toPost(item, feed, url)));
+			} catch (error: any) {
+				logger.error(`Failed to read feed: ${url}`, error.message);
+			}
+		}
+
+		// Newest first across all feeds
+		posts = posts
+			.sort((a, b) => b.postedAt.getTime() - a.postedAt.getTime())
+			.slice(0, maxResults);
+
+		logger.info(`Feed scraping completed. Found ${posts.length} items`);
+		return posts;
+	}
+
+	async cleanup(): Promise<void> {
+		// No browser or connections to release
+	}
+
+	async testConnection(): Promise<boolean> {
+		const [url] = this.definition.defaultConditions.urls || [];
+
+		if (!url) {
+			logger.warn('No feed URLs configured');
+			return false;
+		}
+
+		try {
+			const response = await axios.head(url, {
+				headers: { 'User-Agent': DEFAULT_USER_AGENT },
+				timeout: 15000,
+				validateStatus: () => true,
+			});
+
+			logger.info(`Feed connection test (${url}): ${response.status}`);
+			return response.status < 400;
+		} catch (error: any) {
+			logger.error('Feed connection test failed:', error.message);
+			return false;
+		}
+	}
+
+	/**
+	 * Forget stored ETag/Last-Modified validators (next run fetches everything)
+	 */
+	static resetValidators(): void {
+		feedValidators.clear();
+		pendingValidators.clear();
+	}
+
+	/**
+	 * Keep the validators of the last scrape for the next run's conditional
+	 * GET; call once its items are stored and normalized
+	 */
+	static commitValidators(): void {
+		pendingValidators.forEach((validators, url) => feedValidators.set(url, validators));
+		pendingValidators.clear();
+	}
+
+	/**
+	 * Conditional GET. Returns null when the feed has not changed (304).
+	 * Replayed runs read the recorded feed, which is never "not modified".
+	 */
+	protected async fetchFeed(url: string): Promise<string | null> {
+		if (FixtureStore.isReplaying()) {
+			return FixtureStore.fetch(url, async () => '');
+		}
+
+		const validators = feedValidators.get(url);
+		const headers: Record<string, string> = {
+			'User-Agent': DEFAULT_USER_AGENT,
+			'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8, */*;q=0.5',
+		};
+
+		if (validators?.etag) headers['If-None-Match'] = validators.etag;
+		if (validators?.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+
+		const response = await axios.get(url, {
+			headers,
+			timeout: 30000,
+			maxRedirects: 5,
+			responseType: 'text',
+			validateStatus: status => (status >= 200 && status < 300) || status === 304,
+		});
+
+		if (response.status === 304) {
+			return null;
+		}
+
+		const etag = response.headers['etag'];
+		const lastModified = response.headers['last-modified'];
+		if (etag || lastModified) {
+			pendingValidators.set(url, { etag, lastModified });
+		}
+
+		const body = String(response.data);
+		if (FixtureStore.getMode() === 'record') {
+			FixtureStore.write(url, body);
+		}
+
+		return body;
+	}
+
+	private matchesConditions(item: FeedItem, conditions: ScrapingConditions): boolean {
+		if (!this.isWithinDateRange(item.publishedAt || item.updatedAt, conditions)) return false;
+
+		const keywords = conditions.keywords || [];
+		if (keywords.length === 0) return true;
+
+		const searchText = `${item.title} ${item.summary || ''} ${item.categories.join(' ')}`.toLowerCase();
+		return keywords.some(keyword => searchText.includes(keyword.toLowerCase()));
+	}
+
+	private toPost(item: FeedItem, feed: ParsedFeed, feedUrl: string): ScrapedPostData {
+		const host = new URL(item.link || feed.link || feedUrl).hostname;
+		const description = item.summary || '';
+
+		return {
+			platformPostId: `feed_${crypto.createHash('sha1').update(item.id || item.link || item.title).digest('hex').substring(0, 32)}`,
+			platform: 'FEED',
+			author: item.author || feed.title || host,
+			authorHandle: host,
+			text: `${item.title}${description ? ': ' + description : ''}`,
+			mediaUrls: item.images,
+			postedAt: item.publishedAt || item.updatedAt || new Date(),
+			likes: 0,
+			comments: 0,
+			shares: 0,
+			views: 0,
+			sourceUrl: item.link || undefined,
+			rawContent: {
+				title: item.title,
+				description,
+				content: item.content,
+				categories: item.categories,
+				guid: item.id,
+				feedUrl,
+				feedTitle: feed.title,
+				format: feed.format,
+			}
+		};
+	}
+}
@@ -1,6 +1,13 @@
-import { chromium, Browser, Page } from 'playwright';
-import { BaseSocialMediaSource, ScrapedPostData, ScrapingConditions } from './base.source';
+import { Page } from 'playwright';
+import type { CheerioAPI } from 'cheerio';
+import { BaseSocialMediaSource, ScrapedPostData, ScrapingConditions, SourceDefinition } from './base.source';
+import { browserPool, BrowserLease, DEFAULT_USER_AGENT } from '../services/browser-pool.service';
+import { config } from '../config';
 import { logger } from '../utils/logger';
+import { FixtureStore } from '../services/fixture-store.service';
+import { DomExtractor } from './extractors/dom.extractor';
+import { ArticleMetadata, MetadataExtractor } from './extractors/metadata.extractor';
+import { HARPER_SELECTORS } from './extractors/selector-maps';
 import * as fs from 'fs';
 import * as path from 'path';
 import axios from 'axios';
@@ -22,13 +29,11 @@ import axios from 'axios';
  * 10. Uses section pages for efficient access
  */
 export class HarperSource extends BaseSocialMediaSource {
-	private browser: Browser | null = null;
+	private lease: BrowserLease | null = null;
 	private page: Page | null = null;
 	private isInitialized = false;
 	private readonly HARPER_BASE_URL = 'https://www.harpersbazaar.com';
 	private readonly HARPER_FASHION_URL = 'https://www.harpersbazaar.com/fashion/';
-	private lastRequestTime: number = 0;
-	private readonly MIN_REQUEST_DELAY = 2000; // 2 seconds between requests (Rule 8: Be polite)
 
 	// Fashion-related keywords for filtering content
 	private readonly FASHION_KEYWORDS = [
@@ -49,38 +54,51 @@ export class HarperSource extends BaseSocialMediaSource {
 		'luxury'
 	];
 
+	readonly definition: SourceDefinition = {
+		id: 'harper',
+		displayName: 'Harper\'s Bazaar',
+		platform: 'HARPER',
+		defaultConditions: {
+			keywords: ['fashion', 'style', 'runway', 'collection', 'designer', 'couture', 'luxury'],
+			maxResults: 50,
+			discovery: config.sitemaps.discovery ? 'sitemap' : 'listing',
+		},
+		capabilities: {
+			usesBrowser: true,
+			scheduled: true,
+			requiresUrls: false,
+			backfill: true,
+		},
+		sitemap: {
+			origin: 'https://www.harpersbazaar.com',
+			pathPrefixes: ['/fashion/'],
+		},
+	};
+
 	constructor() {
 		super('HARPER_BAZAAR');
 	}
 
 	async initialize(): Promise<void> {
+		// Replayed runs read fixtures and never open a browser
+		if (FixtureStore.isReplaying()) {
+			return;
+		}
+
 		try {
-			if (this.isInitialized && this.browser && this.page) {
+			if (this.isInitialized && this.lease && this.page) {
 				logger.info('Harper\'s Bazaar scraper already initialized');
 				return;
 			}
 
 			logger.info('Initializing Harper\'s Bazaar fashion scraper...');
 
-			this.browser = await chromium.launch({
-				headless: true,
-				args: [
-					'--no-sandbox',
-					'--disable-setuid-sandbox',
-					'--disable-blink-features=AutomationControlled',
-					'--disable-dev-shm-usage',
-					'--disable-web-security',
-					'--disable-features=IsolateOrigins,site-per-process',
-					'--disable-http2'
-				]
-			});
-
-			const context = await this.browser.newContext({
-				userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+			// Borrow an isolated context from the shared browser
+			this.lease = await browserPool.acquire({
+				userAgent: DEFAULT_USER_AGENT,
 				viewport: { width: 1920, height: 1080 },
 				locale: 'en-US',
 				timezoneId: 'America/New_York',
-				permissions: [],
 				extraHTTPHeaders: {
 					'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
 					'Accept-Encoding': 'gzip, deflate, br',
@@ -95,7 +113,7 @@ export class HarperSource extends BaseSocialMediaSource {
 				}
 			});
 
-			this.page = await context.newPage();
+			this.page = this.lease.page;
 
 			// Additional anti-detection measures
 			await this.page.addInitScript(() => {
@@ -129,114 +147,41 @@ export class HarperSource extends BaseSocialMediaSource {
 			logger.info(`Starting Harper's Bazaar fashion scraping with keywords: ${keywords.join(', ')}`);
 			logger.info(`Target: ${maxResults} items`);
 
+			// Sitemaps list every new article, not just what the landing page shows
+			if (conditions.discovery === 'sitemap') {
+				const sitemapPosts = await this.scrapeFromSitemaps({ ...conditions, keywords, maxResults });
+				this.saveToJsonFile(sitemapPosts, 'harper');
+				return sitemapPosts;
+			}
+
+			// Rule 1: Respect robots.txt
+			await this.assertCrawlAllowed(this.HARPER_FASHION_URL);
+
 			// Rule 8: Be polite - rate limiting
 			await this.respectRateLimit();
 
 			// Rule 10: Use search pages - using Harper's Bazaar fashion section
 			logger.info(`Fetching URL: ${this.HARPER_FASHION_URL}`);
-			logger.info('Using public fashion section (allowed per robots.txt rules)');
-
-			let htmlContent = '';
-			let usePlaywright = false;
-
-			try {
-				const response = await axios.get(this.HARPER_FASHION_URL, {
-					headers: {
-						'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-						'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
-						'Accept-Language': 'en-US,en;q=0.9',
-						'Accept-Encoding': 'gzip, deflate, br',
-						'Connection': 'keep-alive',
-						'Upgrade-Insecure-Requests': '1',
-						'Sec-Fetch-Dest': 'document',
-						'Sec-Fetch-Mode': 'navigate',
-						'Sec-Fetch-Site': 'none',
-						'Cache-Control': 'max-age=0'
-					},
-					timeout: 60000,
-					maxRedirects: 5
-				});
-
-				htmlContent = response.data;
-				logger.info(`Successfully fetched HTML with axios (${htmlContent.length} characters)`);
-
-				if (htmlContent.length < 1000) {
-					logger.warn('HTML content too short, falling back to Playwright');
-					usePlaywright = true;
-				}
-			} catch (error: any) {
-				logger.warn(`Axios fetch failed: ${error.message}, falling back to Playwright`);
-				usePlaywright = true;
-			}
-
-			// Fallback to Playwright if axios failed
-			if (usePlaywright) {
-				if (!this.isInitialized || !this.page) {
-					await this.initialize();
-				}
-
-				logger.info(`Navigating with Playwright to: ${this.HARPER_FASHION_URL}`);
-
-				const pageTimeout = conditions.pageTimeout || 90000;
-				let retries = 2;
-
-				while (retries > 0) {
-					try {
-						// Rule 8: Be polite - rate limiting before navigation
-						await this.respectRateLimit();
-
-						await this.page!.goto(this.HARPER_FASHION_URL, {
-							waitUntil: 'networkidle',
-							timeout: pageTimeout
-						});
-
-						logger.info('Page loaded successfully with Playwright');
+			logger.info('Using public fashion section (allowed by robots.txt)');
 
-						// Rule 5: Wait for JavaScript to render
-						await this.page!.waitForTimeout(5000);
-
-						// Rule 3: Inspect site - wait for content selectors
-						try {
-							await this.page!.waitForSelector('article', { timeout: 10000 });
-							logger.info('Content selectors found');
-						} catch (e) {
-							logger.warn('Content selectors not found, continuing anyway');
-						}
-
-						// Rule 7: Handle pagination - scroll to load more content
-						await this.scrollToLoadMore(this.page!, 3);
-
-						htmlContent = await this.page!.content();
-						logger.info(`Successfully fetched HTML with Playwright (${htmlContent.length} characters)`);
-						break;
-
-					} catch (error: any) {
-						retries--;
-						logger.error(`Failed to load page (${retries} retries left):`, error.message);
-
-						if (retries === 0) {
-							throw error;
-						}
-
-						logger.info('Retrying after 5 seconds...');
-						await new Promise(resolve => setTimeout(resolve, 5000));
-					}
-				}
-			}
+			// Replayed from fixtures in offline tests (recorded in record mode)
+			const htmlContent = await FixtureStore.fetch(this.HARPER_FASHION_URL, () => this.fetchFashionPage(conditions));
 
 			// Save HTML to file (Rule 9: Store in structured format)
 			this.saveHtmlToFile(htmlContent, 'harper');
 
-			// Rule 2 & 3: Extract metadata and parse HTML
-			const metadata = this.extractMetadataFromHtml(htmlContent);
-			logger.info('Page metadata extracted:', metadata);
+			// Rule 2 & 3: Extract structured metadata and parse HTML
+			const $ = DomExtractor.load(htmlContent);
+			const metadata = MetadataExtractor.extract($, this.HARPER_FASHION_URL);
+			logger.info(`Page metadata extracted: ${metadata.headline} (${metadata.listItems.length} listed items)`);
 
 			// Extract articles from HTML
-			const articles = this.extractArticlesFromHtml(htmlContent);
+			const articles = this.extractArticlesFromHtml($, metadata);
 			logger.info(`Found ${articles.length} articles before filtering`);
 
-			// Rule 6: Filter by fashion keywords
-			const filteredArticles = this.filterByKeywords(articles, keywords);
+			// Rule 6: Filter by fashion keywords (and the requested date range)
+			const filteredArticles = this.filterByKeywords(articles, keywords)
+				.filter(article => this.isWithinDateRange(article.publishedDate, conditions));
 			logger.info(`Filtered to ${filteredArticles.length} articles matching fashion keywords`);
 
 			// Convert to ScrapedPostData format
@@ -248,7 +193,7 @@ export class HarperSource extends BaseSocialMediaSource {
 					authorHandle: 'harpersbazaar',
 					text: article.text || article.title || '',
 					mediaUrls: article.imageUrl ? [article.imageUrl] : [],
-					postedAt: article.publishedDate ? new Date(article.publishedDate) : new Date(),
+					postedAt: article.publishedDate || new Date(),
 					likes: 0,
 					comments: 0,
 					shares: 0,
@@ -260,6 +205,11 @@ export class HarperSource extends BaseSocialMediaSource {
 				posts.push(post);
 			}
 
+			// Optional second stage: full article content
+			if (conditions.crawlArticles) {
+				await this.crawlArticleDetails(posts, conditions);
+			}
+
 			// Save to JSON file (Rule 9: Store in structured format)
 			this.saveToJsonFile(posts, 'harper');
 
@@ -274,14 +224,12 @@ export class HarperSource extends BaseSocialMediaSource {
 
 	async cleanup(): Promise<void> {
 		try {
-			if (this.page) {
-				await this.page.close();
-				this.page = null;
-			}
-			if (this.browser) {
-				await this.browser.close();
-				this.browser = null;
+			// Closing the borrowed context also aborts in-flight navigation
+			if (this.lease) {
+				await this.lease.release();
+				this.lease = null;
 			}
+			this.page = null;
 			this.isInitialized = false;
 			logger.info('Harper\'s Bazaar scraper cleaned up');
 		} catch (error) {
@@ -293,6 +241,10 @@ export class HarperSource extends BaseSocialMediaSource {
 		try {
 			logger.info('Testing Harper\'s Bazaar connection...');
 
+			if (!(await this.isCrawlAllowed(this.HARPER_FASHION_URL))) {
+				return false;
+			}
+
 			await this.respectRateLimit();
 
 			const response = await axios.get(this.HARPER_FASHION_URL, {
@@ -311,20 +263,6 @@ export class HarperSource extends BaseSocialMediaSource {
 		}
 	}
 
-	// Rule 8: Be polite - Rate limiting
-	private async respectRateLimit(): Promise<void> {
-		const now = Date.now();
-		const timeSinceLastRequest = now - this.lastRequestTime;
-
-		if (timeSinceLastRequest < this.MIN_REQUEST_DELAY) {
-			const waitTime = this.MIN_REQUEST_DELAY - timeSinceLastRequest;
-			logger.info(`Rate limiting: waiting ${waitTime}ms before next request`);
-			await new Promise(resolve => setTimeout(resolve, waitTime));
-		}
-
-		this.lastRequestTime = Date.now();
-	}
-
 	// Rule 7: Handle pagination - scroll to load more content
 	private async scrollToLoadMore(page: Page, scrolls: number = 3): Promise<void> {
 		logger.info(`Scrolling page ${scrolls} times to load more content`);
@@ -339,154 +277,116 @@ export class HarperSource extends BaseSocialMediaSource {
 		}
 	}
 
-	// Rule 2: Extract metadata from HTML
-	private extractMetadataFromHtml(html: string): any {
-		const metadata: any = {};
+	/**
+	 * Fetch the fashion landing page with axios, falling back to Playwright
+	 * (Rule 5: JavaScript rendering, Rule 7: scrolling for more items)
+	 */
+	private async fetchFashionPage(conditions: ScrapingConditions): Promise<string> {
+		let htmlContent = '';
+		let usePlaywright = false;
 
-		// Extract title
-		const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
-		if (titleMatch) {
-			metadata.title = titleMatch[1].trim();
-		}
+		try {
+			const response = await axios.get(this.HARPER_FASHION_URL, {
+				headers: {
+					'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+					'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
+					'Accept-Language': 'en-US,en;q=0.9',
+					'Accept-Encoding': 'gzip, deflate, br',
+					'Connection': 'keep-alive',
+					'Upgrade-Insecure-Requests': '1',
+					'Sec-Fetch-Dest': 'document',
+					'Sec-Fetch-Mode': 'navigate',
+					'Sec-Fetch-Site': 'none',
+					'Cache-Control': 'max-age=0'
+				},
+				timeout: 60000,
+				maxRedirects: 5
+			});
 
-		// Extract meta description
-		const descMatch = html.match(/<meta\s+name=["']description["']\s+content=["']([^"']+)["']/i);
-		if (descMatch) {
-			metadata.description = descMatch[1].trim();
-		}
+			htmlContent = response.data;
+			logger.info(`Successfully fetched HTML with axios (${htmlContent.length} characters)`);
 
-		// Extract Open Graph data
-		const ogTitleMatch = html.match(/<meta\s+property=["']og:title["']\s+content=["']([^"']+)["']/i);
-		if (ogTitleMatch) {
-			metadata.ogTitle = ogTitleMatch[1].trim();
+			if (htmlContent.length < 1000) {
+				logger.warn('HTML content too short, falling back to Playwright');
+				usePlaywright = true;
+			}
+		} catch (error: any) {
+			logger.warn(`Axios fetch failed: ${error.message}, falling back to Playwright`);
+			usePlaywright = true;
 		}
 
-		const ogImageMatch = html.match(/<meta\s+property=["']og:image["']\s+content=["']([^"']+)["']/i);
-		if (ogImageMatch) {
-			metadata.ogImage = ogImageMatch[1].trim();
-		}
+		// Fallback to Playwright if axios failed
+		if (usePlaywright) {
+			if (!this.isInitialized || !this.page) {
+				await this.initialize();
+			}
 
-		return metadata;
-	}
+			logger.info(`Navigating with Playwright to: ${this.HARPER_FASHION_URL}`);
 
-	// Rule 3: Inspect site and extract articles
-	private extractArticlesFromHtml(html: string): any[] {
-		const articles: any[] = [];
-
-		// Pattern 1: Extract Harper's Bazaar specific format with data-theme-key attributes
-		// <a data-theme-key="custom-item" ... href="/fashion/...">
-		// Match both orders: href before data-theme-key OR data-theme-key before href
-		const articlePattern = /<a[^>]*(?:data-theme-key="custom-item"[^>]*href=["']([^"']+)["']|href=["']([^"']+)["'][^>]*data-theme-key="custom-item")[^>]*>([\s\S]*?)<\/a>/gi;
-		const articleMatches = html.matchAll(articlePattern);
-
-		for (const match of articleMatches) {
-			const url = this.normalizeUrl(match[1] || match[2]);
-			const articleHtml = match[3];
-
-			// Extract title from data-theme-key="custom-item-title-text"
-			const titleMatch = articleHtml.match(/<span[^>]*data-theme-key="custom-item-title-text"[^>]*>([^<]+)<\/span>/i);
-			const title = titleMatch ? this.cleanText(titleMatch[1]) : '';
-
-			// Extract image from img src
-			const imgMatch = articleHtml.match(/<img[^>]*src=["']([^"']+)["'][^>]*>/i);
-			const imageUrl = imgMatch ? imgMatch[1] : null;
-
-			// Extract alt text as description
-			const altMatch = articleHtml.match(/<img[^>]*alt=["']([^"']+)["'][^>]*>/i);
-			const description = altMatch ? this.cleanText(altMatch[1]) : '';
-
-			// Extract data-vars-ga-call-to-action as alternative title
-			const gaCallToActionMatch = articleHtml.match(/data-vars-ga-call-to-action=["']([^"']+)["']/i);
-			const alternativeTitle = gaCallToActionMatch ? gaCallToActionMatch[1] : '';
-
-			const finalTitle = title || alternativeTitle;
-			const text = description || finalTitle;
-
-			if (finalTitle && url) {
-				articles.push({
-					title: finalTitle,
-					url,
-					text,
-					imageUrl,
-					author: null,
-					publishedDate: null,
-					description
-				});
-			}
-		}
+			const pageTimeout = conditions.pageTimeout || 90000;
+			let retries = 2;
+
+			while (retries > 0) {
+				try {
+					// Rule 8: Be polite - rate limiting before navigation
+					await this.respectRateLimit();
 
-		// Pattern 2: Extract standard article elements
-		const standardArticlePattern = /<article[^>]*>([\s\S]*?)<\/article>/gi;
-		const standardMatches = html.matchAll(standardArticlePattern);
-
-		for (const match of standardMatches) {
-			const articleHtml = match[1];
-
-			// Extract title from h2, h3, or headline class
-			const titleMatch = articleHtml.match(/<h[23][^>]*>.*?<a[^>]*>([^<]+)<\/a>.*?<\/h[23]>/i) ||
-				articleHtml.match(/<[^>]*class="[^"]*headline[^"]*"[^>]*>([^<]+)</i) ||
-				articleHtml.match(/<a[^>]*class="[^"]*title[^"]*"[^>]*>([^<]+)<\/a>/i);
-
-			// Extract URL
-			const urlMatch = articleHtml.match(/<a[^>]*href=["']([^"']+)["'][^>]*>/i);
-
-			// Extract image
-			const imgMatch = articleHtml.match(/<img[^>]*src=["']([^"']+)["'][^>]*>/i) ||
-				articleHtml.match(/data-src=["']([^"']+)["']/i);
-
-			// Extract description or text
-			const descMatch = articleHtml.match(/<p[^>]*>([^<]+)<\/p>/i);
-
-			// Extract author
-			const authorMatch = articleHtml.match(/by\s+<a[^>]*>([^<]+)<\/a>/i) ||
-				articleHtml.match(/class="[^"]*byline[^"]*"[^>]*>([^<]+)</i);
-
-			// Extract date
-			const dateMatch = articleHtml.match(/<time[^>]*datetime=["']([^"']+)["']/i);
-
-			if (titleMatch && urlMatch) {
-				const url = this.normalizeUrl(urlMatch[1]);
-				const title = this.cleanText(titleMatch[1]);
-				const text = descMatch ? this.cleanText(descMatch[1]) : title;
-
-				// Avoid duplicates
-				if (!articles.some(a => a.url === url)) {
-					articles.push({
-						title,
-						url,
-						text,
-						imageUrl: imgMatch ? imgMatch[1] : null,
-						author: authorMatch ? this.cleanText(authorMatch[1]) : null,
-						publishedDate: dateMatch ? dateMatch[1] : null,
-						description: descMatch ? this.cleanText(descMatch[1]) : null
+					await this.page!.goto(this.HARPER_FASHION_URL, {
+						waitUntil: 'networkidle',
+						timeout: pageTimeout
 					});
+
+					logger.info('Page loaded successfully with Playwright');
+
+					// Rule 5: Wait for JavaScript to render
+					await this.page!.waitForTimeout(5000);
+
+					// Rule 3: Inspect site - wait for content selectors
+					try {
+						await this.page!.waitForSelector('article', { timeout: 10000 });
+						logger.info('Content selectors found');
+					} catch (e) {
+						logger.warn('Content selectors not found, continuing anyway');
+					}
+
+					// Rule 7: Handle pagination - scroll to load more content
+					await this.scrollToLoadMore(this.page!, 3);
+
+					htmlContent = await this.page!.content();
+					logger.info(`Successfully fetched HTML with Playwright (${htmlContent.length} characters)`);
+					break;
+
+				} catch (error: any) {
+					retries--;
+					logger.error(`Failed to load page (${retries} retries left):`, error.message);
+
+					if (retries === 0) {
+						throw error;
+					}
+
+					logger.info('Retrying after 5 seconds...');
+					await new Promise(resolve => setTimeout(resolve, 5000));
 				}
 			}
 		}
 
-		// Pattern 3: Extract links with fashion-related content
-		const linkPattern = /<a[^>]*href=["']([^"']*\/fashion\/[^"']+)["'][^>]*>([^<]+)<\/a>/gi;
-		const linkMatches = html.matchAll(linkPattern);
-
-		for (const match of linkMatches) {
-			const url = this.normalizeUrl(match[1]);
-			const title = this.cleanText(match[2]);
-
-			// Avoid duplicates
-			if (!articles.some(a => a.url === url) && title.length > 10) {
-				articles.push({
-					title,
-					url,
-					text: title,
-					imageUrl: null,
-					author: null,
-					publishedDate: null,
-					description: null
-				});
-			}
-		}
+		return htmlContent;
+	}
 
-		return articles;
+	// Rule 3: Inspect site and extract articles (selectors live in the Harper selector map)
+	private extractArticlesFromHtml($: CheerioAPI, metadata: ArticleMetadata): any[] {
+		// Listing JSON-LD may carry publish dates the teasers don't show
+		const listDates = new Map(metadata.listItems.map(listItem => [listItem.url, listItem.publishedAt]));
+
+		return DomExtractor.extractItems($, HARPER_SELECTORS, this.HARPER_BASE_URL).map(item => ({
+			title: item.title,
+			url: item.link,
+			text: item.description || item.title,
+			imageUrl: item.image,
+			author: item.byline,
+			publishedDate: MetadataExtractor.parseDate(item.date) || listDates.get(item.link) || null,
+			description: item.description
+		}));
 	}
 
 	// Rule 6: Filter by fashion keywords
@@ -497,30 +397,9 @@ export class HarperSource extends BaseSocialMediaSource {
 		});
 	}
 
-	private normalizeUrl(url: string): string {
-		if (url.startsWith('http')) {
-			return url;
-		}
-		if (url.startsWith('//')) {
-			return 'https:' + url;
-		}
-		if (url.startsWith('/')) {
-			return this.HARPER_BASE_URL + url;
-		}
-		return this.HARPER_BASE_URL + '/' + url;
-	}
-
-	protected cleanText(text: string): string {
-		return text
-			.replace(/<[^>]+>/g, '')
-			.replace(/&nbsp;/g, ' ')
-			.replace(/&amp;/g, '&')
-			.replace(/&quot;/g, '"')
-			.replace(/&apos;/g, "'")
-			.replace(/&lt;/g, '<')
-			.replace(/&gt;/g, '>')
-			.replace(/\s+/g, ' ')
-			.trim();
+	// Same ids as the listing scrape, so sitemap runs don't duplicate posts
+	protected sitemapPostId(url: string): string {
+		return this.generateSourceId(url);
 	}
 
 	private generateSourceId(url: string): string {
@@ -529,6 +408,9 @@ export class HarperSource extends BaseSocialMediaSource {
 
 	// Rule 9: Save HTML to file for debugging
 	private saveHtmlToFile(html: string, prefix: string): void {
+		// Replayed runs must not overwrite the debugging output
+		if (FixtureStore.isReplaying()) return;
+
 		try {
 			const outputDir = path.join(__dirname, '../../Output');
 			if (!fs.existsSync(outputDir)) {
@@ -545,6 +427,9 @@ export class HarperSource extends BaseSocialMediaSource {
 
 	// Rule 9: Save scraped data to JSON file
 	private saveToJsonFile(posts: ScrapedPostData[], prefix: string): void {
+		// Replayed runs must not overwrite the debugging output
+		if (FixtureStore.isReplaying()) return;
+
 		try {
 			const outputDir = path.join(__dirname, '../../Output');
 			if (!fs.existsSync(outputDir)) {
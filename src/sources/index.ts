@@ -5,4 +5,6 @@
 export { ElleSource } from './elle.source';
 export { HarperSource } from './harper.source';
 export { EtcSocialSource } from './etc-social.source';
-export { BaseSocialMediaSource, ScrapingConditions, ScrapedPostData } from './base.source';
+export { FeedSource } from './feed.source';
+export { BaseSocialMediaSource, ScrapingConditions, ScrapedPostData, SourceCapabilities, SourceDefinition } from './base.source';
+export { SourceRegistry, sourceRegistry } from './source.registry';
@@ -0,0 +1,110 @@
+import { BaseSocialMediaSource, ScrapingConditions, SourceDefinition } from './base.source';
+import { ElleSource } from './elle.source';
+import { HarperSource } from './harper.source';
+import { EtcSocialSource } from './etc-social.source';
+import { FeedSource } from './feed.source';
+
+type SourceFactory = () => BaseSocialMediaSource;
+
+interface RegisteredSource {
+	definition: SourceDefinition;
+	factory: SourceFactory;
+}
+
+/**
+ * Source Registry
+ * Single place where publication sources are declared.
+ * Pipeline entry points (cron, scraping service, admin/blog routes) iterate
+ * the registry instead of instantiating sources by hand, so adding a new
+ * publication means writing one source class and registering it below.
+ */
+export class SourceRegistry {
+	private sources = new Map<string, RegisteredSource>();
+
+	/**
+	 * Register a source factory. The factory is called once to read the
+	 * source definition; every run gets a fresh instance.
+	 */
+	register(factory: SourceFactory): void {
+		const { definition } = factory();
+
+		if (this.sources.has(definition.id)) {
+			throw new Error(`Source "${definition.id}" is already registered`);
+		}
+
+		this.sources.set(definition.id, { definition, factory });
+	}
+
+	/**
+	 * Check whether a source id is registered
+	 */
+	has(id: string): boolean {
+		return this.sources.has(id);
+	}
+
+	/**
+	 * Get the definition of a registered source
+	 */
+	getDefinition(id: string): SourceDefinition | undefined {
+		return this.sources.get(id)?.definition;
+	}
+
+	/**
+	 * List definitions of all registered sources
+	 */
+	list(): SourceDefinition[] {
+		return Array.from(this.sources.values()).map(source => source.definition);
+	}
+
+	/**
+	 * List definitions of sources that take part in automatic pipeline runs
+	 */
+	listScheduled(): SourceDefinition[] {
+		return this.list().filter(definition => definition.capabilities.scheduled);
+	}
+
+	/**
+	 * Resolve a list of source ids (or the scheduled sources when omitted)
+	 * Throws on unknown ids so callers can surface a 400
+	 */
+	resolve(ids?: string[]): SourceDefinition[] {
+		if (!ids || ids.length === 0) {
+			return this.listScheduled();
+		}
+
+		return ids.map(id => {
+			const definition = this.getDefinition(id);
+			if (!definition) {
+				throw new Error(`Unknown source: ${id}`);
+			}
+			return definition;
+		});
+	}
+
+	/**
+	 * Create a fresh instance of a registered source
+	 */
+	create(id: string): BaseSocialMediaSource {
+		const source = this.sources.get(id);
+		if (!source) {
+			throw new Error(`Unknown source: ${id}`);
+		}
+		return source.factory();
+	}
+
+	/**
+	 * Merge a source's default conditions with per-run overrides
+	 */
+	buildConditions(id: string, overrides: ScrapingConditions = {}): ScrapingConditions {
+		const definition = this.getDefinition(id);
+		return { ...definition?.defaultConditions, ...overrides };
+	}
+}
+
+// Export singleton instance with all known sources registered
+export const sourceRegistry = new SourceRegistry();
+
+sourceRegistry.register(() => new ElleSource());
+sourceRegistry.register(() => new HarperSource());
+sourceRegistry.register(() => new EtcSocialSource());
+sourceRegistry.register(() => new FeedSource());
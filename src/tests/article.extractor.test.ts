@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ArticleExtractor } from '../sources/extractors/article.extractor';
+import { DomExtractor } from '../sources/extractors/dom.extractor';
+import { HARPER_SELECTORS } from '../sources/extractors/selector-maps';
+
+function page(name: string): string {
+	return fs.readFileSync(path.join(__dirname, 'fixtures', 'articles', name), 'utf-8');
+}
+
+/**
+ * Body, image and tag extraction against the pages of fixtures/articles
+ */
+describe('ArticleExtractor', () => {
+	const url = 'https://www.runway-daily.example/fashion/denim-paris';
+
+	it('reads the first body container with enough text, without noise or captions', () => {
+		const article = ArticleExtractor.extract(page('article-body.html'), url);
+
+		assert.equal(article.bodyText, [
+			'Paris closed its autumn shows with denim on nearly every runway, from washed indigo trench coats to raw selvedge suiting cut as sharply as wool.',
+			'A fabric rebuilt',
+			'Designers treated the fabric as a luxury material, lining it with silk and finishing it by hand in small ateliers outside the city.',
+			'Denim is the new tweed.',
+			'Raw selvedge suiting',
+			'Washed indigo trenches',
+		].join('\n\n'));
+		assert.equal(article.wordCount, 62);
+		assert.equal(article.url, url);
+	});
+
+	it('reads body images from src, data-src and srcset once each', () => {
+		const { images } = ArticleExtractor.extract(page('article-body.html'), url);
+
+		assert.deepEqual(images, [
+			{ url: 'https://www.runway-daily.example/images/denim-lead.jpg', caption: 'The opening look, in washed indigo.', alt: 'A denim trench on the runway' },
+			{ url: 'https://cdn.runway-daily.example/denim-detail.jpg', caption: null, alt: null },
+			{ url: 'https://www.runway-daily.example/images/denim-back.jpg', caption: null, alt: null },
+		]);
+	});
+
+	it('merges metadata keywords with tag links outside removed noise', () => {
+		const { tags } = ArticleExtractor.extract(page('article-body.html'), url);
+		assert.deepEqual(tags, ['denim', 'Paris', 'Runway', 'Paris Fashion Week']);
+	});
+
+	it('falls back to the candidate with the most text, then to the body', () => {
+		const short = ArticleExtractor.extract(page('article-short.html'), url);
+		assert.equal(short.bodyText, 'Three quick notes from the Paris shows.\n\nCoats got longer, boots got flatter.');
+
+		const bare = ArticleExtractor.extract('<html><body><div><p>Only a paragraph.</p></div></body></html>', url);
+		assert.equal(bare.bodyText, 'Only a paragraph.');
+		assert.equal(bare.wordCount, 3);
+		assert.deepEqual(bare.images, []);
+	});
+});
+
+describe('DomExtractor', () => {
+	const items = DomExtractor.extractItems(page('teasers.html'), HARPER_SELECTORS, 'https://www.harpersbazaar.com/fashion/');
+
+	it('applies the maps in order, keeping the first item per link', () => {
+		assert.deepEqual(items.map(item => [item.matchedBy, item.link]), [
+			['hearst-custom-item', 'https://www.harpersbazaar.com/fashion/trends/denim-paris'],
+			['hearst-custom-item', 'https://www.harpersbazaar.com/fashion/trends/suede-season'],
+			['generic-article', 'https://www.harpersbazaar.com/fashion/runway/couture-diary'],
+			['fashion-link', 'https://www.harpersbazaar.com/fashion/street-style/copenhagen'],
+		]);
+	});
+
+	it('falls back field by field, reading attributes and srcset', () => {
+		const [denim, suede, couture] = items;
+
+		assert.deepEqual(denim, {
+			title: 'Denim Takes Over Paris',
+			link: 'https://www.harpersbazaar.com/fashion/trends/denim-paris',
+			image: 'https://hips.example/denim.jpg?w=320',
+			byline: 'Ana Ruiz',
+			date: '2025-03-04T08:30:00Z',
+			description: 'A denim trench on the runway',
+			matchedBy: 'hearst-custom-item',
+		});
+
+		// Title and link from the analytics attributes when the markup lacks them
+		assert.equal(suede.title, 'Suede Season Is Here');
+		assert.equal(suede.image, 'https://www.harpersbazaar.com/images/suede.jpg');
+		assert.equal(suede.byline, null);
+
+		// A time without datetime falls back to its text
+		assert.equal(couture.title, 'Couture Week Diary');
+		assert.equal(couture.byline, 'Mina Cho');
+		assert.equal(couture.date, 'January 28');
+		assert.equal(couture.description, 'Notes from the front row.');
+	});
+
+	it('drops javascript links and titles below minTitleLength', () => {
+		assert.ok(!items.some(item => item.title === 'Subscribe today'));
+		assert.ok(!items.some(item => item.link === 'https://www.harpersbazaar.com/fashion/'));
+	});
+});
@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BackfillProgress, BackfillSteps, BackfillWalker } from '../services/backfill.walker';
+import { ScrapedPostData } from '../sources/base.source';
+
+const RANGE = { since: new Date('2025-01-01T00:00:00Z'), until: new Date('2025-01-31T23:59:59Z') };
+const URLS = ['https://news.example.com/a', 'https://news.example.com/b', 'https://news.example.com/c', 'https://news.example.com/d'];
+const START: BackfillProgress = { position: 0, saved: 0, skipped: 0, failed: 0 };
+
+function post(url: string, postedAt: string): ScrapedPostData {
+	return {
+		platformPostId: url,
+		platform: 'ELLE',
+		author: 'Elle',
+		authorHandle: 'elle',
+		text: url,
+		postedAt: new Date(postedAt),
+		likes: 0,
+		comments: 0,
+		shares: 0,
+		views: 0,
+		sourceUrl: url,
+		rawContent: {},
+	};
+}
+
+/**
+ * Steps recording what the walker did; articles are read from `pages`
+ */
+function recordingSteps(pages: Record<string, ScrapedPostData | null | Error>, onCheckpoint?: (progress: BackfillProgress) => void) {
+	const calls = { scraped: [] as string[], stored: [] as string[], checkpoints: [] as BackfillProgress[], pauses: 0 };
+	const steps: BackfillSteps = {
+		scrape: async url => {
+			calls.scraped.push(url);
+			const page = pages[url];
+			if (page instanceof Error) throw page;
+			return page ?? null;
+		},
+		store: async stored => {
+			calls.stored.push(stored.sourceUrl!);
+		},
+		checkpoint: async progress => {
+			calls.checkpoints.push(progress);
+			onCheckpoint?.(progress);
+		},
+		pause: async () => {
+			calls.pauses++;
+		},
+	};
+	return { steps, calls };
+}
+
+describe('BackfillWalker', () => {
+	it('stores articles inside the range and counts the rest', async () => {
+		const { steps, calls } = recordingSteps({
+			[URLS[0]]: post(URLS[0], '2025-01-10T08:00:00Z'),
+			[URLS[1]]: post(URLS[1], '2024-12-31T23:00:00Z'),
+			[URLS[2]]: new Error('timeout'),
+			[URLS[3]]: null,
+		});
+
+		const progress = await BackfillWalker.walk(URLS, RANGE, START, steps);
+
+		assert.deepEqual(progress, { position: 4, saved: 1, skipped: 2, failed: 1 });
+		assert.deepEqual(calls.stored, [URLS[0]]);
+		assert.equal(calls.pauses, 3);
+	});
+
+	it('checkpoints after every article', async () => {
+		const { steps, calls } = recordingSteps({
+			[URLS[0]]: post(URLS[0], '2025-01-10T08:00:00Z'),
+			[URLS[1]]: new Error('timeout'),
+		});
+
+		await BackfillWalker.walk(URLS.slice(0, 2), RANGE, START, steps);
+
+		assert.deepEqual(calls.checkpoints, [
+			{ position: 1, saved: 1, skipped: 0, failed: 0 },
+			{ position: 2, saved: 1, skipped: 0, failed: 1 },
+		]);
+	});
+
+	it('resumes at the stored position with the stored counters', async () => {
+		const { steps, calls } = recordingSteps({
+			[URLS[2]]: post(URLS[2], '2025-01-20T08:00:00Z'),
+			[URLS[3]]: post(URLS[3], '2025-01-21T08:00:00Z'),
+		});
+
+		const progress = await BackfillWalker.walk(URLS, RANGE, { position: 2, saved: 1, skipped: 1, failed: 0 }, steps);
+
+		assert.deepEqual(calls.scraped, URLS.slice(2));
+		assert.deepEqual(progress, { position: 4, saved: 3, skipped: 1, failed: 0 });
+	});
+
+	it('stops between articles when cancelled and resumes from there', async () => {
+		const pages = Object.fromEntries(URLS.map(url => [url, post(url, '2025-01-15T08:00:00Z')]));
+		const controller = new AbortController();
+		const first = recordingSteps(pages, progress => {
+			if (progress.position === 2) controller.abort();
+		});
+
+		const stopped = await BackfillWalker.walk(URLS, RANGE, START, first.steps, controller.signal);
+
+		assert.deepEqual(stopped, { position: 2, saved: 2, skipped: 0, failed: 0 });
+		assert.deepEqual(first.calls.scraped, URLS.slice(0, 2));
+		assert.equal(first.calls.pauses, 1);
+
+		// The checkpointed position is where the next run picks up
+		const second = recordingSteps(pages);
+		const resumed = await BackfillWalker.walk(URLS, RANGE, first.calls.checkpoints.at(-1)!, second.steps);
+
+		assert.deepEqual(second.calls.scraped, URLS.slice(2));
+		assert.deepEqual(resumed, { position: 4, saved: 4, skipped: 0, failed: 0 });
+	});
+
+	it('reads nothing when already cancelled or finished', async () => {
+		const controller = new AbortController();
+		controller.abort();
+		const { steps, calls } = recordingSteps({});
+
+		assert.deepEqual(await BackfillWalker.walk(URLS, RANGE, START, steps, controller.signal), START);
+		assert.deepEqual(await BackfillWalker.walk(URLS, RANGE, { ...START, position: 4 }, steps), { ...START, position: 4 });
+		assert.equal(calls.scraped.length, 0);
+	});
+});
@@ -0,0 +1,89 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { BlogWithTags } from '../repositories/blog.repository';
+import { BlogMapper } from '../services/blog.mapper';
+
+const blog: BlogWithTags = {
+	id: 7,
+	createdAt: new Date('2026-10-01T08:00:00Z'),
+	updatedAt: new Date('2026-10-02T08:00:00Z'),
+	platform: 'ELLE',
+	title: 'Soft tailoring is back',
+	description: 'Relaxed suits for autumn',
+	aiInsight: 'Tailoring searches are up',
+	image: 'https://www.elle.com/soft-tailoring.jpg',
+	link: 'https://www.elle.com/fashion/soft-tailoring/',
+	approved: true,
+	hashtags: 'tailoring autumn',
+	promptVersionId: 'prompt-1',
+	normalizedPostId: null,
+	tags: [
+		{ blogId: 7, tagId: 2, kind: 'KEYWORD', tag: { id: 2, createdAt: new Date(), name: 'soft tailoring' } },
+		{ blogId: 7, tagId: 3, kind: 'HASHTAG', tag: { id: 3, createdAt: new Date(), name: 'tailoring' } },
+		{ blogId: 7, tagId: 1, kind: 'HASHTAG', tag: { id: 1, createdAt: new Date(), name: 'autumn' } },
+	],
+};
+
+describe('BlogMapper', () => {
+	it('maps blogs to the legacy column names', () => {
+		const dto = BlogMapper.toDto(blog);
+
+		assert.equal(dto.ai_insight, 'Tailoring searches are up');
+		assert.equal(dto.approved, 1);
+		assert.equal(dto.prompt_version_id, 'prompt-1');
+		assert.equal(dto.normalized_post_id, null);
+		assert.deepEqual(dto.hashtags, ['autumn', 'tailoring']);
+		assert.deepEqual(dto.keywords, ['soft tailoring']);
+		assert.equal(BlogMapper.toDto({ ...blog, approved: false }).approved, 0);
+	});
+
+	it('adds like counts and the liked state to list items', () => {
+		assert.deepEqual(
+			[BlogMapper.toListItem(blog, new Map([[7, 3]]), new Set([7])), BlogMapper.toListItem(blog, new Map(), new Set())]
+				.map(({ likesCount, isLiked }) => ({ likesCount, isLiked })),
+			[{ likesCount: 3, isLiked: true }, { likesCount: 0, isLiked: false }],
+		);
+	});
+
+	it('only lets admins list drafts', () => {
+		const admin = { userId: 1, role: 'ADMIN' };
+
+		assert.deepEqual(BlogMapper.listFilter({}, { filter: 'draft', platform: 'ELLE' }), { platform: 'ELLE', approved: true });
+		assert.deepEqual(BlogMapper.listFilter({ userId: 2, role: 'USER' }, { filter: 'all' }), { platform: undefined, approved: true });
+		assert.deepEqual(BlogMapper.listFilter(admin, { filter: 'draft' }), { platform: undefined, approved: false });
+		assert.deepEqual(BlogMapper.listFilter(admin, { filter: 'all' }), { platform: undefined });
+	});
+
+	it('filters by the stored form of a tag', () => {
+		assert.deepEqual(BlogMapper.listFilter({}, { tag: '#Soft  Tailoring' }), { platform: undefined, tag: 'soft tailoring', approved: true });
+		assert.deepEqual(BlogMapper.listFilter({}, { tag: '' }), { platform: undefined, approved: true });
+	});
+
+	it('normalizes tags and keeps names used both ways as hashtags', () => {
+		assert.equal(BlogMapper.tagName('  ##Y2K '), 'y2k');
+		assert.equal(BlogMapper.tagName('# '), null);
+		assert.deepEqual(BlogMapper.tagsOf(['#Denim', '#y2k', 'denim'], ['Y2K', 'wide leg  jeans', '']), [
+			{ name: 'denim', kind: 'HASHTAG' },
+			{ name: 'y2k', kind: 'HASHTAG' },
+			{ name: 'wide leg jeans', kind: 'KEYWORD' },
+		]);
+	});
+
+	it('defaults missing and invalid paging', () => {
+		assert.deepEqual(BlogMapper.pageOf({}), { page: 1, limit: 20, skip: 0 });
+		assert.deepEqual(BlogMapper.pageOf({ page: 3, limit: 10 }), { page: 3, limit: 10, skip: 20 });
+		assert.deepEqual(BlogMapper.pageOf({ page: -1, limit: 0 }), { page: 1, limit: 20, skip: 0 });
+	});
+
+	it('validates comments and who may delete them', () => {
+		assert.equal(BlogMapper.commentProblem('Love this'), null);
+		assert.equal(BlogMapper.commentProblem('   '), 'Comment is required and must be a non-empty string');
+		assert.equal(BlogMapper.commentProblem(42), 'Comment is required and must be a non-empty string');
+		assert.equal(BlogMapper.commentProblem('x'.repeat(5001)), 'Comment must be less than 5000 characters');
+
+		assert.ok(BlogMapper.canDeleteComment({ userId: 4, role: 'USER' }, { userId: 4 }));
+		assert.ok(BlogMapper.canDeleteComment({ userId: 1, role: 'ADMIN' }, { userId: 4 }));
+		assert.ok(!BlogMapper.canDeleteComment({ userId: 5, role: 'USER' }, { userId: 4 }));
+		assert.ok(!BlogMapper.canDeleteComment({}, { userId: 4 }));
+	});
+});
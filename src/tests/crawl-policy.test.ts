@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateRobots, parseRobotsTxt } from '../services/crawl-policy.service';
+
+const AGENT = 'Mozilla/5.0 (compatible; GiaBot/1.0)';
+
+describe('parseRobotsTxt / evaluateRobots', () => {
+	it('uses the group naming our agent and ignores the * group then', () => {
+		const policy = parseRobotsTxt([
+			'User-agent: *',
+			'Disallow: /',
+			'',
+			'User-agent: OtherBot',
+			'User-agent: GiaBot # ours',
+			'Disallow: /private',
+			'Crawl-delay: 2',
+			'',
+			'Sitemap: https://news.example.com/sitemap.xml',
+		].join('\r\n'));
+
+		assert.equal(policy.groups.length, 2);
+		assert.deepEqual(policy.groups[1].agents, ['otherbot', 'giabot']);
+		assert.deepEqual(policy.sitemaps, ['https://news.example.com/sitemap.xml']);
+
+		assert.deepEqual(evaluateRobots(policy, AGENT, '/fashion/story'), { allowed: true, crawlDelayMs: 2000 });
+		assert.equal(evaluateRobots(policy, AGENT, '/private/page').allowed, false);
+		assert.equal(evaluateRobots(policy, 'SomeCrawler/2.0', '/fashion/story').allowed, false);
+	});
+
+	it('falls back to the * group, and allows everything without one', () => {
+		const policy = parseRobotsTxt('User-agent: OtherBot\nDisallow: /\n\nUser-agent: *\nDisallow: /search');
+
+		assert.equal(evaluateRobots(policy, AGENT, '/search?q=denim').allowed, false);
+		assert.equal(evaluateRobots(policy, AGENT, '/fashion').allowed, true);
+		assert.equal(evaluateRobots(parseRobotsTxt('User-agent: OtherBot\nDisallow: /'), AGENT, '/fashion').allowed, true);
+	});
+
+	it('lets the longest matching rule win', () => {
+		const policy = parseRobotsTxt('User-agent: *\nDisallow: /fashion\nAllow: /fashion/trends\nDisallow: /fashion/trends/drafts');
+
+		assert.equal(evaluateRobots(policy, AGENT, '/fashion/shows').allowed, false);
+		assert.equal(evaluateRobots(policy, AGENT, '/fashion/trends/denim').allowed, true);
+
+		const refused = evaluateRobots(policy, AGENT, '/fashion/trends/drafts/1');
+		assert.equal(refused.allowed, false);
+		assert.equal(refused.reason, 'robots.txt disallows /fashion/trends/drafts');
+	});
+
+	it('prefers Allow when equally long rules conflict', () => {
+		assert.equal(evaluateRobots(parseRobotsTxt('User-agent: *\nDisallow: /page\nAllow: /page'), AGENT, '/page').allowed, true);
+		assert.equal(evaluateRobots(parseRobotsTxt('User-agent: *\nAllow: /page\nDisallow: /page'), AGENT, '/page').allowed, true);
+	});
+
+	it('supports * wildcards and $ end anchors', () => {
+		const policy = parseRobotsTxt('User-agent: *\nDisallow: /*.pdf$\nDisallow: /*/print/\nDisallow: /tag?');
+
+		assert.equal(evaluateRobots(policy, AGENT, '/lookbook/spring.pdf').allowed, false);
+		assert.equal(evaluateRobots(policy, AGENT, '/lookbook/spring.pdf?download=1').allowed, true);
+		assert.equal(evaluateRobots(policy, AGENT, '/fashion/print/story').allowed, false);
+		assert.equal(evaluateRobots(policy, AGENT, '/print/story').allowed, true);
+		// Other regex characters are literal
+		assert.equal(evaluateRobots(policy, AGENT, '/tag?name=denim').allowed, false);
+		assert.equal(evaluateRobots(policy, AGENT, '/tags').allowed, true);
+	});
+
+	it('reads Crawl-delay and takes the longest of the matching groups', () => {
+		const policy = parseRobotsTxt('User-agent: GiaBot\nCrawl-delay: 0.5\n\nUser-agent: Gia\nCrawl-delay: 3\n\nUser-agent: *\nCrawl-delay: 10');
+
+		assert.equal(evaluateRobots(policy, AGENT, '/').crawlDelayMs, 3000);
+		assert.equal(evaluateRobots(policy, 'SomeCrawler/2.0', '/').crawlDelayMs, 10000);
+		assert.equal(evaluateRobots(parseRobotsTxt('User-agent: *\nCrawl-delay: soon'), AGENT, '/').crawlDelayMs, 0);
+	});
+
+	it('ignores empty Disallow lines and rules before any user-agent', () => {
+		const policy = parseRobotsTxt('Disallow: /\nUser-agent: *\nDisallow:');
+
+		assert.equal(policy.groups[0].rules.length, 0);
+		assert.equal(evaluateRobots(policy, AGENT, '/fashion').allowed, true);
+	});
+
+	it('refuses everything when robots.txt is unreachable', () => {
+		const decision = evaluateRobots({ groups: [], sitemaps: [], unreachable: true }, AGENT, '/');
+
+		assert.equal(decision.allowed, false);
+		assert.equal(decision.reason, 'robots.txt is unreachable');
+	});
+});
@@ -0,0 +1,72 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ElleSource } from '../sources/elle.source';
+import { ScrapedPostData } from '../sources/base.source';
+
+/**
+ * Elle extraction against the recorded fashion landing page
+ * (fixtures/pages/www.elle.com)
+ */
+describe('ElleSource (replayed)', () => {
+	const source = new ElleSource();
+	let posts: ScrapedPostData[];
+
+	before(async () => {
+		await source.initialize();
+		posts = await source.scrape({ ...source.definition.defaultConditions, maxResults: 100 });
+		await source.cleanup();
+	});
+
+	it('keeps teasers matching the default keywords', () => {
+		assert.equal(posts.length, 11);
+		assert.equal(posts[0].text, 'Inside the Art of Runway Soundtracks');
+	});
+
+	it('resolves absolute, unique article links', () => {
+		for (const post of posts) {
+			assert.match(post.sourceUrl!, /^https:\/\/www\.elle\.com\/fashion\//);
+		}
+		assert.equal(new Set(posts.map(post => post.sourceUrl)).size, posts.length);
+	});
+
+	it('gives an article the same post id on every scrape', async () => {
+		const again = await source.scrape({ ...source.definition.defaultConditions, maxResults: 100 });
+
+		// scraped_posts is upserted by platformPostId: one row per article
+		assert.deepEqual(again.map(post => post.platformPostId), posts.map(post => post.platformPostId));
+		assert.equal(new Set(posts.map(post => post.platformPostId)).size, posts.length);
+	});
+
+	it('reads bylines and falls back to the editorial author', () => {
+		const trousers = posts.find(post => post.sourceUrl!.includes('/best-pleated-trousers-women/'));
+		assert.equal(trousers?.author, 'Bianca Kratky');
+		assert.equal(posts[0].author, 'Elle Editorial');
+	});
+
+	it('takes one teaser image per post', () => {
+		for (const post of posts) {
+			assert.equal(post.mediaUrls?.length, 1);
+			assert.match(post.mediaUrls![0], /^https:\/\/hips\.hearstapps\.com\//);
+		}
+	});
+
+	it('extracts every teaser without a keyword filter', async () => {
+		const all = await source.scrape({ keywords: [], maxResults: 100 });
+		assert.equal(all.length, 48);
+	});
+
+	it('honours maxResults', async () => {
+		assert.equal((await source.scrape({ keywords: [], maxResults: 3 })).length, 3);
+	});
+
+	it('keeps undated teasers inside a date range', async () => {
+		// The landing page shows no dates; the article pages have them
+		const windowed = await source.scrape({
+			...source.definition.defaultConditions,
+			maxResults: 100,
+			until: new Date('2020-01-01'),
+		});
+		assert.deepEqual(windowed.map(post => post.sourceUrl), posts.map(post => post.sourceUrl));
+		assert.ok(windowed.every(post => post.rawContent.date === null));
+	});
+});
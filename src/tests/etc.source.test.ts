@@ -0,0 +1,63 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { EtcSocialSource } from '../sources/etc-social.source';
+import { ScrapedPostData } from '../sources/base.source';
+
+const ARTICLE_URL = 'https://www.atelier-journal.example/stories/quiet-luxury-milan';
+
+/**
+ * Generic page extraction against a recorded article
+ * (fixtures/pages/www.atelier-journal.example)
+ */
+describe('EtcSocialSource (replayed)', () => {
+	const source = new EtcSocialSource();
+	let posts: ScrapedPostData[];
+
+	before(async () => {
+		await source.initialize();
+		posts = await source.scrape({
+			urls: [ARTICLE_URL, 'https://www.atelier-journal.example/not-recorded'],
+		});
+		await source.cleanup();
+	});
+
+	it('skips pages without a fixture', () => {
+		assert.equal(posts.length, 1);
+		assert.equal(posts[0].sourceUrl, ARTICLE_URL);
+	});
+
+	it('gives the article the same post id on every scrape', async () => {
+		const again = await source.scrape({ urls: [ARTICLE_URL] });
+
+		// scraped_posts is upserted by platformPostId: one row per article
+		assert.equal(again[0].platformPostId, posts[0].platformPostId);
+	});
+
+	it('prefers JSON-LD authors and date over meta tags', () => {
+		assert.equal(posts[0].author, 'Ana Ruiz, Marco Bellini');
+		assert.equal(posts[0].postedAt.toISOString(), '2025-03-03T09:30:00.000Z');
+		assert.deepEqual(posts[0].rawContent.metadata.keywords, ['quiet luxury', 'Milan Fashion Week', 'tailoring']);
+	});
+
+	it('uses the OpenGraph description as text', () => {
+		assert.equal(posts[0].text, 'Designers traded logos for cashmere, camel tailoring and soft suede at Milan Fashion Week.');
+	});
+
+	it('puts the lead image first and resolves relative URLs', () => {
+		assert.deepEqual(posts[0].mediaUrls, [
+			'https://www.atelier-journal.example/images/milan-lead.jpg',
+			'https://cdn.atelier-journal.example/milan-detail.jpg',
+		]);
+	});
+
+	it('lists related article teasers', () => {
+		const titles = posts[0].rawContent.parsedContent.articles.map((article: any) => article.title);
+		assert.ok(titles.includes('Copenhagen Street Style Goes Maximal'));
+		assert.ok(titles.includes('The Embroidery Revival'));
+	});
+
+	it('drops pages published outside the date range', async () => {
+		const none = await source.scrape({ urls: [ARTICLE_URL], since: new Date('2025-04-01') });
+		assert.equal(none.length, 0);
+	});
+});
@@ -0,0 +1,122 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { FeedSource } from '../sources/feed.source';
+import { ScrapedPostData } from '../sources/base.source';
+import { FixtureStore } from '../services/fixture-store.service';
+
+const RSS_URL = 'https://runway.example.com/rss.xml';
+const ATOM_URL = 'https://atelier.example.com/atom.xml';
+
+/**
+ * RSS and Atom parsing against the recorded feeds
+ * (fixtures/pages/runway.example.com, fixtures/pages/atelier.example.com)
+ */
+describe('FeedSource (replayed)', () => {
+	const source = new FeedSource();
+	let posts: ScrapedPostData[];
+
+	before(async () => {
+		await source.initialize();
+		posts = await source.scrape({ urls: [RSS_URL, ATOM_URL, 'https://runway.example.com/not-recorded.xml'], maxResults: 10 });
+		await source.cleanup();
+	});
+
+	it('reads every item of both feeds, newest first', () => {
+		assert.equal(posts.length, 5);
+		assert.ok(posts.every(post => post.platform === 'FEED'));
+		assert.equal(posts[0].sourceUrl, 'https://atelier.example.com/embroidery-revival');
+	});
+
+	it('maps RSS items', () => {
+		const milan = posts.find(post => post.sourceUrl === 'https://runway.example.com/milan/quiet-luxury')!;
+
+		assert.equal(milan.author, 'Ana Ruiz');
+		assert.equal(milan.postedAt.toISOString(), '2025-03-03T09:30:00.000Z');
+		assert.equal(milan.text, 'Quiet Luxury Returns to the Milan Runway: Designers traded logos for cashmere and camel tailoring.');
+		assert.equal(milan.mediaUrls?.[0], 'https://cdn.runway.example.com/milan-lead.jpg');
+		assert.ok(milan.mediaUrls?.includes('https://runway.example.com/images/milan-body.jpg'));
+		assert.deepEqual(milan.rawContent.categories, ['Runway', 'Milan Fashion Week']);
+	});
+
+	it('ignores audio enclosures', () => {
+		const podcast = posts.find(post => post.sourceUrl === 'https://runway.example.com/podcast/atelier')!;
+		assert.deepEqual(podcast.mediaUrls, []);
+	});
+
+	it('maps Atom entries', () => {
+		const [embroidery] = posts;
+
+		assert.equal(embroidery.rawContent.title, 'Couture & Craft: The Embroidery Revival');
+		assert.equal(embroidery.author, 'Mina Cho');
+		assert.equal(embroidery.mediaUrls?.[0], 'https://cdn.atelier.example.com/embroidery.jpg');
+		assert.deepEqual(embroidery.rawContent.categories, ['Couture', 'craft']);
+	});
+
+	it('resolves relative Atom links against the feed and falls back to updated', () => {
+		const denim = posts.find(post => post.sourceUrl === 'https://atelier.example.com/denim-mills');
+
+		assert.ok(denim);
+		assert.equal(denim.postedAt.toISOString(), '2025-02-20T08:00:00.000Z');
+	});
+
+	it('gives an item the same post id on every scrape', async () => {
+		const again = await source.scrape({ urls: [ATOM_URL] });
+		assert.equal(again.find(post => post.sourceUrl === posts[0].sourceUrl)?.platformPostId, posts[0].platformPostId);
+	});
+
+	it('matches keywords against categories and respects since', async () => {
+		const filtered = await source.scrape({ urls: [RSS_URL, ATOM_URL], keywords: ['couture'], since: new Date('2025-02-01T00:00:00Z') });
+		assert.deepEqual(filtered.map(post => post.sourceUrl), ['https://atelier.example.com/embroidery-revival']);
+	});
+});
+
+/**
+ * Conditional GET against a local server serving the recorded RSS feed
+ * with ETag and Last-Modified
+ */
+describe('FeedSource (conditional GET)', () => {
+	const source = new FeedSource();
+	const etag = '"rss-v1"';
+	let server: http.Server;
+	let url: string;
+
+	before(async () => {
+		const rss = fs.readFileSync(FixtureStore.pathFor(RSS_URL));
+		server = http.createServer((req, res) => {
+			if (req.url !== '/rss.xml') {
+				res.writeHead(404);
+				res.end();
+			} else if (req.headers['if-none-match'] === etag) {
+				res.writeHead(304);
+				res.end();
+			} else {
+				res.writeHead(200, { 'Content-Type': 'application/xml', 'ETag': etag });
+				res.end(rss);
+			}
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/rss.xml`;
+
+		FixtureStore.configure({ mode: 'off' });
+		FeedSource.resetValidators();
+	});
+
+	after(() => {
+		FixtureStore.configure({ mode: 'replay' });
+		FeedSource.resetValidators();
+		server.close();
+	});
+
+	it('fetches the feed again until the run commits its validators', async () => {
+		assert.equal((await source.scrape({ urls: [url] })).length, 3);
+
+		// The run stopped before its items were processed
+		assert.equal((await source.scrape({ urls: [url] })).length, 3);
+
+		FeedSource.commitValidators();
+		assert.equal((await source.scrape({ urls: [url] })).length, 0);
+	});
+});
@@ -0,0 +1,35 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FixtureMissingError, FixtureStore } from '../services/fixture-store.service';
+
+describe('FixtureStore', () => {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gia-fixtures-'));
+	const url = 'https://news.example.com/fashion/story?id=7';
+
+	before(() => FixtureStore.configure({ mode: 'record', dir }));
+	after(() => {
+		FixtureStore.configure({ mode: 'replay', dir: 'src/tests/fixtures/pages' });
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it('names fixtures after host and path', () => {
+		assert.match(FixtureStore.pathFor(url), /news\.example\.com[\\/]fashion-story-id-7-[0-9a-f]{8}\.html$/);
+		assert.match(FixtureStore.pathFor('https://news.example.com/sitemap.xml.gz'), /sitemap-[0-9a-f]{8}\.xml$/);
+	});
+
+	it('records fetched pages and replays them without fetching', async () => {
+		assert.equal(await FixtureStore.fetch(url, async () => '<html>live</html>'), '<html>live</html>');
+
+		FixtureStore.configure({ mode: 'replay' });
+		const replayed = await FixtureStore.fetch(url, async () => assert.fail('fetched in replay mode'));
+		assert.equal(replayed, '<html>live</html>');
+	});
+
+	it('throws for pages that were never recorded', async () => {
+		FixtureStore.configure({ mode: 'replay' });
+		await assert.rejects(FixtureStore.fetch(`${url}&page=2`, async () => ''), FixtureMissingError);
+	});
+});
@@ -0,0 +1,56 @@
+import { before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { HarperSource } from '../sources/harper.source';
+import { ScrapedPostData } from '../sources/base.source';
+
+/**
+ * Harper's Bazaar extraction against the recorded fashion landing page
+ * (fixtures/pages/www.harpersbazaar.com)
+ */
+describe('HarperSource (replayed)', () => {
+	const source = new HarperSource();
+	let posts: ScrapedPostData[];
+
+	before(async () => {
+		await source.initialize();
+		posts = await source.scrape({ ...source.definition.defaultConditions, maxResults: 100 });
+		await source.cleanup();
+	});
+
+	it('keeps teasers matching the default keywords', () => {
+		assert.equal(posts.length, 36);
+		assert.equal(posts[0].sourceUrl, 'https://www.harpersbazaar.com/fashion/trends/g42161074/best-designer-tote-bags/');
+	});
+
+	it('resolves absolute, unique article links', () => {
+		for (const post of posts) {
+			assert.equal(post.platform, 'HARPER');
+			assert.match(post.sourceUrl!, /^https:\/\/www\.harpersbazaar\.com\/fashion\//);
+		}
+		assert.equal(new Set(posts.map(post => post.sourceUrl)).size, posts.length);
+	});
+
+	it('describes teasers without a dek by their image alt text', () => {
+		assert.equal(posts[0].text, 'variety of stylish handbags displayed');
+	});
+
+	it('takes one teaser image per post', () => {
+		for (const post of posts) {
+			assert.equal(post.mediaUrls?.length, 1);
+		}
+	});
+
+	it('honours maxResults', async () => {
+		assert.equal((await source.scrape({ maxResults: 5 })).length, 5);
+	});
+
+	it('keeps undated teasers inside a date range', async () => {
+		// The landing page shows no dates; the article pages have them
+		const windowed = await source.scrape({
+			...source.definition.defaultConditions,
+			maxResults: 100,
+			until: new Date('2020-01-01'),
+		});
+		assert.equal(windowed.length, posts.length);
+	});
+});
@@ -0,0 +1,168 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { config } from '../config';
+import { LLMProviderError, MockLLMProvider, OpenAICompatibleProvider, getLLMProvider } from '../llm';
+import { assertModelsPriced, estimateCost, priceFor } from '../llm/pricing';
+import { logger } from '../utils/logger';
+
+const scrapedPost = {
+	title: 'Best Pleated Trousers',
+	description: 'The best pleated trousers for spring',
+	tags: ['Tailoring', 'Spring'],
+	image: 'https://hips.hearstapps.com/trousers.jpg',
+	link: 'https://www.elle.com/fashion/shopping/g65619547/best-pleated-trousers-women/',
+	platform: 'ELLE',
+};
+
+describe('MockLLMProvider', () => {
+	it('is the configured provider in tests', () => {
+		assert.equal(getLLMProvider().name, 'mock');
+	});
+
+	it('answers the same request the same way', async () => {
+		const mock = new MockLLMProvider();
+		const request = { messages: [{ role: 'user' as const, content: 'Common Hashtags: #denim' }], json: true };
+
+		const first = await mock.complete(request);
+		const second = await mock.complete(request);
+		assert.equal(first.content, second.content);
+		assert.ok(JSON.parse(first.content).title.startsWith('Mock Trend'));
+		assert.equal(first.usage.estimated, true);
+		assert.equal(mock.calls.length, 2);
+	});
+
+	it('normalizes the scraped posts of a normalization prompt', async () => {
+		// Same layout as NormalizationService: template (with an example array), then the posts
+		const prompt = `Example format:\n[\n  { "Title": "Example" }\n]\n\nScraped Content:\n${JSON.stringify([scrapedPost], null, 2)}`;
+		const result = await new MockLLMProvider().complete({ messages: [{ role: 'user', content: prompt }] });
+
+		const normalized = JSON.parse(result.content);
+		assert.equal(normalized.length, 1);
+		assert.equal(normalized[0].Title, 'Best Pleated Trousers');
+		assert.equal(normalized[0].Link, scrapedPost.link);
+		assert.deepEqual(normalized[0].Hashtags, ['#Tailoring', '#Spring']);
+	});
+
+	it('can be scripted', async () => {
+		const mock = new MockLLMProvider(() => 'positive');
+		assert.equal((await mock.complete({ messages: [] })).content, 'positive');
+	});
+});
+
+describe('OpenAICompatibleProvider', () => {
+	const requests: any[] = [];
+	let server: http.Server;
+	let baseUrl: string;
+
+	before(async () => {
+		server = http.createServer((req, res) => {
+			let body = '';
+			req.on('data', chunk => body += chunk);
+			req.on('end', () => {
+				const payload = JSON.parse(body);
+				requests.push({ url: req.url, headers: req.headers, payload });
+
+				if (payload.model === 'missing-model') {
+					res.writeHead(404, { 'Content-Type': 'application/json' });
+					res.end(JSON.stringify({ error: { message: 'model not found' } }));
+					return;
+				}
+
+				res.writeHead(200, { 'Content-Type': 'application/json' });
+				res.end(JSON.stringify({
+					model: payload.model,
+					choices: [{ message: { role: 'assistant', content: '{"title":"Soft Tailoring"}' } }],
+					...(payload.model === 'with-usage' ? { usage: { prompt_tokens: 12, completion_tokens: 5, total_tokens: 17 } } : {}),
+				}));
+			});
+		});
+		await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+		baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1/`;
+	});
+
+	after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+	it('posts chat completions with JSON mode and the API key', async () => {
+		const provider = new OpenAICompatibleProvider({ baseUrl, model: 'local-llama', apiKey: 'secret' });
+		const result = await provider.complete({
+			messages: [{ role: 'user', content: 'Name this trend' }],
+			maxTokens: 50,
+			json: true,
+		});
+
+		assert.equal(result.content, '{"title":"Soft Tailoring"}');
+		assert.equal(result.model, 'local-llama');
+		assert.equal(requests[0].url, '/v1/chat/completions');
+		assert.equal(requests[0].headers.authorization, 'Bearer secret');
+		assert.deepEqual(requests[0].payload.response_format, { type: 'json_object' });
+		assert.equal(requests[0].payload.max_tokens, 50);
+	});
+
+	it('reports server usage, or estimates it', async () => {
+		const provider = new OpenAICompatibleProvider({ baseUrl, model: 'local-llama' });
+
+		const reported = await provider.complete({ model: 'with-usage', messages: [{ role: 'user', content: 'Hi' }] });
+		assert.deepEqual(reported.usage, { promptTokens: 12, completionTokens: 5, totalTokens: 17 });
+
+		const estimated = await provider.complete({ messages: [{ role: 'user', content: 'Hi' }] });
+		assert.equal(estimated.usage.estimated, true);
+		assert.equal(estimated.usage.totalTokens, estimated.usage.promptTokens + estimated.usage.completionTokens);
+	});
+
+	it('wraps endpoint errors', async () => {
+		const provider = new OpenAICompatibleProvider({ baseUrl, model: 'missing-model' });
+
+		await assert.rejects(provider.complete({ messages: [{ role: 'user', content: 'Hi' }] }), (error: any) => {
+			assert.ok(error instanceof LLMProviderError);
+			assert.equal(error.status, 404);
+			assert.match(error.message, /model not found/);
+			return true;
+		});
+	});
+});
+
+describe('LLM pricing', () => {
+	const usage = { promptTokens: 1_000_000, completionTokens: 500_000, totalTokens: 1_500_000 };
+
+	it('prices dated snapshots by their model family', () => {
+		assert.deepEqual(priceFor('gpt-4o-2024-08-06'), priceFor('gpt-4o'));
+		assert.deepEqual(priceFor('gpt-4o-mini-2024-07-18'), { input: 0.15, output: 0.6 });
+		assert.equal(estimateCost('gpt-4o', usage), 7.5);
+	});
+
+	it('counts unknown models as free unless LLM_PRICES lists them', () => {
+		assert.equal(estimateCost('llama-3.1-8b-instruct', usage), 0);
+
+		config.llm.prices = { 'llama-3.1': { input: 0.1, output: 0.2 } };
+		try {
+			assert.equal(estimateCost('llama-3.1-8b-instruct', usage), 0.2);
+		} finally {
+			config.llm.prices = {};
+		}
+	});
+
+	it('warns once per unpriced model', t => {
+		const warn = t.mock.method(logger, 'warn');
+
+		estimateCost('qwen-2.5-72b-instruct', usage);
+		estimateCost('qwen-2.5-72b-instruct', usage);
+		estimateCost('mistral-large', usage);
+
+		assert.equal(warn.mock.callCount(), 2);
+		assert.match(String(warn.mock.calls[0].arguments[0]), /qwen-2\.5-72b-instruct.*LLM_PRICES/);
+	});
+
+	it('refuses a daily budget when a configured model has no price', () => {
+		assert.doesNotThrow(() => assertModelsPriced(['llama-3.1-8b-instruct']));
+
+		config.llm.dailyBudgetUsd = 5;
+		try {
+			assert.doesNotThrow(() => assertModelsPriced(['gpt-4-turbo-preview', 'mock-1', undefined]));
+			assert.throws(() => assertModelsPriced(['gpt-4o-mini', 'llama-3.1-8b-instruct']), /LLM_DAILY_BUDGET_USD is set but llama-3\.1-8b-instruct has no price/);
+		} finally {
+			config.llm.dailyBudgetUsd = 0;
+		}
+	});
+});
@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MetadataExtractor } from '../sources/extractors/metadata.extractor';
+
+function page(name: string): string {
+	return fs.readFileSync(path.join(__dirname, 'fixtures', 'articles', name), 'utf-8');
+}
+
+/**
+ * Metadata precedence and fallbacks against the pages of fixtures/articles
+ */
+describe('MetadataExtractor', () => {
+	it('prefers the JSON-LD article over OpenGraph, Twitter and meta tags', () => {
+		const url = 'https://www.runway-daily.example/fashion/denim-paris';
+		const metadata = MetadataExtractor.extract(page('jsonld-article.html'), url);
+
+		// The broken script is skipped; the article is found inside @graph ahead of the WebPage
+		assert.equal(metadata.headline, 'Denim Takes Over Paris');
+		assert.equal(metadata.description, 'Designers rebuilt the season around indigo.');
+		assert.equal(metadata.canonicalUrl, url);
+		assert.deepEqual(metadata.authors, ['Ana Ruiz', 'Mina Cho']);
+		assert.equal(metadata.publishedAt?.toISOString(), '2025-03-04T08:30:00.000Z');
+		assert.equal(metadata.modifiedAt?.toISOString(), '2025-03-05T12:00:00.000Z');
+		assert.equal(metadata.section, 'Fashion');
+		assert.deepEqual(metadata.keywords, ['denim', 'Paris Fashion Week', 'tailoring']);
+		assert.equal(metadata.image, 'https://www.runway-daily.example/images/denim-lead.jpg');
+		assert.equal(metadata.siteName, 'Runway Daily');
+		assert.equal(metadata.type, 'NewsArticle');
+		assert.deepEqual(metadata.listItems, []);
+	});
+
+	it('falls back to OpenGraph, Twitter and meta tags without a JSON-LD article', () => {
+		const url = 'https://www.atelier-journal.example/trends/suede-season';
+		const metadata = MetadataExtractor.extract(page('meta-tags.html'), url);
+
+		assert.equal(metadata.headline, 'Suede Season');
+		assert.equal(metadata.description, 'Twitter description');
+		assert.equal(metadata.canonicalUrl, url);
+		// article:author holds a profile URL, so the plain author meta is used
+		assert.deepEqual(metadata.authors, ['Ana Ruiz']);
+		assert.equal(metadata.publishedAt?.toISOString(), '2025-02-20T08:00:00.000Z');
+		assert.equal(metadata.modifiedAt?.toISOString(), '2025-02-21T10:00:00.000Z');
+		assert.equal(metadata.section, 'Trends');
+		assert.deepEqual(metadata.keywords, ['suede', 'spring', 'leather']);
+		assert.equal(metadata.image, 'https://www.atelier-journal.example/images/suede.jpg');
+		assert.equal(metadata.siteName, 'Atelier Journal');
+		assert.equal(metadata.type, 'article');
+	});
+
+	it('uses the WebPage node when there is no article and reads ItemList entries', () => {
+		const url = 'https://www.runway-daily.example/fashion/';
+		const metadata = MetadataExtractor.extract(page('listing.html'), url);
+
+		assert.equal(metadata.headline, 'Fashion');
+		assert.equal(metadata.canonicalUrl, url);
+		assert.equal(metadata.type, 'WebPage');
+
+		// Entries without a usable URL are dropped
+		assert.deepEqual(metadata.listItems, [
+			{
+				url: 'https://www.runway-daily.example/fashion/denim-paris',
+				name: 'Denim Takes Over Paris',
+				publishedAt: new Date('2025-03-04T08:30:00Z'),
+				image: 'https://www.runway-daily.example/images/denim-thumb.jpg',
+			},
+			{
+				url: 'https://www.runway-daily.example/fashion/suede-season',
+				name: 'Suede Season',
+				publishedAt: null,
+				image: null,
+			},
+		]);
+	});
+
+	it('falls back to the document title and returns empty values without metadata', () => {
+		const metadata = MetadataExtractor.extract('<html><head><title> Bare  page </title></head><body></body></html>', 'https://example.com/bare');
+
+		assert.equal(metadata.headline, 'Bare page');
+		assert.equal(metadata.canonicalUrl, null);
+		assert.deepEqual(metadata.authors, []);
+		assert.deepEqual(metadata.keywords, []);
+		assert.equal(metadata.publishedAt, null);
+		assert.equal(metadata.image, null);
+	});
+
+	it('parses dates and rejects invalid ones', () => {
+		assert.equal(MetadataExtractor.parseDate('2025-03-04T09:30:00+01:00')?.toISOString(), '2025-03-04T08:30:00.000Z');
+		assert.equal(MetadataExtractor.parseDate('not a date'), null);
+		assert.equal(MetadataExtractor.parseDate(''), null);
+		assert.equal(MetadataExtractor.parseDate(undefined), null);
+	});
+});
@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockLLMProvider, defaultMockResponder } from '../llm';
+import { NormalizationBatcher } from '../services/normalization.batcher';
+import { ScrapedPostData } from '../sources/base.source';
+
+const PROMPT = { system: 'You normalize fashion articles.', template: 'Normalize these articles:\n{{articles}}' };
+const TITLES = ['Soft Tailoring Takes Over', 'The Return of Suede', 'Ballet Flats Everywhere', 'Denim on Denim', 'Quiet Luxury Bags'];
+const LINKS = TITLES.map((_, i) => `https://www.elle.com/fashion/trend-reports/a${i + 1}/`);
+
+function article(index: number): ScrapedPostData {
+	return {
+		platformPostId: `elle-${index}`,
+		platform: 'ELLE',
+		author: 'Elle',
+		authorHandle: 'elle',
+		text: TITLES[index],
+		postedAt: new Date('2025-03-04T08:00:00Z'),
+		likes: 0,
+		comments: 0,
+		shares: 0,
+		views: 0,
+		sourceUrl: LINKS[index],
+		rawContent: { title: TITLES[index] },
+	};
+}
+
+const ARTICLES = TITLES.map((_, i) => article(i));
+const [A, B, C, D, E] = ARTICLES;
+
+/**
+ * The mock normalizes every article, then answers in reverse order without
+ * the third article, with an invalid fifth one, and fails the fourth's batch
+ */
+function scriptedMock(): MockLLMProvider {
+	return new MockLLMProvider(request => {
+		const items: any[] = JSON.parse(defaultMockResponder(request));
+		if (items.some(item => item.Link === D.sourceUrl)) {
+			throw new Error('upstream timeout');
+		}
+
+		return JSON.stringify(items
+			.filter(item => item.Link !== C.sourceUrl)
+			.map(item => item.Link === E.sourceUrl ? { ...item, Title: '' } : item)
+			.reverse());
+	});
+}
+
+describe('NormalizationBatcher', () => {
+	it('splits articles into batches that never mix groups', () => {
+		const batches = NormalizationBatcher.split(ARTICLES, source => source === D ? 'v2' : 'v1', 2);
+
+		assert.deepEqual(batches, [[A, B], [C, E], [D]]);
+		assert.equal(NormalizationBatcher.split(ARTICLES, () => 'v1', 0).length, 5);
+	});
+
+	it('maps out-of-order output back by link and reports unmatched articles', async () => {
+		const mock = scriptedMock();
+		const batches = NormalizationBatcher.split(ARTICLES, source => source === D ? 'v2' : 'v1', 2);
+
+		const run = await NormalizationBatcher.run(batches, 2, 'ELLE', (batch, index) =>
+			NormalizationBatcher.normalizeBatch(batch, PROMPT, `ELLE batch ${index + 1}`, { complete: request => mock.complete(request) }));
+		const { matched, unmatched } = NormalizationBatcher.match(ARTICLES, run.accepted, run.rejected, run.failed);
+
+		assert.deepEqual(matched.map(({ post, source }) => [source, post.Link, post.Title]), [
+			[A, A.sourceUrl, TITLES[0]],
+			[B, B.sourceUrl, TITLES[1]],
+		]);
+		assert.deepEqual(unmatched.map(({ source, reason, retryable }) => [source, reason, retryable]), [
+			[D, 'upstream timeout', true],
+			[C, 'no output for this article', false],
+			[E, 'rejected: Title is required', false],
+		]);
+
+		// One request per batch, plus one repair for the batch with problems
+		assert.equal(run.attempts, 4);
+		assert.equal(mock.calls.length, 4);
+		const repair = mock.calls.find(call => call.messages.length === 4)!;
+		assert.match(repair.messages[3].content, new RegExp(`No item for these input links: ${C.sourceUrl}`));
+	});
+
+	it('keeps a repaired item and the usage of single-article batches', async () => {
+		let calls = 0;
+		const mock = new MockLLMProvider(request => {
+			const items: any[] = JSON.parse(defaultMockResponder(request));
+			// The first answer leaves the article out; the repair adds it
+			return calls++ === 0 ? '[]' : JSON.stringify(items);
+		});
+
+		const run = await NormalizationBatcher.run([[A]], 1, 'ELLE', batch =>
+			NormalizationBatcher.normalizeBatch(batch, PROMPT, 'ELLE batch 1', {
+				complete: async request => ({ ...await mock.complete(request), usageId: `usage-${calls}` }),
+			}));
+
+		assert.deepEqual([...run.accepted.keys()], [A.sourceUrl]);
+		assert.deepEqual(run.rejected, []);
+		assert.deepEqual(run.usageByLink.get(A.sourceUrl!), ['usage-1', 'usage-2']);
+	});
+
+	it('sends tags and a truncated article body to the model', () => {
+		const item = NormalizationBatcher.toPromptItem({ ...A, rawContent: { title: A.text, article: { bodyText: 'x'.repeat(5000), tags: ['tailoring'] } } });
+
+		assert.equal(item.body?.length, 4000);
+		assert.deepEqual(item.tags, ['tailoring']);
+		assert.equal(item.link, A.sourceUrl);
+	});
+});
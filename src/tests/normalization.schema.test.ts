@@ -0,0 +1,79 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { MockLLMProvider } from '../llm';
+import { NormalizationSchema } from '../services/normalization.schema';
+
+const LINK = 'https://www.elle.com/fashion/trend-reports/a1/soft-tailoring/';
+const INSIGHT = Array.from({ length: 200 }, (_, i) => `word${i}`).join(' ');
+
+const valid = {
+	Title: 'Soft Tailoring Takes Over',
+	AI_Insight: INSIGHT,
+	Image: 'https://hips.hearstapps.com/soft-tailoring.jpg',
+	Description: 'Relaxed suits are everywhere this spring.',
+	Link: LINK,
+	Platform: 'elle',
+	Hashtags: ['#SoftTailoring', '#SpringFashion'],
+	Keywords: ['ELLE', 'tailoring'],
+};
+
+describe('NormalizationSchema', () => {
+	it('accepts a valid item and normalizes the platform', () => {
+		const { posts, rejected } = NormalizationSchema.validate([valid], new Set([LINK]));
+
+		assert.equal(rejected.length, 0);
+		assert.equal(posts[0].Platform, 'ELLE');
+		assert.equal(posts[0].Title, valid.Title);
+	});
+
+	it('strips markdown fences and unwraps JSON-mode objects', () => {
+		assert.equal(NormalizationSchema.parse(`\`\`\`json\n${JSON.stringify([valid])}\n\`\`\``).length, 1);
+		assert.equal(NormalizationSchema.parse(JSON.stringify({ posts: [valid, valid] })).length, 2);
+	});
+
+	it('explains responses that are not a JSON array', () => {
+		assert.throws(() => NormalizationSchema.parse('Sure! Here are the posts:'), /not valid JSON/);
+		assert.throws(() => NormalizationSchema.parse('{"title": "x"}'), /not a JSON array/);
+	});
+
+	it('rejects invalid items with every reason, keeping the valid ones', () => {
+		const { posts, rejected } = NormalizationSchema.validate([
+			valid,
+			{ ...valid, Title: '', Link: 'elle.com/fashion', Hashtags: ['SoftTailoring', '#ok'], AI_Insight: 'Too short.' },
+			{ ...valid, Keywords: undefined, Image: 'not a url' },
+			'not an object',
+		], new Set([LINK]));
+
+		assert.equal(posts.length, 1);
+		assert.equal(rejected.length, 3);
+		assert.deepEqual(rejected[0].reasons, [
+			'Title is required',
+			'AI_Insight has 2 words (minimum 150)',
+			'Link must be an absolute http(s) URL',
+			'Hashtags entries must be a # followed by letters, digits or underscores: SoftTailoring',
+			'Link is not one of the scraped article links',
+		]);
+		assert.equal(rejected[0].link, 'elle.com/fashion');
+		assert.deepEqual(rejected[1].reasons, [
+			'Image must be an absolute http(s) URL',
+			'Keywords must be an array of strings',
+		]);
+		assert.deepEqual(rejected[2], { index: 3, title: undefined, link: undefined, reasons: ['item is not an object'] });
+	});
+
+	it('rejects links the model made up', () => {
+		const { rejected } = NormalizationSchema.validate([{ ...valid, Link: 'https://www.elle.com/fashion/invented/' }], new Set([LINK]));
+		assert.deepEqual(rejected[0].reasons, ['Link is not one of the scraped article links']);
+	});
+
+	it('accepts what the mock provider returns', async () => {
+		const scraped = [{ title: 'Soft Tailoring Takes Over', description: '', image: '', link: LINK, platform: 'ELLE', tags: ['Tailoring'] }];
+		const { content } = await new MockLLMProvider().complete({
+			messages: [{ role: 'user', content: `Scraped Content:\n${JSON.stringify(scraped, null, 2)}` }],
+		});
+
+		const { posts, rejected } = NormalizationSchema.validate(NormalizationSchema.parse(content), new Set([LINK]));
+		assert.deepEqual(rejected, []);
+		assert.equal(posts.length, 1);
+	});
+});
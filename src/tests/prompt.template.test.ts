@@ -0,0 +1,43 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { PromptTemplate } from '../services/prompt.template';
+
+describe('PromptTemplate', () => {
+	it('lists each placeholder once', () => {
+		assert.deepEqual(PromptTemplate.placeholders('{{posts}} and {{ hashtags }} then {{posts}} again'), ['posts', 'hashtags']);
+	});
+
+	it('renders known placeholders and leaves unknown ones', () => {
+		const rendered = PromptTemplate.render('Score {{trendScore}}/100, growth {{growth}}%, {{other}}', { trendScore: 82, growth: 12.5 });
+
+		assert.equal(rendered, 'Score 82/100, growth 12.5%, {{other}}');
+	});
+
+	it('rejects unknown and missing required placeholders', () => {
+		assert.deepEqual(PromptTemplate.validate('sentiment', 'Posts: {{posts}}'), []);
+		assert.deepEqual(PromptTemplate.validate('normalize', 'Normalize these articles.'), []);
+		assert.deepEqual(PromptTemplate.validate('insight', 'Trend {{title}}'), [
+			'unknown placeholder {{title}} (allowed: {{hashtags}}, {{keywords}}, {{trendScore}}, {{growth}}, {{posts}})',
+			'missing required placeholder {{posts}}',
+		]);
+		assert.deepEqual(PromptTemplate.validate('sentiment', '  '), [
+			'template is empty',
+			'missing required placeholder {{posts}}',
+		]);
+	});
+
+	it('assigns the same key to the same bucket', () => {
+		const link = 'https://www.elle.com/fashion/trend-reports/a1/soft-tailoring/';
+		const bucket = PromptTemplate.bucket('normalize', link);
+
+		assert.ok(bucket >= 0 && bucket < 100);
+		assert.equal(PromptTemplate.bucket('normalize', link), bucket);
+	});
+
+	it('splits many keys roughly by traffic share', () => {
+		const keys = Array.from({ length: 2000 }, (_, i) => `cluster-${i}`);
+		const inVariant = keys.filter(key => PromptTemplate.bucket('insight', key) < 30).length;
+
+		assert.ok(inVariant > 500 && inVariant < 700, `${inVariant} of 2000 in a 30% variant`);
+	});
+});
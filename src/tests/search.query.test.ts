@@ -0,0 +1,54 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SearchQuery } from '../services/search.query';
+
+describe('SearchQuery', () => {
+	it('keeps words of 3+ characters without operators or duplicates', () => {
+		assert.deepEqual(SearchQuery.terms('#Y2K  "soft tailoring" +on -Tailoring* café'), ['y2k', 'soft', 'tailoring', 'café']);
+		assert.deepEqual(SearchQuery.terms('a ok ++'), []);
+	});
+
+	it('requires every term as a word prefix', () => {
+		assert.equal(SearchQuery.booleanQuery(['soft', 'tailor']), '+soft* +tailor*');
+	});
+
+	it('marks words starting with a term and escapes HTML', () => {
+		assert.equal(
+			SearchQuery.highlight('Tailored <b>suits</b> & tailoring; retailers', ['tailor']),
+			'<mark>Tailored</mark> &lt;b&gt;suits&lt;/b&gt; &amp; <mark>tailoring</mark>; retailers',
+		);
+		assert.equal(SearchQuery.highlight('Fish & chips', ['amp']), 'Fish &amp; chips');
+		assert.ok(SearchQuery.matches('New tailoring', ['tailor']));
+		assert.ok(!SearchQuery.matches('Retailers', ['tailor']));
+	});
+
+	it('cuts snippets around the first match on word boundaries', () => {
+		const text = `${'Runway news from Paris. '.repeat(10)}Soft tailoring leads the season. ${'More looks follow. '.repeat(10)}`;
+		const snippet = SearchQuery.snippet(text, ['tailoring'], 80);
+
+		assert.ok(snippet.startsWith('… '));
+		assert.ok(snippet.endsWith(' …'));
+		assert.ok(snippet.includes('Soft <mark>tailoring</mark> leads'));
+		assert.ok(snippet.length < 80 + '<mark></mark>'.length + 4);
+	});
+
+	it('returns short texts whole and long unmatched ones from the start', () => {
+		assert.equal(SearchQuery.snippet('  Denim   is back ', ['denim']), '<mark>Denim</mark> is back');
+		assert.equal(SearchQuery.snippet(null, ['denim']), '');
+		assert.ok(SearchQuery.snippet('word '.repeat(100), ['denim'], 40).startsWith('word word'));
+	});
+
+	it('accepts a query parameter only when given once', () => {
+		assert.equal(SearchQuery.param('denim'), 'denim');
+		assert.equal(SearchQuery.param(undefined), undefined);
+		assert.equal(SearchQuery.param(['denim', 'silk']), null);
+		assert.equal(SearchQuery.param({ q: 'denim' }), null);
+	});
+
+	it('reads a date-only upper bound as the end of that day', () => {
+		assert.equal(SearchQuery.dateBound('2025-03-05', 'to').toISOString(), '2025-03-05T23:59:59.999Z');
+		assert.equal(SearchQuery.dateBound('2025-03-05', 'from').toISOString(), '2025-03-05T00:00:00.000Z');
+		assert.equal(SearchQuery.dateBound('2025-03-05T12:00:00Z', 'to').toISOString(), '2025-03-05T12:00:00.000Z');
+		assert.ok(isNaN(SearchQuery.dateBound('yesterday', 'to').getTime()));
+	});
+});
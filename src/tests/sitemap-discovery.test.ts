@@ -0,0 +1,107 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import { gzipSync } from 'zlib';
+import { SitemapDiscoveryService } from '../services/sitemap-discovery.service';
+import { FixtureStore } from '../services/fixture-store.service';
+import { SitemapExtractor } from '../sources/extractors/sitemap.extractor';
+
+const ORIGIN = 'https://www.runway-daily.example';
+const INDEX_URL = `${ORIGIN}/sitemap_index.xml`;
+const NEWS_URL = `${ORIGIN}/news-sitemap.xml.gz`;
+
+function recorded(url: string): string {
+	return fs.readFileSync(FixtureStore.pathFor(url), 'utf-8');
+}
+
+/**
+ * Sitemap parsing against the recorded sitemaps of
+ * fixtures/pages/www.runway-daily.example
+ */
+describe('SitemapExtractor', () => {
+	it('reads sitemap indexes and resolves relative child sitemaps', () => {
+		const index = SitemapExtractor.parse(recorded(INDEX_URL), INDEX_URL);
+
+		assert.equal(index.type, 'index');
+		assert.deepEqual(index.entries.map(entry => entry.url), [
+			`${ORIGIN}/sitemaps/2025-03.xml`,
+			`${ORIGIN}/sitemaps/2025-01.xml`,
+			NEWS_URL,
+			`${ORIGIN}/private/sitemap.xml`,
+		]);
+		assert.equal(index.entries[0].lastModified?.toISOString(), '2025-03-08T06:00:00.000Z');
+		assert.equal(index.entries[2].lastModified, null);
+	});
+
+	it('reads lastmod and image extension entries of a urlset', () => {
+		const url = `${ORIGIN}/sitemaps/2025-03.xml`;
+		const [tailoring] = SitemapExtractor.parse(recorded(url), url).entries;
+
+		assert.equal(tailoring.lastModified?.toISOString(), '2025-03-04T10:00:00.000Z');
+		assert.deepEqual(tailoring.images, [
+			'https://cdn.runway-daily.example/paris-tailoring.jpg',
+			`${ORIGIN}/images/paris-detail.jpg`,
+		]);
+		assert.equal(tailoring.publishedAt, null);
+	});
+
+	it('reads Google News publication dates and titles', () => {
+		const [milan] = SitemapExtractor.parse(recorded(NEWS_URL), NEWS_URL).entries;
+
+		assert.equal(milan.publishedAt?.toISOString(), '2025-03-06T08:30:00.000Z');
+		assert.equal(milan.title, 'Milan Day One: Soft Tailoring & Suede');
+		assert.equal(SitemapDiscoveryService.entryDate(milan), milan.publishedAt);
+	});
+
+	it('rejects documents that are not sitemaps', () => {
+		assert.throws(() => SitemapExtractor.parse('<html><body>Not found</body></html>', INDEX_URL), /Not a sitemap/);
+	});
+});
+
+describe('SitemapDiscoveryService (replayed)', () => {
+	it('walks the robots.txt sitemaps for URLs under the path inside the window', async () => {
+		const found = await SitemapDiscoveryService.discover({
+			origin: ORIGIN,
+			pathPrefixes: ['/fashion/'],
+			since: new Date('2025-03-01T00:00:00Z'),
+			until: new Date('2025-03-10T00:00:00Z'),
+		});
+
+		// News date beats an older lastmod; undated URLs are kept (and sorted last);
+		// the January sitemap was last modified before the window and is not read
+		assert.deepEqual(found.map(entry => entry.url), [
+			`${ORIGIN}/fashion/milan-day-one`,
+			`${ORIGIN}/fashion/paris-tailoring`,
+			`${ORIGIN}/fashion/undated-lookbook`,
+		]);
+		assert.equal(found[1].sitemapUrl, `${ORIGIN}/sitemaps/2025-03.xml`);
+	});
+
+	it('reads every sitemap of the index without a window', async () => {
+		const found = await SitemapDiscoveryService.discover({ origin: ORIGIN, sitemapUrls: [INDEX_URL], pathPrefixes: ['/fashion/'] });
+
+		assert.deepEqual(found.map(entry => entry.url), [
+			`${ORIGIN}/fashion/future-preview`,
+			`${ORIGIN}/fashion/milan-day-one`,
+			`${ORIGIN}/fashion/paris-tailoring`,
+			`${ORIGIN}/fashion/winter-coats`,
+			`${ORIGIN}/fashion/resort-recap`,
+			`${ORIGIN}/fashion/undated-lookbook`,
+		]);
+	});
+
+	it('keeps every path without prefixes and stops at maxSitemaps', async () => {
+		const found = await SitemapDiscoveryService.discover({ origin: ORIGIN, sitemapUrls: [INDEX_URL], maxSitemaps: 2 });
+
+		// The index and the first child only
+		assert.equal(found.length, 5);
+		assert.ok(found.some(entry => entry.url === `${ORIGIN}/beauty/spring-nails`));
+	});
+
+	it('inflates gzipped sitemaps and passes plain ones through', () => {
+		const xml = recorded(NEWS_URL);
+
+		assert.equal(SitemapDiscoveryService.inflate(gzipSync(xml)), xml);
+		assert.equal(SitemapDiscoveryService.inflate(Buffer.from(xml)), xml);
+	});
+});
@@ -73,12 +73,16 @@ async function testElleWorkflow() {
 		console.log('⏳ Sending data to OpenAI for normalization...');
 		console.log('   This may take 30-60 seconds...\n');
 
-		const normalizedData = await NormalizationService.normalizeWithAI(posts, 'ELLE');
+		const { posts: normalizedData, rejected } = await NormalizationService.normalizeWithAI(posts, 'ELLE');
 
 		console.log('==========================================================');
 		console.log(`✅ AI NORMALIZATION COMPLETED - ${normalizedData.length} posts normalized`);
 		console.log('==========================================================\n');
 
+		rejected.forEach(item => {
+			console.log(`⚠️  Rejected ${item.title || `item ${item.index}`}: ${item.reasons.join('; ')}`);
+		});
+
 		// Save normalized data
 		console.log('💾 Saving normalized data to file...');
 		const filepath = await NormalizationService.saveNormalizedData(normalizedData, 'ELLE');
@@ -0,0 +1,10 @@
+/**
+ * Error carrying the HTTP status the global error handler answers with
+ * (see errorHandler in middleware/error.middleware.ts)
+ */
+export class HttpError extends Error {
+	constructor(readonly statusCode: number, message: string) {
+		super(message);
+		this.name = 'HttpError';
+	}
+}
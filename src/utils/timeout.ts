@@ -0,0 +1,16 @@
+/**
+ * Wait for a promise for at most `ms` milliseconds
+ * Resolves true when it settled in time (rejections included), false on timeout
+ */
+export async function settleWithin(promise: Promise<unknown>, ms: number): Promise<boolean> {
+	let timer: NodeJS.Timeout | undefined;
+	const timeout = new Promise<false>(resolve => {
+		timer = setTimeout(() => resolve(false), ms);
+	});
+
+	try {
+		return await Promise.race([promise.then(() => true, () => true), timeout]);
+	} finally {
+		clearTimeout(timer);
+	}
+}